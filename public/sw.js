@@ -19,7 +19,8 @@ const PROCESSOR_PATTERNS = [
   /docx/,
   /mammoth/,
   /xlsx/,
-  /pptx/
+  /pptx/,
+  /\/fonts\//
 ];
 
 // UI libraries (cache with medium expiration)
@@ -5,28 +5,50 @@ import {
   ArrowDownTrayIcon,
   CheckCircleIcon,
   DocumentIcon,
-  ClockIcon
+  ClockIcon,
+  XCircleIcon,
+  ExclamationTriangleIcon,
+  TableCellsIcon
 } from '@heroicons/react/24/outline';
 import { Button } from '@/app/components/ui/Button';
 import { useDocumentStore } from '@/app/stores/document-store';
 import { useUIStore } from '@/app/stores/ui-store';
 import { formatFileSize, getFileExtension } from '@/app/lib/utils/file-utils';
+import { buildBatesLog } from '@/app/lib/utils/pdf-bates';
+import { PDFOptimizationReport } from '@/app/types';
+
+// "4.2 MB → 2.1 MB (50% smaller)", or the unchanged size
+function describeSizeChange(report: PDFOptimizationReport): string {
+  const saved = report.originalSize - report.optimizedSize;
+  if (saved <= 0) return `${formatFileSize(report.optimizedSize)} (already compact)`;
+  const percent = Math.round((saved / report.originalSize) * 100);
+  return `${formatFileSize(report.originalSize)} → ${formatFileSize(report.optimizedSize)} (${percent}% smaller)`;
+}
+
+function describeOptimizationSteps(report: PDFOptimizationReport): string {
+  const steps = [
+    report.imagesRecompressed > 0 && `${report.imagesRecompressed} ${report.imagesRecompressed === 1 ? 'image' : 'images'} recompressed`,
+    report.duplicatesRemoved > 0 && `${report.duplicatesRemoved} duplicate ${report.duplicatesRemoved === 1 ? 'object' : 'objects'} shared`,
+    report.unusedObjectsRemoved > 0 && `${report.unusedObjectsRemoved} unused ${report.unusedObjectsRemoved === 1 ? 'object' : 'objects'} removed`,
+  ].filter(Boolean);
+  return steps.length > 0 ? steps.join(', ') : 'Nothing left to optimize';
+}
 
 export function ExportResults() {
-  const { currentJob, clearDocuments, resetMergeOptions } = useDocumentStore();
+  const { currentJob, clearDocuments, resetMergeOptions, cancelProcessing } = useDocumentStore();
   const { addNotification, setActiveTab } = useUIStore();
   const [isDownloading, setIsDownloading] = useState(false);
 
-  const handleDownload = async () => {
-    if (!currentJob?.resultUrl) return;
+  const handleDownload = async (url = currentJob?.resultUrl, fileName?: string) => {
+    if (!currentJob || !url) return;
 
     try {
       setIsDownloading(true);
       
       // Create download link
       const link = document.createElement('a');
-      link.href = currentJob.resultUrl;
-      link.download = `${currentJob.options.outputName}${getFileExtension(currentJob.outputFormat || 'pdf')}`;
+      link.href = url;
+      link.download = fileName ?? `${currentJob.options.outputName}${getFileExtension(currentJob.outputFormat || 'pdf')}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -47,6 +69,30 @@ export function ExportResults() {
     }
   };
 
+  // The log covers every output; smart merges continue one Bates sequence across their PDFs
+  const handleDownloadBatesLog = () => {
+    const ranges = (currentJob?.outputs ?? []).flatMap(output => output.batesRanges ?? []);
+    if (!currentJob || ranges.length === 0) return;
+
+    const url = URL.createObjectURL(new Blob([buildBatesLog(ranges)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${currentJob.options.outputName}-bates-log.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCancel = () => {
+    cancelProcessing();
+    addNotification({
+      type: 'info',
+      title: 'Merge cancelled',
+      message: 'Processing was stopped before the merge finished'
+    });
+  };
+
   const handleStartNew = () => {
     clearDocuments();
     resetMergeOptions();
@@ -79,7 +125,10 @@ export function ExportResults() {
 
   const isCompleted = currentJob.status === 'completed';
   const isFailed = currentJob.status === 'failed';
+  const isCancelled = currentJob.status === 'cancelled';
   const isProcessing = currentJob.status === 'processing' || currentJob.status === 'queued';
+  const outputs = currentJob.outputs ?? [];
+  const batesRanges = outputs.flatMap(output => output.batesRanges ?? []);
 
   return (
     <div className="space-y-8">
@@ -87,18 +136,22 @@ export function ExportResults() {
       <div className={`rounded-lg border-2 p-6 ${
         isCompleted ? 'border-primary bg-primary/5' :
         isFailed ? 'border-red-500 bg-red-500/5' :
+        isCancelled ? 'border-border bg-muted/30' :
         'border-accent bg-accent/5'
       }`}>
         <div className="flex items-center space-x-4">
           <div className={`p-3 rounded-full ${
             isCompleted ? 'bg-primary text-black' :
             isFailed ? 'bg-red-500 text-white' :
+            isCancelled ? 'bg-muted text-gray-400' :
             'bg-accent text-black'
           }`}>
             {isCompleted ? (
               <CheckCircleIcon className="h-6 w-6" />
             ) : isFailed ? (
               <DocumentIcon className="h-6 w-6" />
+            ) : isCancelled ? (
+              <XCircleIcon className="h-6 w-6" />
             ) : (
               <ClockIcon className="h-6 w-6" />
             )}
@@ -108,15 +161,18 @@ export function ExportResults() {
             <h3 className={`text-lg font-semibold ${
               isCompleted ? 'text-primary' :
               isFailed ? 'text-red-400' :
+              isCancelled ? 'text-gray-400' :
               'text-accent'
             }`}>
               {isCompleted ? 'Merge Completed!' :
                isFailed ? 'Merge Failed' :
+               isCancelled ? 'Merge Cancelled' :
                'Processing...'}
             </h3>
             <p className="text-gray-400 mt-1">
               {isCompleted ? 'Your documents have been successfully merged' :
                isFailed ? (currentJob.error || 'An error occurred during processing') :
+               isCancelled ? 'Processing was stopped before the merge finished' :
                `Processing ${currentJob.documents.length} documents...`}
             </p>
           </div>
@@ -150,7 +206,9 @@ export function ExportResults() {
           
           <div className="text-center">
             <div className="text-2xl font-bold text-accent uppercase">
-              {currentJob.outputFormat || 'pdf'}
+              {outputs.length > 1
+                ? [...new Set(outputs.map(output => output.format))].join(' + ')
+                : currentJob.outputFormat || 'pdf'}
             </div>
             <div className="text-gray-400 text-sm">Output Format</div>
           </div>
@@ -171,12 +229,14 @@ export function ExportResults() {
         </div>
 
         <div className="space-y-2 text-sm">
-          <div className="flex justify-between">
-            <span className="text-gray-400">Output Name:</span>
-            <span className="text-foreground font-mono">
-              {currentJob.options.outputName}{getFileExtension(currentJob.outputFormat || 'pdf')}
-            </span>
-          </div>
+          {outputs.length <= 1 && (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Output Name:</span>
+              <span className="text-foreground font-mono">
+                {currentJob.options.outputName}{getFileExtension(currentJob.outputFormat || 'pdf')}
+              </span>
+            </div>
+          )}
           
           <div className="flex justify-between">
             <span className="text-gray-400">Created:</span>
@@ -187,7 +247,7 @@ export function ExportResults() {
           
           {currentJob.completedAt && (
             <div className="flex justify-between">
-              <span className="text-gray-400">Completed:</span>
+              <span className="text-gray-400">{isCancelled ? 'Cancelled:' : 'Completed:'}</span>
               <span className="text-foreground">
                 {currentJob.completedAt.toLocaleString()}
               </span>
@@ -201,6 +261,27 @@ export function ExportResults() {
             </span>
           </div>
 
+          {outputs.length <= 1 && outputs[0]?.optimization && (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Output Size:</span>
+              <span className="text-foreground text-right">
+                {describeSizeChange(outputs[0].optimization)}
+                <span className="block text-xs text-gray-400">
+                  {describeOptimizationSteps(outputs[0].optimization)}
+                </span>
+              </span>
+            </div>
+          )}
+
+          {batesRanges.length > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Bates Numbers:</span>
+              <span className="text-foreground font-mono">
+                {batesRanges[0].begin} – {batesRanges[batesRanges.length - 1].end}
+              </span>
+            </div>
+          )}
+
           {currentJob.formatReason && (
             <div className="flex justify-between">
               <span className="text-gray-400">Format Decision:</span>
@@ -212,6 +293,50 @@ export function ExportResults() {
         </div>
       </div>
 
+      {/* Merge Warnings */}
+      {currentJob.warnings && currentJob.warnings.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
+          <h4 className="flex items-center font-medium text-yellow-400 mb-2">
+            <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+            Check the merged output
+          </h4>
+          <ul className="text-sm text-yellow-300 space-y-1">
+            {currentJob.warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Merged Files */}
+      {isCompleted && outputs.length > 1 && (
+        <div className="bg-muted/30 border border-border rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-foreground mb-4">Merged Files</h3>
+          <div className="space-y-3">
+            {outputs.map(output => (
+              <div key={output.url} className="flex items-center space-x-3 p-3 bg-muted/20 rounded-lg">
+                <DocumentIcon className="h-5 w-5 text-primary flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground font-mono truncate">{output.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {output.documentIds.length} {output.documentIds.length === 1 ? 'document' : 'documents'}
+                    {output.optimization && ` · ${describeSizeChange(output.optimization)}`}
+                  </p>
+                </div>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleDownload(output.url, output.name)}
+                  aria-label={`Download ${output.name}`}
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Source Documents */}
       <div className="bg-muted/30 border border-border rounded-lg p-6">
         <h3 className="text-lg font-semibold text-foreground mb-4">Source Documents</h3>
@@ -234,11 +359,11 @@ export function ExportResults() {
 
       {/* Actions */}
       <div className="flex flex-col sm:flex-row gap-4">
-        {isCompleted && currentJob.resultUrl && (
+        {isCompleted && currentJob.resultUrl && outputs.length <= 1 && (
           <Button
             variant="primary"
             size="lg"
-            onClick={handleDownload}
+            onClick={() => handleDownload()}
             loading={isDownloading}
             className="flex-1"
           >
@@ -246,6 +371,30 @@ export function ExportResults() {
             Download Merged Document
           </Button>
         )}
+
+        {isCompleted && batesRanges.length > 0 && (
+          <Button
+            variant="secondary"
+            size="lg"
+            onClick={handleDownloadBatesLog}
+            className="flex-1"
+          >
+            <TableCellsIcon className="h-5 w-5 mr-2" />
+            Download Bates Log (CSV)
+          </Button>
+        )}
+
+        {isProcessing && (
+          <Button
+            variant="danger"
+            size="lg"
+            onClick={handleCancel}
+            className="flex-1"
+          >
+            <XCircleIcon className="h-5 w-5 mr-2" />
+            Cancel Merge
+          </Button>
+        )}
         
         <Button
           variant="ghost"
@@ -7,7 +7,8 @@ import {
   ArrowDownTrayIcon,
   QuestionMarkCircleIcon,
   Bars3Icon,
-  XMarkIcon
+  XMarkIcon,
+  ScissorsIcon
 } from '@heroicons/react/24/outline';
 import { useUIStore } from '@/app/stores/ui-store';
 import { useDocumentStore } from '@/app/stores/document-store';
@@ -31,6 +32,13 @@ const navigationItems = [
     description: 'Configure merge options',
     ariaLabel: 'Merge configuration step'
   },
+  {
+    id: 'split' as const,
+    name: 'Split',
+    icon: ScissorsIcon,
+    description: 'Break a document into parts',
+    ariaLabel: 'Document split step'
+  },
   {
     id: 'preview' as const,
     name: 'Preview',
@@ -58,6 +66,7 @@ export function Navigation() {
         return documents.length > 0 ? 'completed' : 'current';
       case 'merge':
         return documents.length === 0 ? 'disabled' : documents.length > 0 ? 'available' : 'current';
+      case 'split':
       case 'preview':
         return documents.length === 0 ? 'disabled' : 'available';
       case 'export':
@@ -71,6 +80,8 @@ export function Navigation() {
     switch (tabId) {
       case 'merge':
         return documents.length === 0 ? 'Upload documents first to configure merge options' : null;
+      case 'split':
+        return documents.length === 0 ? 'Upload a document first to split it' : null;
       case 'preview':
         return documents.length === 0 ? 'Upload documents first to preview them' : null;
       case 'export':
@@ -5,19 +5,48 @@ import {
   Cog6ToothIcon,
   DocumentTextIcon,
   ArrowPathIcon,
-  CheckIcon
+  CheckIcon,
+  Squares2X2Icon
 } from '@heroicons/react/24/outline';
 import { Button } from '@/app/components/ui/Button';
 import { useDocumentStore } from '@/app/stores/document-store';
 import { useUIStore } from '@/app/stores/ui-store';
-import { MergeMode, DocumentFormat } from '@/app/types';
+import { PageOrganizerModal } from './PageOrganizerModal';
+import { SmartMergePreview } from './SmartMergePreview';
+import { MergeRecipeEditor } from './MergeRecipeEditor';
+import { DocumentWorkerPool } from '@/app/lib/workers/worker-pool';
+import { MergeMode, DocumentFormat, CSVColumnMode, PDFEncryptionOptions, PDFPermissions, PageStampOptions, WatermarkOptions, BatesOptions } from '@/app/types';
+import { formatBatesNumber } from '@/app/lib/utils/pdf-bates';
 import { cn } from '@/app/lib/utils/cn';
 
+// Settings a newly enabled watermark starts from
+const defaultWatermark: WatermarkOptions = {
+  kind: 'text',
+  text: 'CONFIDENTIAL',
+  color: '#808080',
+  opacity: 0.3,
+  rotation: 45,
+  position: 'center',
+  scale: 0.6,
+};
+
+// Settings newly enabled Bates numbering starts from
+const defaultBates: BatesOptions = {
+  prefix: '',
+  suffix: '',
+  start: 1,
+  digits: 6,
+  position: 'bottom-right',
+  fontSize: 10,
+  margin: 18,
+};
+
 export function MergeOptions() {
-  const { documents, mergeOptions, setMergeOptions, startProcessing, isProcessing, getOutputFormat } = useDocumentStore();
-  const { addNotification, setActiveTab } = useUIStore();
+  const { documents, mergeOptions, pagePlan, smartPlan, setMergeOptions, setPagePlan, startProcessing, isProcessing, getOutputFormat } = useDocumentStore();
+  const { addNotification, setActiveTab, workerPoolSize, setWorkerPoolSize } = useUIStore();
   
   const [isStarting, setIsStarting] = useState(false);
+  const [showPageOrganizer, setShowPageOrganizer] = useState(false);
 
   const handleStartProcessing = async () => {
     try {
@@ -56,7 +85,7 @@ export function MergeOptions() {
     {
       id: 'custom' as MergeMode,
       name: 'Custom Merge',
-      description: 'Advanced customization options',
+      description: 'Pick page ranges and separators step by step',
       icon: ArrowPathIcon
     }
   ];
@@ -64,12 +93,62 @@ export function MergeOptions() {
   // Get the automatic output format
   const { format: outputFormat, reason: formatReason } = documents.length > 0 ? getOutputFormat() : { format: 'pdf' as DocumentFormat, reason: 'No documents selected' };
 
+  // Smart merge picks a format per group; the page organizer always produces PDF
+  const isSmartMerge = mergeOptions.mode === 'smart' && !pagePlan;
+  const isCustomMerge = mergeOptions.mode === 'custom' && !pagePlan;
+  const outputFormats: DocumentFormat[] = isSmartMerge
+    ? [...new Set(smartPlan?.groups.map(group => group.outputFormat) ?? [])]
+    : [outputFormat];
+
   const qualityOptions = [
-    { value: 'low' as const, label: 'Low', description: 'Smaller file size' },
-    { value: 'medium' as const, label: 'Medium', description: 'Balanced quality' },
-    { value: 'high' as const, label: 'High', description: 'Best quality' }
+    { value: 'low' as const, label: 'Low', description: 'Smallest PDF, images reduced to 1200 px' },
+    { value: 'medium' as const, label: 'Medium', description: 'Images above 2000 px reduced' },
+    { value: 'high' as const, label: 'High', description: 'Images untouched, lossless cleanup only' }
+  ];
+
+  const csvColumnModes = [
+    { value: 'union' as CSVColumnMode, label: 'All Columns', description: 'Match by header, blank where missing' },
+    { value: 'intersection' as CSVColumnMode, label: 'Shared Columns', description: 'Match by header, keep common ones' },
+    { value: 'position' as CSVColumnMode, label: 'By Position', description: 'Keep the first file\'s layout' }
+  ];
+
+  const pdfPermissions: { key: keyof PDFPermissions; label: string }[] = [
+    { key: 'printing', label: 'Printing' },
+    { key: 'copying', label: 'Copying text and images' },
+    { key: 'modifying', label: 'Editing' },
+    { key: 'annotating', label: 'Comments' },
+    { key: 'fillingForms', label: 'Filling in forms' },
+    { key: 'documentAssembly', label: 'Inserting, deleting and rotating pages' }
   ];
 
+  const encryption = mergeOptions.encryption;
+  const updateEncryption = (updates: Partial<PDFEncryptionOptions>) => {
+    setMergeOptions({ encryption: { userPassword: '', ...encryption, ...updates } });
+  };
+
+  const pageStamps = mergeOptions.pageStamps;
+  const updatePageStamps = (updates: Partial<PageStampOptions>) => {
+    if (pageStamps) setMergeOptions({ pageStamps: { ...pageStamps, ...updates } });
+  };
+  const showPageStamps = outputFormats.includes('pdf') && (mergeOptions.includeHeaders || mergeOptions.includeFooters);
+
+  const watermark = mergeOptions.watermark;
+  const updateWatermark = (updates: Partial<WatermarkOptions>) => {
+    if (watermark) setMergeOptions({ watermark: { ...watermark, ...updates } });
+  };
+  // Watermarks, contents and separator pages apply to PDF and DOCX output
+  const hasPagedOutput = outputFormats.includes('pdf') || outputFormats.includes('docx');
+  const separatorPages = mergeOptions.separatorPages;
+
+  const bates = mergeOptions.bates;
+  const updateBates = (updates: Partial<BatesOptions>) => {
+    if (bates) setMergeOptions({ bates: { ...bates, ...updates } });
+  };
+  // Bates numbers and the header or footer would be drawn over each other
+  const batesMeetsPageStamp = !!bates && !!pageStamps && bates.position.endsWith(`-${pageStamps.alignment}`) && (
+    bates.position.startsWith('top') ? mergeOptions.includeHeaders === true : mergeOptions.includeFooters === true
+  );
+
   if (documents.length === 0) {
     return (
       <div className="text-center py-12">
@@ -118,8 +197,39 @@ export function MergeOptions() {
             <div className="text-gray-400">Formats</div>
           </div>
         </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-6 pt-4 border-t border-border">
+          <p className="text-sm text-gray-400">
+            {pagePlan
+              ? `Custom page order: ${pagePlan.length} ${pagePlan.length === 1 ? 'page' : 'pages'}, merged as PDF`
+              : isCustomMerge
+                ? 'Documents are merged following the recipe below'
+                : 'Documents are merged whole, in list order'}
+          </p>
+          <div className="flex space-x-2">
+            {pagePlan && (
+              <Button variant="ghost" size="sm" onClick={() => setPagePlan(null)}>
+                Reset
+              </Button>
+            )}
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setShowPageOrganizer(true)}
+              disabled={documents.some(doc => doc.status !== 'processed')}
+            >
+              <Squares2X2Icon className="h-4 w-4 mr-2" />
+              Organize Pages
+            </Button>
+          </div>
+        </div>
       </div>
 
+      <PageOrganizerModal
+        isOpen={showPageOrganizer}
+        onClose={() => setShowPageOrganizer(false)}
+      />
+
       {/* Merge Mode */}
       <div className="space-y-4">
         <h3 className="text-lg font-semibold text-foreground">Merge Mode</h3>
@@ -148,28 +258,33 @@ export function MergeOptions() {
         </div>
       </div>
 
+      {isSmartMerge && <SmartMergePreview />}
+      {isCustomMerge && <MergeRecipeEditor />}
+
       {/* Automatic Output Format */}
-      <div className="space-y-4">
-        <h3 className="text-lg font-semibold text-foreground">Output Format</h3>
-        <div className="bg-muted/30 border border-border rounded-lg p-4">
-          <div className="flex items-center space-x-3">
-            <div className="bg-primary/20 p-2 rounded-lg">
-              <CheckIcon className="h-5 w-5 text-primary" />
-            </div>
-            <div className="flex-1">
-              <div className="font-medium text-foreground">
-                {outputFormat.toUpperCase()} Format
+      {!isSmartMerge && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-foreground">Output Format</h3>
+          <div className="bg-muted/30 border border-border rounded-lg p-4">
+            <div className="flex items-center space-x-3">
+              <div className="bg-primary/20 p-2 rounded-lg">
+                <CheckIcon className="h-5 w-5 text-primary" />
               </div>
-              <div className="text-sm text-gray-400 mt-1">
-                {formatReason}
+              <div className="flex-1">
+                <div className="font-medium text-foreground">
+                  {outputFormat.toUpperCase()} Format
+                </div>
+                <div className="text-sm text-gray-400 mt-1">
+                  {formatReason}
+                </div>
               </div>
             </div>
           </div>
+          <div className="text-xs text-gray-500">
+            ℹ️ Output format is automatically determined based on your documents for optimal compatibility
+          </div>
         </div>
-        <div className="text-xs text-gray-500">
-          ℹ️ Output format is automatically determined based on your documents for optimal compatibility
-        </div>
-      </div>
+      )}
 
       {/* Quality Settings */}
       <div className="space-y-4">
@@ -191,8 +306,396 @@ export function MergeOptions() {
             </button>
           ))}
         </div>
+        {!outputFormats.includes('pdf') && (
+          <div className="text-xs text-gray-500">
+            ℹ️ Quality only changes PDF output
+          </div>
+        )}
       </div>
 
+      {/* CSV Column Alignment */}
+      {outputFormats.includes('csv') && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-foreground">CSV Columns</h3>
+          <div className="grid grid-cols-3 gap-4">
+            {csvColumnModes.map((columnMode) => (
+              <button
+                key={columnMode.value}
+                onClick={() => setMergeOptions({ csvColumnMode: columnMode.value })}
+                className={cn(
+                  'p-3 rounded-lg border transition-all duration-200 text-center',
+                  (mergeOptions.csvColumnMode ?? 'position') === columnMode.value
+                    ? 'border-accent bg-accent/10 text-accent'
+                    : 'border-border hover:border-accent/50 hover:bg-muted/30'
+                )}
+              >
+                <div className="font-medium">{columnMode.label}</div>
+                <div className="text-xs text-gray-400 mt-1">{columnMode.description}</div>
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={mergeOptions.csvSourceColumn ?? false}
+              onChange={(e) => setMergeOptions({ csvSourceColumn: e.target.checked })}
+              className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+            />
+            <span className="text-foreground">Add a column with each row&apos;s source file</span>
+          </label>
+        </div>
+      )}
+
+      {/* Excel Sheet Handling */}
+      {outputFormats.includes('xlsx') && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-foreground">Excel Sheets</h3>
+          <div className="space-y-3">
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={mergeOptions.xlsxCombineSheets ?? false}
+                onChange={(e) => setMergeOptions({ xlsxCombineSheets: e.target.checked })}
+                className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+              />
+              <div className="flex-1">
+                <span className="text-foreground">Stack matching sheets into one</span>
+                <p className="text-xs text-gray-400 mt-1">
+                  Appends the rows of same-named sheets (or of single-sheet workbooks), lining columns up by header. Formulas are kept as their values.
+                </p>
+              </div>
+            </label>
+
+            {mergeOptions.xlsxCombineSheets && (
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mergeOptions.xlsxSourceColumns ?? false}
+                  onChange={(e) => setMergeOptions({ xlsxSourceColumns: e.target.checked })}
+                  className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+                />
+                <span className="text-foreground">Add source file and sheet columns</span>
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Watermark */}
+      {hasPagedOutput && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-foreground">Watermark</h3>
+          <div className="space-y-3">
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={watermark !== undefined}
+                onChange={(e) => setMergeOptions({ watermark: e.target.checked ? defaultWatermark : undefined })}
+                className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+              />
+              <div className="flex-1">
+                <span className="text-foreground">Watermark the merged output</span>
+                <p className="text-xs text-gray-400 mt-1">
+                  Drawn over PDF pages; DOCX output gets it behind the text of every page, as Word&apos;s own watermarks are.
+                </p>
+              </div>
+            </label>
+
+            {watermark && (
+              <div className="space-y-3 pl-7">
+                <div className="flex space-x-2">
+                  {(['text', 'image'] as const).map(kind => (
+                    <Button
+                      key={kind}
+                      variant={watermark.kind === kind ? 'primary' : 'secondary'}
+                      size="sm"
+                      onClick={() => updateWatermark({ kind })}
+                    >
+                      {kind === 'text' ? 'Text' : 'Image'}
+                    </Button>
+                  ))}
+                </div>
+
+                {watermark.kind === 'text' ? (
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3 max-w-xl">
+                    <input
+                      type="text"
+                      value={watermark.text}
+                      onChange={(e) => updateWatermark({ text: e.target.value })}
+                      className="px-4 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-foreground"
+                      placeholder="CONFIDENTIAL"
+                      aria-label="Watermark text"
+                    />
+                    <input
+                      type="color"
+                      value={watermark.color}
+                      onChange={(e) => updateWatermark({ color: e.target.value })}
+                      className="h-10 w-16 bg-muted/30 border border-border rounded-lg cursor-pointer"
+                      aria-label="Watermark color"
+                    />
+                  </div>
+                ) : (
+                  <label className="block text-xs text-gray-400 space-y-1 max-w-xl">
+                    <span>PNG or JPEG picture{watermark.image ? `: ${watermark.image.name}` : ''}</span>
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg"
+                      onChange={(e) => updateWatermark({ image: e.target.files?.[0] })}
+                      className="block w-full text-sm text-foreground file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-muted file:text-foreground"
+                    />
+                  </label>
+                )}
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Opacity ({Math.round(watermark.opacity * 100)}%)</span>
+                    <input
+                      type="range"
+                      min={5}
+                      max={100}
+                      step={5}
+                      value={Math.round(watermark.opacity * 100)}
+                      onChange={(e) => updateWatermark({ opacity: Number(e.target.value) / 100 })}
+                      className="w-full accent-primary"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Rotation (°)</span>
+                    <input
+                      type="number"
+                      min={-180}
+                      max={180}
+                      value={watermark.rotation}
+                      onChange={(e) => updateWatermark({ rotation: Math.min(180, Math.max(-180, Number(e.target.value) || 0)) })}
+                      className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Position</span>
+                    <select
+                      value={watermark.position}
+                      onChange={(e) => updateWatermark({ position: e.target.value as WatermarkOptions['position'] })}
+                      className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      <option value="center">Center</option>
+                      <option value="top">Top</option>
+                      <option value="bottom">Bottom</option>
+                      <option value="tiled">Tiled (PDF)</option>
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Width ({Math.round(watermark.scale * 100)}% of page)</span>
+                    <input
+                      type="range"
+                      min={10}
+                      max={100}
+                      step={5}
+                      value={Math.round(watermark.scale * 100)}
+                      onChange={(e) => updateWatermark({ scale: Number(e.target.value) / 100 })}
+                      className="w-full accent-primary"
+                    />
+                  </label>
+                </div>
+
+                {outputFormats.includes('pdf') && (
+                  <label className="block text-xs text-gray-400 space-y-1 max-w-xl">
+                    <span>PDF pages</span>
+                    <input
+                      type="text"
+                      value={watermark.pages ?? ''}
+                      onChange={(e) => updateWatermark({ pages: e.target.value })}
+                      className="w-full px-4 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-sm text-foreground"
+                      placeholder="All pages, or e.g. 1-3, 7, 10-end"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Bates Numbering */}
+      {outputFormats.includes('pdf') && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-foreground">Bates Numbering</h3>
+          <div className="space-y-3">
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={bates !== undefined}
+                onChange={(e) => setMergeOptions({ bates: e.target.checked ? defaultBates : undefined })}
+                className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+              />
+              <div className="flex-1">
+                <span className="text-foreground">Stamp Bates numbers on every PDF page</span>
+                <p className="text-xs text-gray-400 mt-1">
+                  One running number across the merge, including contents and separator pages. A CSV log of each document&apos;s range is offered with the download.
+                </p>
+              </div>
+            </label>
+
+            {bates && (
+              <div className="space-y-3 pl-7">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Prefix</span>
+                    <input
+                      type="text"
+                      value={bates.prefix}
+                      onChange={(e) => updateBates({ prefix: e.target.value })}
+                      className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                      placeholder="e.g. ABC"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Suffix</span>
+                    <input
+                      type="text"
+                      value={bates.suffix}
+                      onChange={(e) => updateBates({ suffix: e.target.value })}
+                      className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Start number</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={bates.start}
+                      onChange={(e) => updateBates({ start: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                      className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Digits</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={12}
+                      value={bates.digits}
+                      onChange={(e) => updateBates({ digits: Math.min(12, Math.max(1, Number(e.target.value) || 1)) })}
+                      className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Position</span>
+                    <select
+                      value={bates.position}
+                      onChange={(e) => updateBates({ position: e.target.value as BatesOptions['position'] })}
+                      className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      <option value="top-left">Top left</option>
+                      <option value="top-center">Top center</option>
+                      <option value="top-right">Top right</option>
+                      <option value="bottom-left">Bottom left</option>
+                      <option value="bottom-center">Bottom center</option>
+                      <option value="bottom-right">Bottom right</option>
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Font size (pt)</span>
+                    <input
+                      type="number"
+                      min={6}
+                      max={24}
+                      value={bates.fontSize}
+                      onChange={(e) => updateBates({ fontSize: Math.min(24, Math.max(6, Number(e.target.value) || 10)) })}
+                      className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>Margin (pt)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={144}
+                      value={bates.margin}
+                      onChange={(e) => updateBates({ margin: Math.min(144, Math.max(0, Number(e.target.value) || 0)) })}
+                      className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500">
+                  First page: <span className="font-mono text-foreground">{formatBatesNumber(bates, bates.start)}</span>
+                </p>
+                {batesMeetsPageStamp && (
+                  <p className="text-xs text-yellow-400">
+                    The {bates.position.startsWith('top') ? 'header' : 'footer'} is drawn in the same corner; choose another position so they do not overlap.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* PDF Protection */}
+      {outputFormats.includes('pdf') && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-foreground">PDF Protection</h3>
+          <div className="space-y-3">
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={encryption !== undefined}
+                onChange={(e) => setMergeOptions({ encryption: e.target.checked ? { userPassword: '' } : undefined })}
+                className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+              />
+              <div className="flex-1">
+                <span className="text-foreground">Encrypt the merged PDF</span>
+                <p className="text-xs text-gray-400 mt-1">
+                  AES-256 encryption. Without an open password, anyone can view the file but the restrictions below still apply.
+                </p>
+              </div>
+            </label>
+
+            {encryption && (
+              <div className="space-y-3 pl-7">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-w-xl">
+                  <input
+                    type="password"
+                    value={encryption.userPassword}
+                    onChange={(e) => updateEncryption({ userPassword: e.target.value })}
+                    className="px-4 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-foreground"
+                    placeholder="Open password (optional)"
+                    aria-label="Password to open the PDF"
+                    autoComplete="new-password"
+                  />
+                  <input
+                    type="password"
+                    value={encryption.ownerPassword ?? ''}
+                    onChange={(e) => updateEncryption({ ownerPassword: e.target.value })}
+                    className="px-4 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-foreground"
+                    placeholder="Permissions password (optional)"
+                    aria-label="Password to change permissions"
+                    autoComplete="new-password"
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Readers who open the file without the permissions password may only:
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {pdfPermissions.map(permission => (
+                    <label key={permission.key} className="flex items-center space-x-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={encryption.permissions?.[permission.key] ?? true}
+                        onChange={(e) => updateEncryption({
+                          permissions: { ...encryption.permissions, [permission.key]: e.target.checked }
+                        })}
+                        className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+                      />
+                      <span className="text-sm text-foreground">{permission.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Output Name */}
       <div className="space-y-4">
         <h3 className="text-lg font-semibold text-foreground">Output Name</h3>
@@ -234,7 +737,7 @@ export function MergeOptions() {
             <div className="flex-1">
               <span className="text-foreground">Preserve original formatting</span>
               <p className="text-xs text-gray-400 mt-1">
-                For DOCX files: Converts to PDF for best formatting preservation. For other formats: Maintains source structure.
+                For DOCX files: Keeps styles, lists, tables and images, with a section break between documents. For other formats: Maintains source structure.
               </p>
             </div>
           </label>
@@ -249,6 +752,64 @@ export function MergeOptions() {
             <span className="text-foreground">Add page breaks between documents</span>
           </label>
 
+          {hasPagedOutput && (
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={mergeOptions.tableOfContents ?? false}
+                onChange={(e) => setMergeOptions({ tableOfContents: e.target.checked })}
+                className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+              />
+              <div className="flex-1">
+                <span className="text-foreground">Add a table of contents</span>
+                <p className="text-xs text-gray-400 mt-1">
+                  PDF: a contents page listing each document&apos;s first page, with links. DOCX: a Word table of contents that fills in page numbers when the file is opened.
+                </p>
+              </div>
+            </label>
+          )}
+
+          {hasPagedOutput && (
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={separatorPages !== undefined}
+                onChange={(e) => setMergeOptions({ separatorPages: e.target.checked ? { showDetails: true, note: '' } : undefined })}
+                className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+              />
+              <div className="flex-1">
+                <span className="text-foreground">Add a separator page before each document</span>
+                <p className="text-xs text-gray-400 mt-1">
+                  A title sheet with the file name and its place in the merge, in PDF and DOCX output. Custom merges give every recipe step its own sheet.
+                </p>
+              </div>
+            </label>
+          )}
+
+          {separatorPages && hasPagedOutput && (
+            <div className="space-y-3 pl-7">
+              <label className="flex items-center space-x-2 text-sm text-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={separatorPages.showDetails}
+                  onChange={(e) => setMergeOptions({ separatorPages: { ...separatorPages, showDetails: e.target.checked } })}
+                  className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+                />
+                <span>Show author, dates and page count where the file records them</span>
+              </label>
+              <label className="block text-xs text-gray-400 space-y-1 max-w-xl">
+                <span>Note on every separator page (optional)</span>
+                <textarea
+                  value={separatorPages.note}
+                  onChange={(e) => setMergeOptions({ separatorPages: { ...separatorPages, note: e.target.value } })}
+                  rows={2}
+                  className="w-full px-4 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-sm text-foreground"
+                  placeholder="e.g. Draft for review"
+                />
+              </label>
+            </div>
+          )}
+
           <label className="flex items-center space-x-3 cursor-pointer">
             <input
               type="checkbox"
@@ -256,7 +817,12 @@ export function MergeOptions() {
               onChange={(e) => setMergeOptions({ includeHeaders: e.target.checked })}
               className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
             />
-            <span className="text-foreground">Include document headers</span>
+            <div className="flex-1">
+              <span className="text-foreground">Include document headers</span>
+              <p className="text-xs text-gray-400 mt-1">
+                DOCX keeps each document&apos;s own headers; PDF output gets the header below stamped on every page.
+              </p>
+            </div>
           </label>
 
           <label className="flex items-center space-x-3 cursor-pointer">
@@ -266,34 +832,130 @@ export function MergeOptions() {
               onChange={(e) => setMergeOptions({ includeFooters: e.target.checked })}
               className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
             />
-            <span className="text-foreground">Include document footers</span>
+            <div className="flex-1">
+              <span className="text-foreground">Include document footers</span>
+              <p className="text-xs text-gray-400 mt-1">
+                DOCX keeps each document&apos;s own footers; PDF output gets the footer below stamped on every page.
+              </p>
+            </div>
+          </label>
+
+          {showPageStamps && pageStamps && (
+            <div className="space-y-3 pl-7">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {mergeOptions.includeHeaders && (
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>PDF header</span>
+                    <input
+                      type="text"
+                      value={pageStamps.headerTemplate}
+                      onChange={(e) => updatePageStamps({ headerTemplate: e.target.value })}
+                      className="w-full px-4 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-sm text-foreground"
+                      placeholder="{source}"
+                    />
+                  </label>
+                )}
+                {mergeOptions.includeFooters && (
+                  <label className="text-xs text-gray-400 space-y-1">
+                    <span>PDF footer</span>
+                    <input
+                      type="text"
+                      value={pageStamps.footerTemplate}
+                      onChange={(e) => updatePageStamps({ footerTemplate: e.target.value })}
+                      className="w-full px-4 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-sm text-foreground"
+                      placeholder="Page {page} of {total}"
+                    />
+                  </label>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {'Tokens: {page}, {total}, {source} (the page’s original file), {date}, {title} (the output name)'}
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>Font</span>
+                  <select
+                    value={pageStamps.fontStyle}
+                    onChange={(e) => updatePageStamps({ fontStyle: e.target.value as PageStampOptions['fontStyle'] })}
+                    className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="regular">Regular</option>
+                    <option value="bold">Bold</option>
+                    <option value="italic">Italic</option>
+                  </select>
+                </label>
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>Size (pt)</span>
+                  <input
+                    type="number"
+                    min={6}
+                    max={36}
+                    value={pageStamps.fontSize}
+                    onChange={(e) => updatePageStamps({ fontSize: Math.min(36, Math.max(6, Number(e.target.value) || 6)) })}
+                    className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </label>
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>Alignment</span>
+                  <select
+                    value={pageStamps.alignment}
+                    onChange={(e) => updatePageStamps({ alignment: e.target.value as PageStampOptions['alignment'] })}
+                    className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="left">Left</option>
+                    <option value="center">Center</option>
+                    <option value="right">Right</option>
+                  </select>
+                </label>
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>Margin (pt)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={144}
+                    value={pageStamps.margin}
+                    onChange={(e) => updatePageStamps({ margin: Math.min(144, Math.max(0, Number(e.target.value) || 0)) })}
+                    className="w-full px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </label>
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center space-x-3">
+            <select
+              value={workerPoolSize ?? ''}
+              onChange={(e) => setWorkerPoolSize(e.target.value ? Number(e.target.value) : null)}
+              className="px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">Automatic ({DocumentWorkerPool.getDefaultSize()})</option>
+              {[1, 2, 3, 4, 6, 8].map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+            <div className="flex-1">
+              <span className="text-foreground">Documents processed in parallel</span>
+              <p className="text-xs text-gray-400 mt-1">
+                Each runs in its own background worker. More is faster on machines with many cores but uses more memory. Remembered on this device.
+              </p>
+            </div>
           </label>
         </div>
       </div>
 
       {/* Formatting Notice */}
-      {mergeOptions.preserveFormatting && outputFormat === 'docx' && (
+      {!mergeOptions.preserveFormatting && outputFormats.includes('docx') && (
         <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
           <h4 className="font-medium text-yellow-400 mb-2">⚠️ Formatting Notice</h4>
           <p className="text-sm text-yellow-300">
-            For best formatting preservation with DOCX files, consider converting them to PDF first. 
-            Direct DOCX merging will preserve basic text structure but may not maintain complex formatting, styles, or embedded objects.
-          </p>
-        </div>
-      )}
-
-      {/* Multi-DOCX to PDF Notice */}
-      {documents.filter(doc => doc.format === 'docx').length > 1 && outputFormat === 'pdf' && (
-        <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-4">
-          <h4 className="font-medium text-blue-400 mb-2">📄 DOCX to PDF Conversion</h4>
-          <p className="text-sm text-blue-300">
-            Multiple Word documents detected. They will be converted to PDF format during merging to ensure optimal formatting preservation and compatibility.
+            With formatting preservation off, Word documents are merged as plain text. 
+            Enable &quot;Preserve original formatting&quot; to keep styles, headings, lists, tables and images.
           </p>
         </div>
       )}
 
       {/* Mixed Formats Notice */}
-      {new Set(documents.map(doc => doc.format)).size > 1 && outputFormat === 'pdf' && (
+      {new Set(documents.map(doc => doc.format)).size > 1 && outputFormat === 'pdf' && !isSmartMerge && (
         <div className="bg-purple-500/10 border border-purple-500/30 rounded-lg p-4">
           <h4 className="font-medium text-purple-400 mb-2">🔄 Format Conversion</h4>
           <p className="text-sm text-purple-300">
@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import {
+  ArrowUpIcon,
+  ArrowDownIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { Button } from '@/app/components/ui/Button';
+import { useDocumentStore } from '@/app/stores/document-store';
+import { createMergeRecipe, parseMergeRecipe, serializeMergeRecipe } from '@/app/lib/utils/merge-recipe';
+import { validatePageSelection } from '@/app/lib/utils/page-range';
+import { generateDocumentId } from '@/app/lib/utils/file-utils';
+import { DocumentFile, MergeRecipeStep } from '@/app/types';
+import { cn } from '@/app/lib/utils/cn';
+
+// What a step's range counts, and how many of them the document has when that is known up front
+function rangeUnits(document: DocumentFile | undefined): { unit: string; count?: number } {
+  switch (document?.format) {
+    case 'xlsx':
+      return { unit: 'sheets', count: document.metadata?.sheetCount };
+    case 'pptx':
+      return { unit: 'slides', count: document.metadata?.slideCount };
+    case 'pdf':
+      return { unit: 'pages', count: document.metadata?.pageCount };
+    default:
+      return { unit: 'pages', count: document?.renderedPageCount };
+  }
+}
+
+const ROTATIONS = [0, 90, 180, 270];
+
+/**
+ * Editor for the custom merge mode: ordered steps, each taking a range of one document
+ */
+export function MergeRecipeEditor() {
+  const documents = useDocumentStore(state => state.documents);
+  const mergeRecipe = useDocumentStore(state => state.mergeRecipe);
+  const setMergeRecipe = useDocumentStore(state => state.setMergeRecipe);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from the document list the first time the mode is opened
+  React.useEffect(() => {
+    if (!mergeRecipe && documents.length > 0) {
+      setMergeRecipe(createMergeRecipe(documents));
+    }
+  }, [mergeRecipe, documents, setMergeRecipe]);
+
+  const steps = mergeRecipe?.steps ?? [];
+
+  const updateSteps = (update: (current: MergeRecipeStep[]) => MergeRecipeStep[]) => {
+    setMergeRecipe({ version: 1, steps: update(steps) });
+  };
+
+  const updateStep = (index: number, updates: Partial<MergeRecipeStep>) => {
+    updateSteps(current => current.map((step, i) => (i === index ? { ...step, ...updates } : step)));
+  };
+
+  const moveStep = (index: number, delta: number) => {
+    updateSteps(current => {
+      const newSteps = [...current];
+      const [moved] = newSteps.splice(index, 1);
+      newSteps.splice(index + delta, 0, moved);
+      return newSteps;
+    });
+  };
+
+  const addStep = () => {
+    updateSteps(current => [...current, { id: generateDocumentId(), documentName: documents[0]?.name ?? '' }]);
+  };
+
+  const handleSave = () => {
+    const blob = new Blob([serializeMergeRecipe({ version: 1, steps })], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'merge-recipe.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setMergeRecipe(parseMergeRecipe(await file.text()));
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'The recipe could not be loaded');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-foreground">Merge Recipe</h3>
+        <div className="flex space-x-2">
+          <Button variant="ghost" size="sm" onClick={() => setMergeRecipe(createMergeRecipe(documents))}>
+            Reset
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+            Load
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleSave} disabled={steps.length === 0}>
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleLoad}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-error" role="alert">{error}</p>}
+
+      <div className="space-y-3">
+        {steps.map((step, index) => {
+          const document = documents.find(doc => doc.name === step.documentName);
+          const { unit, count } = rangeUnits(document);
+          const range = step.range?.trim() && count ? validatePageSelection(step.range, count) : { valid: true };
+
+          return (
+            <div key={step.id} className="bg-muted/30 border border-border rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-medium text-primary w-6">{index + 1}.</span>
+                <select
+                  value={step.documentName}
+                  onChange={(e) => updateStep(index, { documentName: e.target.value })}
+                  className={cn(
+                    'flex-1 min-w-0 px-3 py-2 bg-background border rounded-lg text-sm text-foreground focus:outline-none focus:border-primary',
+                    document ? 'border-border' : 'border-error'
+                  )}
+                  aria-label={`Document for step ${index + 1}`}
+                >
+                  {!document && <option value={step.documentName}>{step.documentName || 'Choose a document'} (not uploaded)</option>}
+                  {documents.map(doc => (
+                    <option key={doc.id} value={doc.name}>{doc.name}</option>
+                  ))}
+                </select>
+                <Button variant="ghost" size="sm" className="p-1" onClick={() => moveStep(index, -1)} disabled={index === 0} aria-label={`Move step ${index + 1} up`}>
+                  <ArrowUpIcon className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="p-1" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} aria-label={`Move step ${index + 1} down`}>
+                  <ArrowDownIcon className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="p-1 text-error hover:bg-error/10" onClick={() => updateSteps(current => current.filter((_, i) => i !== index))} aria-label={`Delete step ${index + 1}`}>
+                  <TrashIcon className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 pl-9">
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span className="capitalize">{unit}{count ? ` (1-${count})` : ''}</span>
+                  <input
+                    type="text"
+                    value={step.range ?? ''}
+                    onChange={(e) => updateStep(index, { range: e.target.value })}
+                    placeholder={`All ${unit}, or e.g. 1-3, 7`}
+                    className={cn(
+                      'w-full px-3 py-2 bg-background border rounded-lg text-sm text-foreground placeholder-gray-500 focus:outline-none focus:border-primary',
+                      range.valid ? 'border-border' : 'border-error'
+                    )}
+                  />
+                </label>
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>Rotation</span>
+                  <select
+                    value={step.rotation ?? 0}
+                    onChange={(e) => updateStep(index, { rotation: Number(e.target.value) })}
+                    className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:border-primary"
+                  >
+                    {ROTATIONS.map(rotation => (
+                      <option key={rotation} value={rotation}>{rotation === 0 ? 'None' : `${rotation}° clockwise`}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>Title (bookmark and separator)</span>
+                  <input
+                    type="text"
+                    value={step.title ?? ''}
+                    onChange={(e) => updateStep(index, { title: e.target.value })}
+                    placeholder={step.documentName}
+                    className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground placeholder-gray-500 focus:outline-none focus:border-primary"
+                  />
+                </label>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-foreground pl-9 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={step.separator ?? false}
+                  onChange={(e) => updateStep(index, { separator: e.target.checked })}
+                  className="w-4 h-4 text-primary bg-muted border-border rounded focus:ring-primary focus:ring-2"
+                />
+                <span>Insert a separator page with the title before this step</span>
+              </label>
+
+              {!range.valid && <p className="text-xs text-error pl-9">{range.error}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button variant="secondary" size="sm" onClick={addStep} disabled={documents.length === 0}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Step
+        </Button>
+        <p className="text-xs text-gray-500">
+          Steps find documents by file name, so a saved recipe can be loaded again with new uploads.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  XMarkIcon,
+  CheckIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  TrashIcon,
+  DocumentPlusIcon,
+  Squares2X2Icon
+} from '@heroicons/react/24/outline';
+import { Button } from '@/app/components/ui/Button';
+import { useDocumentStore } from '@/app/stores/document-store';
+import { generateDocumentId } from '@/app/lib/utils/file-utils';
+import { PlannedPage } from '@/app/types';
+import { cn } from '@/app/lib/utils/cn';
+
+interface PageOrganizerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Tile outline colors, so pages from the same document are easy to spot after shuffling
+const DOCUMENT_COLORS = [
+  'border-red-400/60',
+  'border-blue-400/60',
+  'border-green-400/60',
+  'border-orange-400/60',
+  'border-purple-400/60',
+  'border-yellow-400/60',
+];
+
+export function PageOrganizerModal({ isOpen, onClose }: PageOrganizerModalProps) {
+  const documents = useDocumentStore(state => state.documents);
+  const pagePlan = useDocumentStore(state => state.pagePlan);
+  const createPagePlan = useDocumentStore(state => state.createPagePlan);
+  const setPagePlan = useDocumentStore(state => state.setPagePlan);
+
+  const [pages, setPages] = useState<PlannedPage[] | null>(null);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved plan, or lay out every page of every document
+  React.useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setError(null);
+    if (pagePlan) {
+      setPages([...pagePlan]);
+    } else {
+      setPages(null);
+      createPagePlan()
+        .then(plan => {
+          if (!cancelled) setPages(plan);
+        })
+        .catch(planError => {
+          if (!cancelled) setError(planError instanceof Error ? planError.message : 'Pages could not be loaded');
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, pagePlan, createPagePlan]);
+
+  const updatePages = (update: (current: PlannedPage[]) => PlannedPage[]) => {
+    setPages(current => (current ? update(current) : current));
+  };
+
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    setDraggedIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent, dropIndex: number) => {
+    e.preventDefault();
+    if (draggedIndex !== null && draggedIndex !== dropIndex) {
+      updatePages(current => {
+        const newPages = [...current];
+        const [dragged] = newPages.splice(draggedIndex, 1);
+        newPages.splice(dropIndex, 0, dragged);
+        return newPages;
+      });
+    }
+    setDraggedIndex(null);
+  };
+
+  const rotatePage = (index: number, delta: number) => {
+    updatePages(current => current.map((page, i) =>
+      i === index ? { ...page, rotation: (page.rotation + delta + 360) % 360 } : page
+    ));
+  };
+
+  const deletePage = (index: number) => {
+    updatePages(current => current.filter((_, i) => i !== index));
+  };
+
+  const insertBlankPage = (index: number) => {
+    updatePages(current => [
+      ...current.slice(0, index + 1),
+      { id: generateDocumentId(), rotation: 0 },
+      ...current.slice(index + 1),
+    ]);
+  };
+
+  const handleConfirm = () => {
+    setPagePlan(pages);
+    onClose();
+  };
+
+  const handleReset = () => {
+    setPagePlan(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-background border border-border rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">Organize Pages</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Drag pages into the order you want, across documents. Rotate, delete or add blank pages; the merge produces a PDF with exactly these pages.
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="text-gray-400 hover:text-foreground"
+            aria-label="Close page organizer"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {/* Page Grid */}
+        <div className="p-6 overflow-y-auto flex-1">
+          {error ? (
+            <p className="text-sm text-error" role="alert">{error}</p>
+          ) : !pages ? (
+            <div className="flex items-center justify-center py-12 space-x-3 text-gray-400">
+              <div className="animate-spin rounded-full h-5 w-5 border-2 border-accent border-t-transparent" />
+              <span>Rendering pages...</span>
+            </div>
+          ) : pages.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-12">
+              Every page has been removed. Reset to start over from the uploaded documents.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+              {pages.map((page, index) => {
+                const documentIndex = documents.findIndex(doc => doc.id === page.documentId);
+                const document = documents[documentIndex];
+                const thumbnail = page.pageIndex !== undefined ? document?.thumbnails?.[page.pageIndex] : undefined;
+                const label = document
+                  ? `${document.name}, page ${(page.pageIndex ?? 0) + 1}`
+                  : 'Blank page';
+
+                return (
+                  <div
+                    key={page.id}
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, index)}
+                    onDragOver={handleDragOver}
+                    onDrop={(e) => handleDrop(e, index)}
+                    className={cn(
+                      'bg-muted/30 border-2 rounded-lg p-2 transition-all duration-200 cursor-grab active:cursor-grabbing',
+                      document ? DOCUMENT_COLORS[documentIndex % DOCUMENT_COLORS.length] : 'border-dashed border-border',
+                      draggedIndex === index && 'opacity-50 scale-95'
+                    )}
+                  >
+                    <div className="aspect-[3/4] flex items-center justify-center overflow-hidden">
+                      {thumbnail ? (
+                        // eslint-disable-next-line @next/next/no-img-element -- blob URLs cannot go through next/image
+                        <img
+                          src={thumbnail}
+                          alt={label}
+                          className="max-w-full max-h-full bg-white transition-transform duration-200"
+                          style={{ transform: `rotate(${page.rotation}deg)` }}
+                          draggable={false}
+                        />
+                      ) : (
+                        <div
+                          className="w-3/4 aspect-[3/4] bg-white/90 rounded-sm flex items-center justify-center text-xs text-gray-500 transition-transform duration-200"
+                          style={{ transform: `rotate(${page.rotation}deg)` }}
+                        >
+                          {document ? `Page ${(page.pageIndex ?? 0) + 1}` : 'Blank'}
+                        </div>
+                      )}
+                    </div>
+
+                    <p className="text-xs text-gray-400 truncate mt-2" title={label}>
+                      <span className="font-medium text-foreground">{index + 1}.</span> {label}
+                    </p>
+
+                    <div className="flex items-center justify-between mt-1">
+                      <Button variant="ghost" size="sm" className="p-1" onClick={() => rotatePage(index, -90)} aria-label={`Rotate ${label} left`}>
+                        <ArrowUturnLeftIcon className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="p-1" onClick={() => rotatePage(index, 90)} aria-label={`Rotate ${label} right`}>
+                        <ArrowUturnRightIcon className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="p-1" onClick={() => insertBlankPage(index)} aria-label={`Insert a blank page after ${label}`}>
+                        <DocumentPlusIcon className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="p-1 text-error hover:bg-error/10" onClick={() => deletePage(index)} aria-label={`Delete ${label}`}>
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-border bg-muted/20">
+          <div className="flex items-center text-sm text-gray-400">
+            <Squares2X2Icon className="h-4 w-4 mr-2" />
+            {pages ? `${pages.length} ${pages.length === 1 ? 'page' : 'pages'} will be merged` : 'Loading pages'}
+          </div>
+          <div className="flex space-x-3">
+            {pagePlan && (
+              <Button variant="ghost" onClick={handleReset}>
+                Reset to Document Order
+              </Button>
+            )}
+            <Button variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleConfirm}
+              disabled={!pages || pages.length === 0}
+              className="min-w-24"
+            >
+              <CheckIcon className="h-4 w-4 mr-2" />
+              Use This Order
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
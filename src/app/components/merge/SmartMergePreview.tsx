@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DocumentDuplicateIcon, RectangleStackIcon } from '@heroicons/react/24/outline';
+import { useDocumentStore } from '@/app/stores/document-store';
+
+/**
+ * The groups, file order and output formats smart merge will use, replanned as documents change
+ */
+export function SmartMergePreview() {
+  const documents = useDocumentStore(state => state.documents);
+  const smartPlan = useDocumentStore(state => state.smartPlan);
+  const createSmartPlan = useDocumentStore(state => state.createSmartPlan);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Names change the natural order, so they are part of what triggers a new plan
+  const documentKey = documents.map(doc => `${doc.id}:${doc.name}`).join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsPlanning(true);
+    setError(null);
+    createSmartPlan()
+      .catch(planError => {
+        console.error('Smart merge planning failed:', planError);
+        if (!cancelled) setError('The smart merge plan could not be worked out');
+      })
+      .finally(() => {
+        if (!cancelled) setIsPlanning(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentKey, createSmartPlan]);
+
+  const nameOf = (id: string) => documents.find(doc => doc.id === id)?.name ?? 'Removed document';
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-foreground">Smart Merge Plan</h3>
+
+      {error ? (
+        <p className="text-sm text-error" role="alert">{error}</p>
+      ) : !smartPlan || isPlanning ? (
+        <div className="flex items-center space-x-3 text-sm text-gray-400">
+          <div className="animate-spin rounded-full h-4 w-4 border-2 border-accent border-t-transparent" />
+          <span>Grouping documents...</span>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {smartPlan.groups.map(group => (
+            <div key={group.key} className="bg-muted/30 border border-border rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2">
+                  <RectangleStackIcon className="h-5 w-5 text-primary" />
+                  <span className="font-medium text-foreground">{group.label}</span>
+                </div>
+                <span className="text-sm font-medium text-accent uppercase">{group.outputFormat}</span>
+              </div>
+              <p className="text-xs text-gray-400 mb-2">{group.reason}</p>
+              <ol className="text-sm text-foreground space-y-1 list-decimal list-inside">
+                {group.documentIds.map(id => (
+                  <li key={id} className="truncate">{nameOf(id)}</li>
+                ))}
+              </ol>
+            </div>
+          ))}
+
+          {smartPlan.duplicates.length > 0 && (
+            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
+              <h4 className="flex items-center font-medium text-yellow-400 mb-2">
+                <DocumentDuplicateIcon className="h-5 w-5 mr-2" />
+                Identical files left out
+              </h4>
+              <ul className="text-sm text-yellow-300 space-y-1">
+                {smartPlan.duplicates.map(({ documentId, duplicateOfId }) => (
+                  <li key={documentId}>{nameOf(documentId)} (same as {nameOf(duplicateOfId)})</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            {smartPlan.groups.length > 1
+              ? `Produces ${smartPlan.groups.length} files, one per group. Files within a group are ordered by name, so "Part 2" comes before "Part 10".`
+              : 'Files are ordered by name, so "Part 2" comes before "Part 10".'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import { useUIStore } from '@/app/stores/ui-store';
 import { useDocumentStore } from '@/app/stores/document-store';
 import { formatFileSize } from '@/app/lib/utils/file-utils';
 import { Button } from '@/app/components/ui/Button';
-import { Fragment } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 
 export function DocumentPreview() {
   const { showPreview, previewDocument, closePreview } = useUIStore();
@@ -156,7 +156,11 @@ export function DocumentPreview() {
                   </div>
 
                   {/* Preview Content */}
-                  <div className="lg:col-span-2">
+                  <div className="lg:col-span-2 space-y-4">
+                    {previewDocument.status === 'processed' && (
+                      <PageThumbnails documentId={previewDocument.id} />
+                    )}
+
                     <div className="bg-muted/30 rounded-lg p-6 h-96 overflow-y-auto custom-scrollbar">
                       <div className="flex items-center justify-between mb-4">
                         <h4 className="font-medium text-foreground">Content Preview</h4>
@@ -366,4 +370,65 @@ export function PreviewList() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface PageThumbnailsProps {
+  documentId: string;
+}
+
+function PageThumbnails({ documentId }: PageThumbnailsProps) {
+  const document = useDocumentStore(state => state.documents.find(doc => doc.id === documentId));
+  const loadThumbnails = useDocumentStore(state => state.loadThumbnails);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    loadThumbnails(documentId).catch(thumbnailError => {
+      console.error('Page thumbnail rendering failed:', thumbnailError);
+      setError('Page images are not available for this document');
+    });
+  }, [documentId, loadThumbnails]);
+
+  if (!document) return null;
+
+  const rendered = document.thumbnails?.length ?? 0;
+  const pageCount = document.renderedPageCount;
+
+  return (
+    <div className="bg-muted/30 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium text-foreground">Pages</h4>
+        {document.thumbnails && (
+          <span className="text-xs text-gray-400">
+            {pageCount && pageCount > rendered
+              ? `First ${rendered} of ${pageCount} pages`
+              : `${rendered} ${rendered === 1 ? 'page' : 'pages'}`}
+          </span>
+        )}
+      </div>
+
+      {document.thumbnails ? (
+        <div className="flex space-x-3 overflow-x-auto pb-2 custom-scrollbar">
+          {document.thumbnails.map((url, index) => (
+            <figure key={url} className="flex-shrink-0 w-32">
+              {/* eslint-disable-next-line @next/next/no-img-element -- blob URLs cannot go through next/image */}
+              <img
+                src={url}
+                alt={`Page ${index + 1} of ${document.name}`}
+                className="w-full rounded border border-border bg-white"
+              />
+              <figcaption className="text-xs text-gray-400 text-center mt-1">{index + 1}</figcaption>
+            </figure>
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-gray-400">{error}</p>
+      ) : (
+        <div className="flex items-center space-x-3 text-sm text-gray-400">
+          <div className="animate-spin rounded-full h-4 w-4 border-2 border-accent border-t-transparent" />
+          <span>Rendering pages...</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ScissorsIcon,
+  DocumentDuplicateIcon,
+  TableCellsIcon,
+  Bars3BottomLeftIcon,
+  ArrowDownTrayIcon,
+  ArchiveBoxArrowDownIcon,
+  CheckIcon
+} from '@heroicons/react/24/outline';
+import { Button } from '@/app/components/ui/Button';
+import { useDocumentStore } from '@/app/stores/document-store';
+import { useSplitStore } from '@/app/stores/split-store';
+import { useUIStore } from '@/app/stores/ui-store';
+import { DocumentProcessor } from '@/app/lib/document-processors';
+import { createZipArchive, formatFileSize } from '@/app/lib/utils/file-utils';
+import { SplitMode, SplitPart } from '@/app/types';
+import { cn } from '@/app/lib/utils/cn';
+
+const splitModes: Record<SplitMode, { name: string; description: string; icon: typeof ScissorsIcon }> = {
+  range: {
+    name: 'By Page Range',
+    description: 'One file per range, e.g. 1-3, 4-8, 9-end',
+    icon: ScissorsIcon
+  },
+  every: {
+    name: 'Every N Pages',
+    description: 'Fixed-size chunks of pages',
+    icon: DocumentDuplicateIcon
+  },
+  sheet: {
+    name: 'Per Sheet',
+    description: 'One workbook per worksheet',
+    icon: TableCellsIcon
+  },
+  lines: {
+    name: 'Every N Lines',
+    description: 'Fixed-size chunks of lines (CSV parts keep the header row)',
+    icon: Bars3BottomLeftIcon
+  }
+};
+
+const mimeTypes: Record<SplitPart['format'], string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain',
+  csv: 'text/csv'
+};
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function SplitTool() {
+  const documents = useDocumentStore(state => state.documents);
+  const {
+    documentId,
+    splitOptions,
+    parts,
+    isSplitting,
+    error,
+    selectDocument,
+    setSplitOptions,
+    startSplit
+  } = useSplitStore();
+  const { addNotification, setActiveTab } = useUIStore();
+  const [isZipping, setIsZipping] = useState(false);
+
+  const splittableDocuments = documents.filter(doc =>
+    doc.status === 'processed' && DocumentProcessor.getSupportedSplitModes(doc.format).length > 0
+  );
+  const selectedDocument = splittableDocuments.find(doc => doc.id === documentId);
+  const availableModes = selectedDocument ? DocumentProcessor.getSupportedSplitModes(selectedDocument.format) : [];
+
+  const handleDownloadPart = (part: SplitPart) => {
+    downloadBlob(new Blob([part.data as BlobPart], { type: mimeTypes[part.format] }), part.name);
+  };
+
+  const handleDownloadZip = async () => {
+    if (!selectedDocument || parts.length === 0) return;
+
+    try {
+      setIsZipping(true);
+      const archive = await createZipArchive(parts);
+      downloadBlob(archive, `${selectedDocument.name.replace(/\.[^.]+$/, '')}-split.zip`);
+
+      addNotification({
+        type: 'success',
+        title: 'Download started',
+        message: `${parts.length} files are being downloaded as a ZIP archive`
+      });
+    } catch (error) {
+      console.error('ZIP creation error:', error);
+      addNotification({
+        type: 'error',
+        title: 'Download failed',
+        message: 'There was an error creating the ZIP archive'
+      });
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  if (splittableDocuments.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <ScissorsIcon className="h-12 w-12 text-gray-500 mx-auto mb-4" />
+        <p className="text-gray-400 text-lg">No documents to split</p>
+        <p className="text-gray-500 text-sm mt-2">
+          Upload a PDF, Excel workbook, text or CSV file to split it into parts
+        </p>
+        <Button
+          variant="primary"
+          className="mt-4"
+          onClick={() => setActiveTab('upload')}
+        >
+          Upload Documents
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Document Selection */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-foreground">Document</h3>
+        <div className="max-w-md">
+          <select
+            value={selectedDocument?.id ?? ''}
+            onChange={(e) => selectDocument(e.target.value || null)}
+            className="w-full px-4 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-foreground"
+            aria-label="Document to split"
+          >
+            <option value="">Choose a document…</option>
+            {splittableDocuments.map(doc => (
+              <option key={doc.id} value={doc.id}>
+                {doc.name} ({doc.format.toUpperCase()})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {selectedDocument && (
+        <>
+          {/* Split Mode */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-foreground">Split Mode</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {availableModes.map(modeId => {
+                const mode = splitModes[modeId];
+                return (
+                  <button
+                    key={modeId}
+                    onClick={() => setSplitOptions({ mode: modeId })}
+                    className={cn(
+                      'p-4 rounded-lg border-2 transition-all duration-200 text-left',
+                      splitOptions.mode === modeId
+                        ? 'border-primary bg-primary/10 text-primary'
+                        : 'border-border hover:border-primary/50 hover:bg-muted/30'
+                    )}
+                  >
+                    <div className="flex items-center space-x-3 mb-2">
+                      <mode.icon className="h-5 w-5" />
+                      <span className="font-medium">{mode.name}</span>
+                      {splitOptions.mode === modeId && (
+                        <CheckIcon className="h-4 w-4 text-primary ml-auto" />
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-400">{mode.description}</p>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Mode Settings */}
+          {splitOptions.mode !== 'sheet' && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-foreground">Settings</h3>
+              <div className="max-w-md">
+                {splitOptions.mode === 'range' && (
+                  <>
+                    <input
+                      type="text"
+                      value={splitOptions.ranges ?? ''}
+                      onChange={(e) => setSplitOptions({ ranges: e.target.value })}
+                      className="w-full px-4 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-foreground"
+                      placeholder="1-3, 4-8, 9-end"
+                      aria-label="Page ranges"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Each comma-separated range becomes its own PDF
+                      {selectedDocument.metadata?.pageCount && ` (document has ${selectedDocument.metadata.pageCount} pages)`}
+                    </p>
+                  </>
+                )}
+                {splitOptions.mode === 'every' && (
+                  <label className="flex items-center space-x-3">
+                    <span className="text-foreground">Pages per file</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={splitOptions.pagesPerPart ?? 1}
+                      onChange={(e) => setSplitOptions({ pagesPerPart: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                      className="w-24 px-3 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-foreground"
+                    />
+                  </label>
+                )}
+                {splitOptions.mode === 'lines' && (
+                  <label className="flex items-center space-x-3">
+                    <span className="text-foreground">
+                      {selectedDocument.format === 'csv' ? 'Rows per file' : 'Lines per file'}
+                    </span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={splitOptions.linesPerPart ?? 1}
+                      onChange={(e) => setSplitOptions({ linesPerPart: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                      className="w-32 px-3 py-2 bg-muted/30 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-foreground"
+                    />
+                  </label>
+                )}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4" role="alert">
+              <p className="text-sm text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-center pt-2">
+            <Button
+              variant="primary"
+              size="lg"
+              onClick={startSplit}
+              loading={isSplitting}
+              className="min-w-48"
+            >
+              <ScissorsIcon className="h-5 w-5 mr-2" />
+              {isSplitting ? 'Splitting...' : 'Split Document'}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {/* Split Results */}
+      {parts.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-foreground">
+              Parts ({parts.length})
+            </h3>
+            <Button
+              variant="accent"
+              onClick={handleDownloadZip}
+              loading={isZipping}
+            >
+              <ArchiveBoxArrowDownIcon className="h-5 w-5 mr-2" />
+              Download All (ZIP)
+            </Button>
+          </div>
+
+          <div className="space-y-3 max-h-96 overflow-y-auto custom-scrollbar" role="list" aria-label="Split parts">
+            {parts.map(part => (
+              <div
+                key={part.name}
+                role="listitem"
+                className="bg-muted/30 border border-border rounded-lg p-4 flex items-start space-x-4"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-foreground truncate">{part.name}</div>
+                  <div className="text-sm text-gray-400 mt-1">
+                    {part.description} • {formatFileSize(part.data.byteLength)}
+                  </div>
+                  {part.preview && (
+                    <pre className="text-xs text-gray-500 mt-2 whitespace-pre-wrap break-words line-clamp-3 font-mono">
+                      {part.preview}
+                    </pre>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDownloadPart(part)}
+                  aria-label={`Download ${part.name}`}
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
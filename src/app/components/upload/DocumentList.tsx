@@ -8,12 +8,14 @@ import {
   ExclamationTriangleIcon,
   CheckCircleIcon,
   PencilIcon,
-  Bars3Icon
+  Bars3Icon,
+  LockClosedIcon
 } from '@heroicons/react/24/outline';
 import { Button } from '@/app/components/ui/Button';
 import { useDocumentStore } from '@/app/stores/document-store';
 import { useUIStore } from '@/app/stores/ui-store';
 import { formatFileSize } from '@/app/lib/utils/file-utils';
+import { parsePageSelection } from '@/app/lib/utils/page-range';
 import { DocumentFile } from '@/app/types';
 import { cn } from '@/app/lib/utils/cn';
 
@@ -236,11 +238,19 @@ export function DocumentList({ className }: DocumentListProps) {
                   )}
                 </div>
 
+                {document.format === 'pdf' && document.status === 'processed' && document.metadata?.pageCount && (
+                  <PageSelectionField document={document} pageCount={document.metadata.pageCount} />
+                )}
+
                 {document.status === 'error' && document.error && (
                   <p className="text-error text-sm mt-2 font-medium" role="alert">
                     {document.error}
                   </p>
                 )}
+
+                {document.passwordRequired && (
+                  <PasswordField document={document} />
+                )}
               </div>
 
               {/* Actions */}
@@ -331,4 +341,94 @@ export function DocumentList({ className }: DocumentListProps) {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface PageSelectionFieldProps {
+  document: DocumentFile;
+  pageCount: number;
+}
+
+function PageSelectionField({ document, pageCount }: PageSelectionFieldProps) {
+  const updateDocument = useDocumentStore(state => state.updateDocument);
+  const hintId = `pages-${document.id}-hint`;
+
+  let summary: string | undefined;
+  let error: string | undefined;
+  if (document.pageSelection?.trim()) {
+    try {
+      summary = `${parsePageSelection(document.pageSelection, pageCount).length} of ${pageCount} pages selected`;
+    } catch (selectionError) {
+      error = selectionError instanceof Error ? selectionError.message : 'Invalid page selection';
+    }
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center space-x-2">
+        <label htmlFor={`pages-${document.id}`} className="text-sm text-text-secondary">
+          Pages
+        </label>
+        <input
+          id={`pages-${document.id}`}
+          type="text"
+          value={document.pageSelection ?? ''}
+          onChange={(e) => updateDocument(document.id, { pageSelection: e.target.value })}
+          placeholder="All pages (e.g. 1-3, 7, 10-end)"
+          className={cn(
+            'w-60 bg-background border border-border rounded-lg px-3 py-1 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary',
+            error && 'border-error/50'
+          )}
+          aria-invalid={!!error}
+          aria-describedby={error || summary ? hintId : undefined}
+        />
+        {summary && (
+          <span id={hintId} className="text-xs text-text-secondary">
+            {summary}
+          </span>
+        )}
+      </div>
+      {error && (
+        <p id={hintId} className="text-error text-xs mt-1" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface PasswordFieldProps {
+  document: DocumentFile;
+}
+
+function PasswordField({ document }: PasswordFieldProps) {
+  const unlockDocument = useDocumentStore(state => state.unlockDocument);
+  const [password, setPassword] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      unlockDocument(document.id, password);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="mt-2 flex items-center space-x-2">
+      <LockClosedIcon className="h-4 w-4 text-text-secondary" aria-hidden="true" />
+      <label htmlFor={`password-${document.id}`} className="sr-only">
+        Password for {document.name}
+      </label>
+      <input
+        id={`password-${document.id}`}
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="PDF password"
+        autoComplete="off"
+        className="w-48 bg-background border border-border rounded-lg px-3 py-1 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+      <Button type="submit" size="sm" variant="secondary" disabled={!password}>
+        Unlock
+      </Button>
+    </form>
+  );
+}
@@ -2,6 +2,15 @@ import * as XLSX from 'xlsx';
 import { DocumentMetadata, ProcessorResult } from '@/app/types';
 import { FileSizeUtils } from '../utils/chunk-processor';
 import { ErrorHandler } from '../utils/error-handler';
+import { headerKeys, normalizeHeaderName } from '../utils/csv';
+import { rewriteFormulaReferences } from '../utils/formula-references';
+
+interface SourceSheet {
+  fileName: string;
+  sheetName: string;
+  sheet: XLSX.WorkSheet;
+  range: XLSX.Range;
+}
 
 export class ExcelProcessor {
   static async analyzeDocument(buffer: ArrayBuffer): Promise<DocumentMetadata> {
@@ -59,17 +68,26 @@ export class ExcelProcessor {
     documents: ArrayBuffer[],
     options: {
       preserveMetadata?: boolean;
+      /** Stack the rows of matching sheets into one sheet instead of copying every sheet */
       combineSheets?: boolean;
+      /** With combineSheets, add columns naming each row's source file and sheet */
+      addSourceColumns?: boolean;
+      /** File names for source columns and warnings, in document order */
+      documentNames?: string[];
       sheetNaming?: 'original' | 'sequential' | 'custom';
       preserveFormatting?: boolean;
+      /** Keep formulas, rewritten for renamed sheets and names (default true); false keeps only their values */
       includeFormulas?: boolean;
       onProgress?: (progress: number) => void;
+      signal?: AbortSignal;
     } = {}
   ): Promise<ProcessorResult> {
     try {
       const mergedWorkbook = XLSX.utils.book_new();
       let sheetCounter = 1;
       const totalFiles = documents.length;
+      const appendSources: { fileName: string; workbook: XLSX.WorkBook }[] = [];
+      const warnings: string[] = [];
       
       // Configure read options based on user preferences
       const readOptions: XLSX.ParsingOptions = {
@@ -81,6 +99,7 @@ export class ExcelProcessor {
       };
 
       for (let i = 0; i < documents.length; i++) {
+        ErrorHandler.throwIfAborted(options.signal);
         const buffer = documents[i];
         options.onProgress?.(i / totalFiles);
         
@@ -93,7 +112,18 @@ export class ExcelProcessor {
           }
           
           const workbook = XLSX.read(buffer, readOptions);
+
+          if (options.combineSheets) {
+            // Rows are stacked once every workbook has been read
+            appendSources.push({ fileName: options.documentNames?.[i] ?? `File ${i + 1}`, workbook });
+            continue;
+          }
           
+          // Sheet renames and positions in the merged workbook, for rewriting references
+          const sheetRenames = new Map<string, string>();
+          const sheetIndexes = new Map<number, number>();
+          const addedSheets: XLSX.WorkSheet[] = [];
+
           // Process each sheet
           workbook.SheetNames.forEach((sheetName, sheetIndex) => {
             const sheet = workbook.Sheets[sheetName];
@@ -105,7 +135,7 @@ export class ExcelProcessor {
             }
             
             // Filter out formulas if requested
-            if (!options.includeFormulas) {
+            if (options.includeFormulas === false) {
               Object.keys(sheet).forEach(cellAddr => {
                 if (cellAddr[0] !== '!' && sheet[cellAddr].f) {
                   // Convert formula to value
@@ -128,13 +158,11 @@ export class ExcelProcessor {
                 sheetCounter++;
             }
 
-            // Ensure unique sheet name (Excel limit is 31 chars)
-            let finalName = newSheetName.substring(0, 31);
-            let nameCounter = 1;
-            while (mergedWorkbook.SheetNames.includes(finalName)) {
-              const suffix = `_${nameCounter++}`;
-              finalName = newSheetName.substring(0, 31 - suffix.length) + suffix;
-            }
+            const finalName = this.uniqueSheetName(mergedWorkbook, newSheetName);
+
+            sheetRenames.set(sheetName.toLowerCase(), finalName);
+            sheetIndexes.set(sheetIndex, mergedWorkbook.SheetNames.length);
+            addedSheets.push(sheet);
 
             // Add sheet with enhanced metadata
             mergedWorkbook.Sheets[finalName] = sheet;
@@ -145,7 +173,21 @@ export class ExcelProcessor {
               sheet['A1'] = { t: 's', v: `Source: File ${i + 1}` };
             }
           });
+
+          const nameRenames = this.mergeDefinedNames(mergedWorkbook, workbook, i, sheetRenames, sheetIndexes);
+          if (options.includeFormulas !== false) {
+            const renames = { sheets: sheetRenames, names: nameRenames };
+            addedSheets.forEach(sheet => {
+              Object.keys(sheet).forEach(cellAddr => {
+                const cell = sheet[cellAddr];
+                if (cellAddr[0] !== '!' && cell.f) {
+                  cell.f = rewriteFormulaReferences(cell.f, renames);
+                }
+              });
+            });
+          }
         } catch (error) {
+          if (ErrorHandler.isAbortError(error)) throw error;
           console.error(`Error processing Excel file ${i + 1}:`, error);
           
           // Add error sheet instead of completely failing
@@ -163,6 +205,10 @@ export class ExcelProcessor {
         }
       }
 
+      if (options.combineSheets) {
+        warnings.push(...this.appendMatchingSheets(mergedWorkbook, appendSources, options.addSourceColumns === true));
+      }
+
       if (mergedWorkbook.SheetNames.length === 0) {
         throw new Error('No valid sheets found in any document');
       }
@@ -177,6 +223,7 @@ export class ExcelProcessor {
         };
       }
 
+      ErrorHandler.throwIfAborted(options.signal);
       options.onProgress?.(0.9);
       
       // Enhanced write options for better compatibility
@@ -203,9 +250,11 @@ export class ExcelProcessor {
           title: 'Merged Excel Document',
           author: 'DocMerger',
           createdDate: new Date(),
-        }
+        },
+        warnings: warnings.length > 0 ? warnings : undefined,
       };
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('Excel merge error:', error);
       const friendlyError = ErrorHandler.createUserFriendlyError(error, 'excel-merge');
       return {
@@ -215,6 +264,184 @@ export class ExcelProcessor {
     }
   }
 
+  // Excel limits sheet names to 31 characters and requires them to be unique
+  private static uniqueSheetName(workbook: XLSX.WorkBook, name: string): string {
+    let finalName = name.substring(0, 31);
+    let nameCounter = 1;
+    while (workbook.SheetNames.includes(finalName)) {
+      const suffix = `_${nameCounter++}`;
+      finalName = name.substring(0, 31 - suffix.length) + suffix;
+    }
+    return finalName;
+  }
+
+  /**
+   * Copy a workbook's defined names into the merged workbook
+   * Sheet-scoped names follow their sheet; a workbook-scoped name that clashes with a different
+   * definition from an earlier file is renamed. Returns those renames for rewriting formulas.
+   */
+  private static mergeDefinedNames(
+    mergedWorkbook: XLSX.WorkBook,
+    workbook: XLSX.WorkBook,
+    fileIndex: number,
+    sheetRenames: Map<string, string>,
+    sheetIndexes: Map<number, number>
+  ): Map<string, string> {
+    const nameRenames = new Map<string, string>();
+    const names = workbook.Workbook?.Names ?? [];
+    if (names.length === 0) return nameRenames;
+
+    mergedWorkbook.Workbook ??= {};
+    const mergedNames = (mergedWorkbook.Workbook.Names ??= []);
+    const added: XLSX.DefinedName[] = [];
+    const isTaken = (name: string) => [...mergedNames, ...added]
+      .some(existing => existing.Sheet === undefined && existing.Name.toLowerCase() === name.toLowerCase());
+
+    for (const name of names) {
+      if (name.Sheet !== undefined) {
+        const sheet = sheetIndexes.get(name.Sheet);
+        // Names scoped to a skipped sheet go with it
+        if (sheet !== undefined) added.push({ ...name, Sheet: sheet });
+        continue;
+      }
+
+      const clash = mergedNames.find(existing =>
+        existing.Sheet === undefined && existing.Name.toLowerCase() === name.Name.toLowerCase());
+      if (!clash) {
+        added.push(name);
+        continue;
+      }
+      // The same definition from another file is merged once
+      if (clash.Ref === rewriteFormulaReferences(name.Ref, { sheets: sheetRenames })) continue;
+
+      let finalName = `File${fileIndex + 1}_${name.Name}`;
+      for (let suffix = 2; isTaken(finalName); suffix++) {
+        finalName = `File${fileIndex + 1}_${name.Name}_${suffix}`;
+      }
+      nameRenames.set(name.Name.toLowerCase(), finalName);
+      added.push({ ...name, Name: finalName });
+    }
+
+    const renames = { sheets: sheetRenames, names: nameRenames };
+    added.forEach(name => mergedNames.push({ ...name, Ref: rewriteFormulaReferences(name.Ref, renames) }));
+    return nameRenames;
+  }
+
+  /**
+   * Add one sheet per group of matching sheets, with their rows stacked under a shared header
+   * Sheets match by name (ignoring case and spacing); when every workbook has a single sheet,
+   * those are stacked whatever their names. Returns warnings about mismatched columns.
+   */
+  private static appendMatchingSheets(
+    mergedWorkbook: XLSX.WorkBook,
+    sources: { fileName: string; workbook: XLSX.WorkBook }[],
+    addSourceColumns: boolean
+  ): string[] {
+    const nonEmptySheets = sources.map(({ fileName, workbook }) => workbook.SheetNames
+      .filter(sheetName => workbook.Sheets[sheetName]['!ref'])
+      .map((sheetName): SourceSheet => ({
+        fileName,
+        sheetName,
+        sheet: workbook.Sheets[sheetName],
+        range: XLSX.utils.decode_range(workbook.Sheets[sheetName]['!ref']!),
+      })));
+    const singleSheets = nonEmptySheets.every(sheets => sheets.length === 1);
+
+    const groups = new Map<string, SourceSheet[]>();
+    nonEmptySheets.flat().forEach(source => {
+      const key = singleSheets ? '' : normalizeHeaderName(source.sheetName);
+      groups.set(key, [...(groups.get(key) ?? []), source]);
+    });
+
+    const warnings: string[] = [];
+    groups.forEach(group => {
+      const sheetName = this.uniqueSheetName(mergedWorkbook, group[0].sheetName);
+      mergedWorkbook.Sheets[sheetName] = this.stackSheets(group, addSourceColumns, warnings);
+      mergedWorkbook.SheetNames.push(sheetName);
+    });
+    return warnings;
+  }
+
+  /**
+   * Stack sheets whose first row is a header, matching columns by header name
+   * Cells keep their type, number format and style; formulas are replaced by their
+   * cached values because the rows they refer to move.
+   */
+  private static stackSheets(sources: SourceSheet[], addSourceColumns: boolean, warnings: string[]): XLSX.WorkSheet {
+    const columns = new Map<string, { header?: XLSX.CellObject; name: string; width?: XLSX.ColInfo }>();
+    const keysBySource = sources.map(({ sheet, range }) => {
+      const cells = Array.from({ length: range.e.c - range.s.c + 1 }, (_, offset) => ({
+        cell: sheet[XLSX.utils.encode_cell({ r: range.s.r, c: range.s.c + offset })] as XLSX.CellObject | undefined,
+        width: sheet['!cols']?.[range.s.c + offset],
+      }));
+      const names = cells.map(({ cell }) => (cell ? String(cell.w ?? cell.v ?? '') : ''));
+      const keys = headerKeys(names);
+      keys.forEach((key, index) => {
+        if (!columns.has(key)) columns.set(key, { header: cells[index].cell, name: names[index].trim(), width: cells[index].width });
+      });
+      return keys;
+    });
+
+    const columnKeys = [...columns.keys()];
+    const firstColumn = addSourceColumns ? 2 : 0;
+    const sheet: XLSX.WorkSheet = {};
+    const widths: XLSX.ColInfo[] = [];
+    const setCell = (r: number, c: number, cell: XLSX.CellObject) => {
+      sheet[XLSX.utils.encode_cell({ r, c })] = cell;
+    };
+
+    if (addSourceColumns) {
+      setCell(0, 0, { t: 's', v: 'Source File' });
+      setCell(0, 1, { t: 's', v: 'Source Sheet' });
+      widths[0] = { wch: 24 };
+      widths[1] = { wch: 16 };
+    }
+    columnKeys.forEach((key, index) => {
+      const { header, name, width } = columns.get(key)!;
+      setCell(0, firstColumn + index, header ? this.copyCellValue(header) : { t: 's', v: name });
+      if (width) widths[firstColumn + index] = width;
+    });
+
+    let row = 1;
+    sources.forEach((source, sourceIndex) => {
+      const keys = keysBySource[sourceIndex];
+      const missing = columnKeys.filter(key => !keys.includes(key)).map(key => columns.get(key)!.name || '(unnamed)');
+      if (missing.length > 0) {
+        warnings.push(`${source.fileName} / ${source.sheetName}: missing ${missing.join(', ')} (left blank)`);
+      }
+
+      const targets = keys.map(key => firstColumn + columnKeys.indexOf(key));
+      for (let r = source.range.s.r + 1; r <= source.range.e.r; r++) {
+        let hasCells = false;
+        targets.forEach((target, offset) => {
+          const cell = source.sheet[XLSX.utils.encode_cell({ r, c: source.range.s.c + offset })] as XLSX.CellObject | undefined;
+          if (!cell || cell.v === undefined) return;
+          setCell(row, target, this.copyCellValue(cell));
+          hasCells = true;
+        });
+        // Blank rows are dropped rather than leaving gaps between sources
+        if (!hasCells) continue;
+
+        if (addSourceColumns) {
+          setCell(row, 0, { t: 's', v: source.fileName });
+          setCell(row, 1, { t: 's', v: source.sheetName });
+        }
+        row++;
+      }
+    });
+
+    sheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: row - 1, c: Math.max(0, firstColumn + columnKeys.length - 1) } });
+    sheet['!cols'] = widths;
+    return sheet;
+  }
+
+  private static copyCellValue(cell: XLSX.CellObject): XLSX.CellObject {
+    const copy = { ...cell };
+    delete copy.f;
+    delete copy.F;
+    return copy;
+  }
+
   static async extractData(buffer: ArrayBuffer): Promise<unknown[][]> {
     try {
       const workbook = XLSX.read(buffer, { type: 'array' });
@@ -233,6 +460,28 @@ export class ExcelProcessor {
     }
   }
 
+  /**
+   * Every sheet's cells as formatted text, one array per row
+   */
+  static async extractSheets(buffer: ArrayBuffer): Promise<{ name: string; rows: string[][] }[]> {
+    try {
+      const workbook = XLSX.read(buffer, { type: 'array' });
+
+      return workbook.SheetNames.map(name => {
+        const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+          header: 1,
+          raw: false,
+          defval: '',
+          blankrows: false,
+        });
+        return { name, rows: rows.map(row => row.map(cell => (cell == null ? '' : String(cell)))) };
+      });
+    } catch (error) {
+      console.error('Excel sheet extraction error:', error);
+      throw error;
+    }
+  }
+
   static async generatePreview(buffer: ArrayBuffer): Promise<string> {
     try {
       const workbook = XLSX.read(buffer, { 
@@ -1,23 +1,46 @@
-import { DocumentFormat, DocumentMetadata, ProcessorResult } from '@/app/types';
+import {
+  BatesOptions,
+  DocumentFormat,
+  DocumentMetadata,
+  PageSource,
+  PageStampOptions,
+  PDFEncryptionOptions,
+  ProcessorResult,
+  RecipeStepSource,
+  SeparatorPageOptions,
+  SplitMode,
+  SplitOptions,
+  SplitPart,
+  SplitResult,
+  WatermarkOptions
+} from '@/app/types';
 import { PDFProcessor } from './pdf-processor';
 import { ExcelProcessor } from './excel-processor';
 import { WordProcessor } from './word-processor';
 import { TextProcessor, CSVProcessor } from './text-processor';
 import { PowerPointProcessor } from './powerpoint-processor';
 import { fileToBuffer } from '../utils/file-utils';
+import { parsePageRanges, parsePageSelection } from '../utils/page-range';
 import { ChunkProcessor, FileSizeUtils } from '../utils/chunk-processor';
+import { ErrorHandler } from '../utils/error-handler';
+import { PDFFontSet } from '../utils/pdf-fonts';
+import { renderHTMLToPDF } from '../utils/html-pdf-renderer';
+import { renderTablesToPDF } from '../utils/table-pdf-renderer';
+import { PageStamps } from '../utils/pdf-stamps';
+import { createSeparatorSheet, SeparatorSheet } from '../utils/separator-pages';
 
 export class DocumentProcessor {
   static async analyzeDocument(
     file: File, 
     format: DocumentFormat,
-    options: { onProgress?: (progress: number) => void } = {}
+    options: { onProgress?: (progress: number) => void; signal?: AbortSignal; password?: string } = {}
   ): Promise<DocumentMetadata> {
     try {
+      ErrorHandler.throwIfAborted(options.signal);
       options.onProgress?.(0.1);
       switch (format) {
         case 'pdf': {
-          const buffer = await fileToBuffer(file);
+          const buffer = await PDFProcessor.unlockPDF(await fileToBuffer(file), options.password);
           return await PDFProcessor.analyzeDocument(buffer);
         }
         case 'xlsx': {
@@ -33,7 +56,7 @@ export class DocumentProcessor {
           return await TextProcessor.analyzeDocument(text);
         }
         case 'csv': {
-          const text = await file.text();
+          const text = CSVProcessor.decodeCSV(await fileToBuffer(file));
           return await TextProcessor.analyzeDocument(text);
         }
         case 'pptx': {
@@ -47,6 +70,7 @@ export class DocumentProcessor {
           throw new Error(`Unsupported format for analysis: ${format}`);
       }
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('Document analysis error:', error);
       return {
         title: file.name,
@@ -54,11 +78,16 @@ export class DocumentProcessor {
     }
   }
 
-  static async generatePreview(file: File, format: DocumentFormat): Promise<string> {
+  static async generatePreview(
+    file: File,
+    format: DocumentFormat,
+    options: { signal?: AbortSignal; password?: string } = {}
+  ): Promise<string> {
     try {
+      ErrorHandler.throwIfAborted(options.signal);
       switch (format) {
         case 'pdf': {
-          const buffer = await fileToBuffer(file);
+          const buffer = await PDFProcessor.unlockPDF(await fileToBuffer(file), options.password);
           return await PDFProcessor.generatePreview(buffer);
         }
         case 'xlsx': {
@@ -74,7 +103,7 @@ export class DocumentProcessor {
           return await TextProcessor.generatePreview(text);
         }
         case 'csv': {
-          const text = await file.text();
+          const text = CSVProcessor.decodeCSV(await fileToBuffer(file));
           return await CSVProcessor.generatePreview(text);
         }
         case 'pptx': {
@@ -85,6 +114,7 @@ export class DocumentProcessor {
           return `${(format as string).toUpperCase()} Document\nSize: ${(file.size / 1024 / 1024).toFixed(2)} MB`;
       }
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('Preview generation error:', error);
       return `${(format as string).toUpperCase()} Document\nPreview not available`;
     }
@@ -95,20 +125,47 @@ export class DocumentProcessor {
     format: DocumentFormat,
     options: Record<string, unknown> = {}
   ): Promise<ProcessorResult> {
+    const signal = options.signal instanceof AbortSignal ? options.signal : undefined;
     try {
+      ErrorHandler.throwIfAborted(signal);
       switch (format) {
         case 'pdf': {
-          const buffers = await Promise.all(files.map(file => fileToBuffer(file)));
+          const passwords = Array.isArray(options.passwords)
+            ? options.passwords as (string | undefined)[]
+            : [];
+          const buffers = await Promise.all(files.map(async (file, index) =>
+            PDFProcessor.unlockPDF(await fileToBuffer(file), passwords[index])));
           const preserveMetadata = options.preserveMetadata === true;
           const includeBookmarks = options.preserveFormatting === true;
-          return await PDFProcessor.mergePDFs(buffers, {
+          const documentNames = Array.isArray(options.documentNames)
+            ? options.documentNames as string[]
+            : files.map(file => file.name);
+          const pageSelections = Array.isArray(options.pageSelections)
+            ? options.pageSelections as (string | undefined)[]
+            : undefined;
+          const result = await PDFProcessor.mergePDFs(buffers, {
             preserveMetadata,
             includeBookmarks,
+            documentNames,
+            pageSelections,
+            stamps: this.pageStamps(options),
+            tableOfContents: options.tableOfContents === true,
+            bates: options.bates as BatesOptions | undefined,
+            separators: this.separatorSheets(options, documentNames, options.documentMetadata),
+            signal,
           });
+          return await this.finishPDF(result, options);
         }
         case 'xlsx': {
           const buffers = await Promise.all(files.map(file => fileToBuffer(file)));
-          return await ExcelProcessor.mergeExcelFiles(buffers, options);
+          return await ExcelProcessor.mergeExcelFiles(buffers, {
+            ...options,
+            combineSheets: options.xlsxCombineSheets === true,
+            addSourceColumns: options.xlsxSourceColumns === true,
+            documentNames: Array.isArray(options.documentNames)
+              ? options.documentNames as string[]
+              : files.map(file => file.name),
+          });
         }
         case 'docx': {
           const buffers = await Promise.all(files.map(file => fileToBuffer(file)));
@@ -117,14 +174,27 @@ export class DocumentProcessor {
           const includeHeaders = options.includeHeaders === true;
           const includeFooters = options.includeFooters === true;
           const preserveMetadata = options.preserveMetadata === true;
+          const documentNames = Array.isArray(options.documentNames)
+            ? options.documentNames as string[]
+            : files.map(file => file.name);
           
-          return await WordProcessor.mergeWordDocuments(buffers, {
+          const result = await WordProcessor.mergeWordDocuments(buffers, {
             preserveFormatting,
             pageBreaks,
             includeHeaders,
             includeFooters,
             preserveMetadata,
+            tableOfContents: options.tableOfContents === true,
+            documentNames,
+            separators: this.separatorSheets(options, documentNames, options.documentMetadata),
+            signal,
           });
+          const watermark = options.watermark as WatermarkOptions | undefined;
+          if (!result.success || !result.data || !watermark) return result;
+
+          ErrorHandler.throwIfAborted(signal);
+          const data = await WordProcessor.addWatermark(result.data, watermark);
+          return { ...result, data };
         }
         case 'txt': {
           const texts = await Promise.all(files.map(file => file.text()));
@@ -136,20 +206,36 @@ export class DocumentProcessor {
             separator: pageBreaks ? '\n\n---PAGE BREAK---\n\n' : '\n\n---\n\n',
             includeHeaders,
             preserveFormatting,
+            signal,
           });
         }
         case 'csv': {
-          const texts = await Promise.all(files.map(file => file.text()));
+          const buffers = await Promise.all(files.map(file => fileToBuffer(file)));
+          const texts = buffers.map(buffer => CSVProcessor.decodeCSV(buffer));
           const includeHeaders = options.includeHeaders !== false; // Default true for CSV
+          const columnMode = options.csvColumnMode === 'union' || options.csvColumnMode === 'intersection'
+            ? options.csvColumnMode
+            : 'position';
           
           return await CSVProcessor.mergeCSVFiles(texts, {
             includeHeaders,
             skipDuplicateHeaders: true,
+            columnMode,
+            sourceColumn: options.csvSourceColumn === true,
+            sourceNames: Array.isArray(options.documentNames)
+              ? options.documentNames as string[]
+              : files.map(file => file.name),
+            signal,
           });
         }
         case 'pptx': {
           const buffers = await Promise.all(files.map(file => fileToBuffer(file)));
-          return await PowerPointProcessor.mergePowerPointPresentations(buffers);
+          return await PowerPointProcessor.mergePowerPointPresentations(buffers, {
+            documentNames: Array.isArray(options.documentNames)
+              ? options.documentNames as string[]
+              : files.map(file => file.name),
+            signal,
+          });
         }
         default:
           return {
@@ -158,6 +244,7 @@ export class DocumentProcessor {
           };
       }
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('Document merge error:', error);
       return {
         success: false,
@@ -166,6 +253,141 @@ export class DocumentProcessor {
     }
   }
 
+  static async splitDocument(
+    file: File,
+    format: DocumentFormat,
+    options: SplitOptions,
+    control: { signal?: AbortSignal; password?: string } = {}
+  ): Promise<SplitResult> {
+    try {
+      ErrorHandler.throwIfAborted(control.signal);
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      const parts: SplitPart[] = [];
+
+      switch (options.mode) {
+        case 'range':
+        case 'every': {
+          if (format !== 'pdf') break;
+          const buffer = await PDFProcessor.unlockPDF(await fileToBuffer(file), control.password);
+          const pageCount = await PDFProcessor.getPageCount(buffer);
+
+          let ranges: [number, number][];
+          if (options.mode === 'range') {
+            ranges = parsePageRanges(options.ranges ?? '', pageCount);
+          } else {
+            const pagesPerPart = Math.max(1, Math.floor(options.pagesPerPart ?? 1));
+            ranges = [];
+            for (let start = 1; start <= pageCount; start += pagesPerPart) {
+              ranges.push([start, Math.min(start + pagesPerPart - 1, pageCount)]);
+            }
+          }
+          if (ranges.length === 0) {
+            return { success: false, error: 'Enter at least one page range to split by' };
+          }
+
+          const buffers = await PDFProcessor.splitPDF(buffer, ranges);
+          buffers.forEach((data, index) => {
+            const [start, end] = ranges[index];
+            parts.push({
+              name: `${baseName}-part-${index + 1}.pdf`,
+              format: 'pdf',
+              data,
+              description: start === end ? `Page ${start}` : `Pages ${start}-${end}`,
+            });
+          });
+          break;
+        }
+        case 'sheet': {
+          if (format !== 'xlsx') break;
+          const buffer = await fileToBuffer(file);
+          const sheets = await ExcelProcessor.splitWorkbook(buffer);
+          for (const [sheetName, data] of Object.entries(sheets)) {
+            parts.push({
+              name: `${baseName}-${sheetName.replace(/[\\/:*?"<>|]/g, '_')}.xlsx`,
+              format: 'xlsx',
+              data,
+              description: `Sheet: ${sheetName}`,
+            });
+          }
+          break;
+        }
+        case 'lines': {
+          if (format !== 'txt' && format !== 'csv') break;
+          const linesPerPart = Math.max(1, Math.floor(options.linesPerPart ?? 1));
+          const encoder = new TextEncoder();
+
+          if (format === 'csv') {
+            // Split by record so quoted line breaks stay intact; every part keeps the header row
+            const text = CSVProcessor.decodeCSV(await fileToBuffer(file));
+            const delimiter = CSVProcessor.detectDelimiter(text);
+            const [header, ...records] = await CSVProcessor.parseCSV(text, { delimiter });
+
+            for (let start = 0; start < records.length; start += linesPerPart) {
+              const chunk = records.slice(start, start + linesPerPart);
+              const firstRow = start + 1;
+              const lastRow = start + chunk.length;
+              parts.push({
+                name: `${baseName}-part-${parts.length + 1}.csv`,
+                format,
+                data: encoder.encode(CSVProcessor.stringifyCSV([header, ...chunk], { delimiter })),
+                description: firstRow === lastRow ? `Row ${firstRow}` : `Rows ${firstRow}-${lastRow}`,
+                preview: CSVProcessor.stringifyCSV(chunk.slice(0, 3), { delimiter }).trimEnd(),
+              });
+            }
+            break;
+          }
+
+          const text = await file.text();
+          // Line numbers come from each section's place in the file, so dropping empty ones shifts nothing
+          const sections = (await TextProcessor.splitByLines(text.replace(/\r?\n$/, ''), linesPerPart))
+            .map((section, index) => ({ section, firstLine: index * linesPerPart + 1 }))
+            .filter(({ section }) => section.length > 0);
+          sections.forEach(({ section, firstLine }, index) => {
+            const lastLine = firstLine + section.split('\n').length - 1;
+            parts.push({
+              name: `${baseName}-part-${index + 1}.${format}`,
+              format,
+              data: encoder.encode(section),
+              description: firstLine === lastLine ? `Line ${firstLine}` : `Lines ${firstLine}-${lastLine}`,
+              preview: section.split('\n').slice(0, 3).join('\n'),
+            });
+          });
+          break;
+        }
+      }
+
+      if (parts.length === 0) {
+        return {
+          success: false,
+          error: `Splitting ${format.toUpperCase()} files by ${options.mode} is not supported`
+        };
+      }
+
+      return { success: true, parts };
+    } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
+      console.error('Document split error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown split error'
+      };
+    }
+  }
+
+  static getSupportedSplitModes(format: DocumentFormat): SplitMode[] {
+    switch (format) {
+      case 'pdf':
+        return ['range', 'every'];
+      case 'xlsx':
+        return ['sheet'];
+      case 'txt':
+      case 'csv':
+        return ['lines'];
+      default:
+        return [];
+    }
+  }
+
   static async convertFormat(
     file: File,
     fromFormat: DocumentFormat,
@@ -212,69 +434,119 @@ export class DocumentProcessor {
     }
   }
 
+  /**
+   * Produce a PDF rendition of one document, as the mixed-format merge and page thumbnails use it.
+   * `range` picks the sheets of an XLSX or the slides of a PPTX to include.
+   */
+  static async convertToPDF(
+    doc: { file: File; format: DocumentFormat; name?: string; password?: string; range?: string }
+  ): Promise<ArrayBuffer> {
+    switch (doc.format) {
+      case 'pdf':
+        // Already PDF (decrypted if it is password protected)
+        return await PDFProcessor.unlockPDF(await fileToBuffer(doc.file), doc.password);
+      case 'docx':
+        // Convert DOCX to PDF-like content (enhanced approach)
+        return await this.convertDocxToPDF(doc.file);
+      case 'txt':
+        return await this.convertTextToPDF(await doc.file.text());
+      case 'csv': {
+        // Render CSV as a grid
+        const rows = await CSVProcessor.parseCSV(CSVProcessor.decodeCSV(await fileToBuffer(doc.file)));
+        return await renderTablesToPDF([{ title: doc.name ?? doc.file.name, rows }]);
+      }
+      case 'xlsx': {
+        // Render each sheet as its own titled grid section
+        const allSheets = await ExcelProcessor.extractSheets(await fileToBuffer(doc.file));
+        const sheets = doc.range?.trim()
+          ? parsePageSelection(doc.range, allSheets.length).map(index => allSheets[index])
+          : allSheets;
+        const sections = sheets.length > 0
+          ? sheets.map(sheet => ({ title: sheet.name, rows: sheet.rows }))
+          : [{ title: doc.name ?? doc.file.name, rows: [] }];
+        return await renderTablesToPDF(sections);
+      }
+      case 'pptx': {
+        // Convert PowerPoint to PDF via text extraction
+        const buffer = await fileToBuffer(doc.file);
+        const slides = doc.range?.trim() ? await PowerPointProcessor.extractSlideTexts(buffer) : null;
+        const text = slides
+          ? parsePageSelection(doc.range!, slides.length).map(index => slides[index]).join('').trim()
+          : await PowerPointProcessor.extractText(buffer);
+        return await this.convertTextToPDF(text);
+      }
+      default:
+        throw new Error(`Conversion from ${doc.format} to PDF not yet supported`);
+    }
+  }
+
   static async convertAndMergeToPDF(
-    documents: { file: File; format: DocumentFormat }[],
-    options: Record<string, unknown> & { onProgress?: (progress: number) => void } = {}
+    documents: {
+      file: File;
+      format: DocumentFormat;
+      name?: string;
+      pageSelection?: string;
+      password?: string;
+      metadata?: DocumentMetadata;
+    }[],
+    options: Record<string, unknown> & { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
   ): Promise<ProcessorResult> {
     try {
+      if (Array.isArray(options.recipe)) {
+        return await this.executeMergeRecipe(documents, options.recipe as RecipeStepSource[], options);
+      }
+
       const pdfBuffers: ArrayBuffer[] = [];
       const totalFiles = documents.length;
       let processedFiles = 0;
       
       for (const doc of documents) {
+        ErrorHandler.throwIfAborted(options.signal);
         options.onProgress?.((processedFiles / totalFiles) * 0.8); // Reserve 20% for final merge
-        if (doc.format === 'pdf') {
-          // Already PDF, just add the buffer
-          const buffer = await fileToBuffer(doc.file);
-          pdfBuffers.push(buffer);
-        } else if (doc.format === 'docx') {
-          // Convert DOCX to PDF-like content (enhanced approach)
-          const pdfBuffer = await this.convertDocxToPDF(doc.file);
-          pdfBuffers.push(pdfBuffer);
-        } else if (doc.format === 'txt') {
-          // Convert text to PDF
-          const text = await doc.file.text();
-          const sanitizedText = this.sanitizeText(text);
-          const pdfBuffer = await this.convertTextToPDF(sanitizedText);
-          pdfBuffers.push(pdfBuffer);
-        } else if (doc.format === 'csv') {
-          // Convert CSV to PDF
-          const text = await doc.file.text();
-          const formattedText = this.formatCSVForPDF(text);
-          const pdfBuffer = await this.convertTextToPDF(formattedText);
-          pdfBuffers.push(pdfBuffer);
-        } else if (doc.format === 'xlsx') {
-          // Convert Excel to PDF (basic text representation)
-          const buffer = await fileToBuffer(doc.file);
-          const csvData = await ExcelProcessor.convertToCSV(buffer);
-          const formattedText = this.formatCSVForPDF(csvData);
-          const pdfBuffer = await this.convertTextToPDF(formattedText);
-          pdfBuffers.push(pdfBuffer);
-        } else if (doc.format === 'pptx') {
-          // Convert PowerPoint to PDF via text extraction
-          const buffer = await fileToBuffer(doc.file);
-          const text = await PowerPointProcessor.extractText(buffer);
-          const sanitizedText = this.sanitizeText(text);
-          const pdfBuffer = await this.convertTextToPDF(sanitizedText);
-          pdfBuffers.push(pdfBuffer);
-        } else {
-          // For other formats, throw error for now
-          throw new Error(`Conversion from ${doc.format} to PDF not yet supported`);
-        }
-        
+        pdfBuffers.push(await this.convertToPDF(doc));
         processedFiles++;
       }
       
-      // Merge all PDF buffers
       options.onProgress?.(0.9);
+      if (Array.isArray(options.pagePlan)) {
+        // Pages arranged in the page organizer replace document order and page selections
+        const pagePlan = options.pagePlan as PageSource[];
+        const documentNames = documents.map(doc => doc.name ?? doc.file.name);
+        // Separator sheets count documents in the order the plan first shows them
+        const planOrder = [...new Set(pagePlan.flatMap(page => (page.documentIndex === undefined ? [] : [page.documentIndex])))];
+        const result = await PDFProcessor.assemblePages(pdfBuffers, pagePlan, {
+          preserveMetadata: options.preserveMetadata === true,
+          includeBookmarks: options.preserveFormatting === true,
+          documentNames,
+          stamps: this.pageStamps(options),
+          tableOfContents: options.tableOfContents === true,
+          separators: this.separatorSheets(options, documentNames, documents.map(doc => doc.metadata), planOrder),
+          bates: options.bates as BatesOptions | undefined,
+          signal: options.signal,
+        });
+        options.onProgress?.(1.0);
+        return await this.finishPDF(result, options);
+      }
+
+      // Merge all PDF buffers
+      const documentNames = documents.map(doc => doc.name ?? doc.file.name);
       const result = await PDFProcessor.mergePDFs(pdfBuffers, {
         preserveMetadata: options.preserveMetadata === true,
         includeBookmarks: options.preserveFormatting === true,
+        documentNames,
+        // Only native PDFs have real page numbers to select from
+        pageSelections: documents.map(doc => doc.format === 'pdf' ? doc.pageSelection : undefined),
+        stamps: this.pageStamps(options),
+        tableOfContents: options.tableOfContents === true,
+        bates: options.bates as BatesOptions | undefined,
+        separators: this.separatorSheets(options, documentNames, documents.map(doc => doc.metadata)),
+        signal: options.signal,
       });
       options.onProgress?.(1.0);
-      return result;
+      return await this.finishPDF(result, options);
       
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('Convert and merge to PDF error:', error);
       return {
         success: false,
@@ -283,63 +555,161 @@ export class DocumentProcessor {
     }
   }
 
+  /**
+   * Build one PDF from a custom merge recipe. Each step takes a range of one document's pages
+   * (sheets of an XLSX, slides of a PPTX), optionally after a separator page, and gets a bookmark.
+   * With separator pages switched on, every step opens with a title sheet instead.
+   */
+  static async executeMergeRecipe(
+    documents: { file: File; format: DocumentFormat; name?: string; password?: string; metadata?: DocumentMetadata }[],
+    steps: RecipeStepSource[],
+    options: Record<string, unknown> & { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+  ): Promise<ProcessorResult> {
+    try {
+      if (steps.length === 0) {
+        throw new Error('The merge recipe has no steps');
+      }
+
+      // Steps taking pages from the same document share its rendition; each step gets its own bookmark
+      const renditions = new Map<number, ArrayBuffer>();
+      const stepBuffers: ArrayBuffer[] = [];
+      const stepTitles: string[] = [];
+      const pages: PageSource[] = [];
+
+      for (const [stepIndex, step] of steps.entries()) {
+        ErrorHandler.throwIfAborted(options.signal);
+        options.onProgress?.((stepIndex / steps.length) * 0.8); // Reserve 20% for assembly
+
+        const doc = documents[step.documentIndex];
+        const title = step.title?.trim() || doc.name || doc.file.name;
+        let buffer: ArrayBuffer;
+        let pageIndices: number[];
+
+        try {
+          if (doc.format === 'xlsx' || doc.format === 'pptx') {
+            // Sheets and slides are picked before conversion
+            buffer = await this.convertToPDF({ ...doc, range: step.range });
+            pageIndices = parsePageSelection('', await PDFProcessor.getPageCount(buffer));
+          } else {
+            buffer = renditions.get(step.documentIndex) ?? await this.convertToPDF(doc);
+            renditions.set(step.documentIndex, buffer);
+            pageIndices = parsePageSelection(step.range ?? '', await PDFProcessor.getPageCount(buffer));
+          }
+        } catch (error) {
+          if (ErrorHandler.isAbortError(error)) throw error;
+          throw new Error(`Step ${stepIndex + 1} (${title}): ${error instanceof Error ? error.message : 'conversion failed'}`);
+        }
+
+        if (step.separator && !options.separatorPages) {
+          pages.push({ label: title });
+        }
+        const bufferIndex = stepBuffers.push(buffer) - 1;
+        stepTitles.push(title);
+        pages.push(...pageIndices.map(pageIndex => ({ documentIndex: bufferIndex, pageIndex, rotation: step.rotation })));
+      }
+
+      options.onProgress?.(0.9);
+      const result = await PDFProcessor.assemblePages(stepBuffers, pages, {
+        preserveMetadata: options.preserveMetadata === true,
+        includeBookmarks: options.preserveFormatting === true,
+        documentNames: stepTitles,
+        stamps: this.pageStamps(options),
+        tableOfContents: options.tableOfContents === true,
+        separators: this.separatorSheets(options, stepTitles, steps.map(step => documents[step.documentIndex].metadata)),
+        bates: options.bates as BatesOptions | undefined,
+        signal: options.signal,
+      });
+      options.onProgress?.(1.0);
+      return await this.finishPDF(result, options);
+    } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
+      console.error('Merge recipe error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown merge recipe error'
+      };
+    }
+  }
+
+  /**
+   * The header and footer to stamp on merged PDF pages, if either is switched on
+   */
+  private static pageStamps(options: Record<string, unknown>): PageStamps | undefined {
+    const settings = options.pageStamps as PageStampOptions | undefined;
+    if (!settings) return undefined;
+
+    const header = options.includeHeaders === true ? settings.headerTemplate.trim() : '';
+    const footer = options.includeFooters === true ? settings.footerTemplate.trim() : '';
+    if (!header && !footer) return undefined;
+
+    return {
+      header,
+      footer,
+      fontStyle: settings.fontStyle,
+      fontSize: settings.fontSize,
+      alignment: settings.alignment,
+      margin: settings.margin,
+      title: typeof options.outputName === 'string' && options.outputName ? options.outputName : 'Merged Document',
+    };
+  }
+
+  /**
+   * The title sheet before each document, when separator pages are switched on. `order` lists
+   * document indices in the order they appear in the output, when that differs from theirs.
+   */
+  private static separatorSheets(
+    options: Record<string, unknown>,
+    documentNames: string[],
+    metadata: unknown,
+    order?: number[]
+  ): SeparatorSheet[] | undefined {
+    const settings = options.separatorPages as SeparatorPageOptions | undefined;
+    if (!settings) return undefined;
+
+    const documentMetadata = Array.isArray(metadata) ? metadata as (DocumentMetadata | undefined)[] : [];
+    const count = order?.length ?? documentNames.length;
+    return documentNames.map((name, index) =>
+      createSeparatorSheet(name, order ? order.indexOf(index) : index, count, documentMetadata[index], settings));
+  }
+
+  /**
+   * Watermark a successful PDF merge result, optimize it for the quality setting, then
+   * password-protect it when the user asked for it
+   */
+  private static async finishPDF(
+    result: ProcessorResult,
+    options: Record<string, unknown> & { signal?: AbortSignal }
+  ): Promise<ProcessorResult> {
+    if (!result.success || !result.data) return result;
+
+    const watermark = options.watermark as WatermarkOptions | undefined;
+    const marked = watermark ? await PDFProcessor.watermarkPDF(result.data, watermark) : result.data;
+
+    const quality = options.quality === 'low' || options.quality === 'high' ? options.quality : 'medium';
+    const { data, report } = await PDFProcessor.optimizePDF(marked, quality, options.signal);
+    const encryption = options.encryption as PDFEncryptionOptions | undefined;
+    const finished = encryption ? await PDFProcessor.protectPDF(data, encryption) : data;
+
+    return { ...result, data: finished.buffer as ArrayBuffer, optimization: report };
+  }
+
   static async convertDocxToPDF(file: File): Promise<ArrayBuffer> {
     try {
-      // Extract text and basic formatting from DOCX
+      // Lay out mammoth's HTML so headings, inline styles, lists, tables and images survive
       const buffer = await fileToBuffer(file);
       const htmlContent = await WordProcessor.extractHTML(buffer);
-      
-      // Sanitize the HTML content first
-      const sanitizedHTML = this.sanitizeText(htmlContent);
-      
-      // Better HTML to text conversion preserving more structure
-      let text = sanitizedHTML
-        // Preserve paragraph breaks
-        .replace(/<\/p>/g, '\n\n')
-        .replace(/<p[^>]*>/g, '')
-        // Preserve line breaks
-        .replace(/<br\s*\/?>/g, '\n')
-        // Preserve headings with better formatting
-        .replace(/<h[1-6][^>]*>(.*?)<\/h[1-6]>/gi, '\n\n$1\n\n')
-        // Preserve lists
-        .replace(/<li[^>]*>(.*?)<\/li>/gi, '• $1\n')
-        .replace(/<\/ul>|<\/ol>/g, '\n')
-        .replace(/<ul[^>]*>|<ol[^>]*>/g, '')
-        // Preserve bold formatting indicators
-        .replace(/<(strong|b)[^>]*>(.*?)<\/(strong|b)>/gi, '$2')
-        // Preserve italic formatting indicators  
-        .replace(/<(em|i)[^>]*>(.*?)<\/(em|i)>/gi, '$2')
-        // Clean up remaining HTML tags
-        .replace(/<[^>]+>/g, '')
-        // Clean up HTML entities
-        .replace(/&nbsp;/g, ' ')
-        .replace(/&amp;/g, '&')
-        .replace(/&lt;/g, '<')
-        .replace(/&gt;/g, '>')
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        // Clean up excessive whitespace but preserve intentional spacing
-        .replace(/\n\s*\n\s*\n/g, '\n\n')
-        .trim();
-        
-      // If the extracted text is too short, fall back to raw text extraction
-      if (text.length < 100) {
-        const rawText = await WordProcessor.extractText(buffer);
-        text = this.sanitizeText(rawText) || text;
-      } else {
-        // Always sanitize the final text
-        text = this.sanitizeText(text);
+      if (!htmlContent.trim()) {
+        throw new Error('No content could be extracted from the document');
       }
-        
-      return await this.convertTextToPDF(text);
+
+      return await renderHTMLToPDF(htmlContent);
     } catch (error) {
       console.error('DOCX to PDF conversion error:', error);
-      // Fallback to basic text extraction
+      // Fallback to basic text extraction; convertTextToPDF normalizes it and the fonts draw what they can
       try {
         const buffer = await fileToBuffer(file);
-        const rawText = await WordProcessor.extractText(buffer);
-        const sanitizedText = this.sanitizeText(rawText);
-        return await this.convertTextToPDF(sanitizedText);
+        const rawText = await WordProcessor.extractRawText(buffer);
+        return await this.convertTextToPDF(rawText);
       } catch (fallbackError) {
         console.error('Fallback DOCX extraction failed:', fallbackError);
         throw error;
@@ -349,15 +719,14 @@ export class DocumentProcessor {
 
   static async convertTextToPDF(text: string): Promise<ArrayBuffer> {
     try {
-      // Sanitize the input text first
-      const sanitizedText = this.sanitizeText(text);
+      // Normalize only; characters the embedded fonts cannot draw are handled by the font set
+      const sanitizedText = this.sanitizeText(text, 'normalize');
       
       // Create a better formatted PDF from text using PDF-lib
-      const { PDFDocument, StandardFonts, rgb } = await import('pdf-lib');
+      const { PDFDocument, rgb } = await import('pdf-lib');
       
       const pdfDoc = await PDFDocument.create();
-      const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-      const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+      const fonts = await PDFFontSet.embed(pdfDoc, sanitizedText);
       
       // Better page dimensions and margins for script formatting
       const pageWidth = 612; // US Letter width in points (8.5")
@@ -387,19 +756,25 @@ export class DocumentProcessor {
         
         words.forEach(word => {
           const testLine = currentLine ? `${currentLine} ${word}` : word;
-          const textWidth = font.widthOfTextAtSize(testLine, fontSize);
+          const textWidth = fonts.widthOfTextAtSize(testLine, fontSize);
           
           if (textWidth <= contentWidth) {
             currentLine = testLine;
-          } else {
-            if (currentLine) {
+            return;
+          }
+
+          if (currentLine) {
+            wrappedLines.push(currentLine);
+          }
+
+          // Break words wider than the line (and unspaced CJK text) at character boundaries
+          currentLine = '';
+          for (const char of word) {
+            if (currentLine && fonts.widthOfTextAtSize(currentLine + char, fontSize) > contentWidth) {
               wrappedLines.push(currentLine);
-              currentLine = word;
-            } else {
-              // Word is too long, split it
-              wrappedLines.push(word.substring(0, 50) + '-');
-              currentLine = word.substring(50);
+              currentLine = '';
             }
+            currentLine += char;
           }
         });
         
@@ -417,15 +792,14 @@ export class DocumentProcessor {
           const yPosition = pageHeight - topMargin - (index * lineHeight);
           
           // Basic formatting detection
-          const isTitle = line.trim().toUpperCase() === line.trim() && line.trim().length > 0 && line.trim().length < 50;
-          const currentFont = isTitle ? boldFont : font;
+          const isTitle = line.trim().toUpperCase() === line.trim() && /\p{Lu}/u.test(line) && line.trim().length < 50;
           const currentFontSize = isTitle ? fontSize + 2 : fontSize;
           
-          page.drawText(line, {
+          fonts.drawText(page, line, {
             x: leftMargin,
             y: yPosition,
             size: currentFontSize,
-            font: currentFont,
+            bold: isTitle,
             color: rgb(0, 0, 0),
           });
         });
@@ -433,11 +807,10 @@ export class DocumentProcessor {
         // Add page numbers
         const pageNumber = Math.floor(i / linesPerPage) + 1;
         const totalPages = Math.ceil(wrappedLines.length / linesPerPage);
-        page.drawText(`Page ${pageNumber} of ${totalPages}`, {
+        fonts.drawText(page, `Page ${pageNumber} of ${totalPages}`, {
           x: pageWidth - rightMargin - 80,
           y: bottomMargin / 2,
           size: 10,
-          font,
           color: rgb(0.5, 0.5, 0.5),
         });
       }
@@ -450,8 +823,28 @@ export class DocumentProcessor {
     }
   }
 
-  static sanitizeText(text: string): string {
+  /**
+   * Clean up extracted text. 'winansi' also folds or removes everything the standard
+   * PDF fonts cannot encode; 'normalize' keeps all printable characters.
+   */
+  static sanitizeText(text: string, mode: 'winansi' | 'normalize' = 'winansi'): string {
     if (!text) return '';
+
+    if (mode === 'normalize') {
+      return text
+        .normalize('NFC')
+        .replace(/\t/g, '    ')
+        // Zero-width joiners stay: emoji sequences and Arabic/Indic shaping need them
+        .replace(/[\u200B\u2060\uFEFF]/g, '')
+        .replace(/\u00A0/g, ' ')
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, '')
+        .replace(/\r\n?/g, '\n')
+        .replace(/[\u2028\u2029]/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .replace(/[ \t]+$/gm, '')
+        .replace(/^[ \t]+/gm, '')
+        .trim();
+    }
     
     // Comprehensive sanitization for WinAnsi encoding compatibility
     return text
@@ -502,28 +895,6 @@ export class DocumentProcessor {
       .trim();
   }
 
-  static formatCSVForPDF(csvText: string): string {
-    const sanitizedText = this.sanitizeText(csvText);
-    const lines = sanitizedText.split('\n');
-    const formattedLines: string[] = [];
-    
-    lines.forEach((line, index) => {
-      if (line.trim()) {
-        // Convert CSV to a more readable table format
-        const cells = line.split(',').map(cell => cell.trim().replace(/"/g, ''));
-        const formattedLine = cells.join(' | ');
-        formattedLines.push(formattedLine);
-        
-        // Add a separator line after the header
-        if (index === 0 && cells.length > 1) {
-          formattedLines.push('-'.repeat(formattedLine.length));
-        }
-      }
-    });
-    
-    return formattedLines.join('\n');
-  }
-
   static getSupportedMergeFormats(): DocumentFormat[] {
     return ['pdf', 'docx', 'xlsx', 'txt', 'csv', 'pptx'];
   }
@@ -545,15 +916,16 @@ export class DocumentProcessor {
   static async validateDocument(
     file: File, 
     format: DocumentFormat,
-    options: { onProgress?: (progress: number) => void } = {}
-  ): Promise<{ valid: boolean; error?: string }> {
+    options: { onProgress?: (progress: number) => void; signal?: AbortSignal; password?: string } = {}
+  ): Promise<{ valid: boolean; error?: string; passwordRequired?: boolean }> {
     try {
+      ErrorHandler.throwIfAborted(options.signal);
       const buffer = await fileToBuffer(file);
       options.onProgress?.(0.3);
       
       switch (format) {
         case 'pdf':
-          return await PDFProcessor.validatePDFStructure(buffer);
+          return await PDFProcessor.validatePDFStructure(buffer, options.password);
         case 'pptx':
           return await PowerPointProcessor.validatePowerPointStructure(buffer);
         case 'docx':
@@ -569,6 +941,7 @@ export class DocumentProcessor {
           return { valid: false, error: `Unsupported format: ${format}` };
       }
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       return {
         valid: false,
         error: `Validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
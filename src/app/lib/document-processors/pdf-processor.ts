@@ -1,10 +1,31 @@
-import { PDFDocument } from 'pdf-lib';
-import { DocumentMetadata, ProcessorResult } from '@/app/types';
+import { degrees, PDFDocument, PDFPage, rgb } from 'pdf-lib';
+import {
+  BatesOptions,
+  DocumentMetadata,
+  MergeOptions,
+  PageSource,
+  PDFEncryptionOptions,
+  PDFOptimizationReport,
+  ProcessorResult,
+  WatermarkOptions
+} from '@/app/types';
 import { FileSizeUtils } from '@/app/lib/utils/chunk-processor';
+import { ErrorHandler } from '@/app/lib/utils/error-handler';
+import { stampBatesNumbers } from '@/app/lib/utils/pdf-bates';
+import { PDFOutlineNode, readOutline, remapOutlinePages, writeOutline } from '@/app/lib/utils/pdf-outline';
+import { parsePageSelection } from '@/app/lib/utils/page-range';
+import { decryptPDF, encryptPDF, isPDFEncrypted, PDFPasswordError } from '@/app/lib/utils/pdf-encryption';
+import { PDFFontSet } from '@/app/lib/utils/pdf-fonts';
+import { optimizePDF } from '@/app/lib/utils/pdf-optimizer';
+import { displayFrame, PageStamps, stampPages } from '@/app/lib/utils/pdf-stamps';
+import { insertTableOfContents, TableOfContentsEntry } from '@/app/lib/utils/pdf-toc';
+import { addPDFSeparatorPage, SeparatorSheet, separatorSheetText, withMergedPageCount } from '@/app/lib/utils/separator-pages';
+import { drawPDFWatermark } from '@/app/lib/utils/watermark';
 
 // Dynamically import pdf-parse to avoid SSR issues
 const getPdfParse = async () => {
-  if (typeof window !== 'undefined') {
+  // `self` exists on the main thread and in Web Workers, but not during SSR
+  if (typeof self !== 'undefined') {
     try {
       const pdfParse = await import('pdf-parse');
       return pdfParse.default;
@@ -58,10 +79,27 @@ export class PDFProcessor {
     options: {
       preserveMetadata?: boolean;
       includeBookmarks?: boolean;
+      /** Names for the top-level outline entries, one per document */
+      documentNames?: string[];
+      /** Page selections such as "1-3, 7, 10-end", one per document (empty = all pages) */
+      pageSelections?: (string | undefined)[];
+      /** Header and footer drawn on every page */
+      stamps?: PageStamps;
+      /** Start with contents pages listing each document's first page */
+      tableOfContents?: boolean;
+      /** Title sheets placed before the documents, one per document (undefined = none) */
+      separators?: (SeparatorSheet | undefined)[];
+      /** Number every page, after the contents pages are added */
+      bates?: BatesOptions;
+      signal?: AbortSignal;
     } = {}
   ): Promise<ProcessorResult> {
     try {
       const mergedPdf = await PDFDocument.create();
+      const outline: PDFOutlineNode[] = [];
+      const contents: TableOfContentsEntry[] = [];
+      const pageSources: (string | undefined)[] = [];
+      const pageDocuments: (number | undefined)[] = [];
       
       // Set metadata for merged document
       if (options.preserveMetadata) {
@@ -71,20 +109,75 @@ export class PDFProcessor {
         mergedPdf.setModificationDate(new Date());
       }
 
-      for (const buffer of documents) {
+      const sheets = (options.separators ?? []).filter((sheet): sheet is SeparatorSheet => sheet !== undefined);
+      const separatorFonts = sheets.length > 0 ? await PDFFontSet.embed(mergedPdf, separatorSheetText(sheets)) : null;
+
+      for (const [index, buffer] of documents.entries()) {
+        ErrorHandler.throwIfAborted(options.signal);
         try {
           const pdfDoc = await PDFDocument.load(buffer);
-          const pages = await mergedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
+          const selection = options.pageSelections?.[index];
+          const pageIndices = selection
+            ? parsePageSelection(selection, pdfDoc.getPageCount())
+            : pdfDoc.getPageIndices();
+          const pages = await mergedPdf.copyPages(pdfDoc, pageIndices);
+          const title = options.documentNames?.[index] || pdfDoc.getTitle() || `Document ${index + 1}`;
+
+          // The separator sheet takes the size of the document's first page as displayed
+          const sectionStart = mergedPdf.getPageCount();
+          const separator = options.separators?.[index];
+          if (separator && separatorFonts && pages.length > 0) {
+            const { width, height } = displayFrame(pages[0]);
+            addPDFSeparatorPage(mergedPdf, withMergedPageCount(separator, pages.length), separatorFonts, [width, height]);
+            pageSources.push(undefined);
+            pageDocuments.push(undefined);
+          }
+          const firstPage = mergedPdf.getPageCount();
           
           pages.forEach(page => {
             mergedPdf.addPage(page);
+            pageSources.push(title);
+            pageDocuments.push(index);
           });
+          if (pages.length > 0) {
+            contents.push({ title, pageIndex: sectionStart });
+          }
+
+          if (options.includeBookmarks && pages.length > 0) {
+            // Source bookmarks follow their page to its first position in the merge
+            const mergedPositions = new Map<number, number>();
+            pageIndices.forEach((pageIndex, position) => {
+              if (!mergedPositions.has(pageIndex)) mergedPositions.set(pageIndex, firstPage + position);
+            });
+
+            outline.push({
+              title,
+              pageIndex: sectionStart,
+              children: remapOutlinePages(readOutline(pdfDoc), pageIndex => mergedPositions.get(pageIndex) ?? null),
+            });
+          }
         } catch (error) {
+          if (ErrorHandler.isAbortError(error)) throw error;
           console.error('Error processing PDF document:', error);
           continue; // Skip problematic documents
         }
       }
 
+      ErrorHandler.throwIfAborted(options.signal);
+      if (options.includeBookmarks) {
+        writeOutline(mergedPdf, outline);
+      }
+      if (options.tableOfContents) {
+        // Contents pages have no source
+        const contentsPages = await insertTableOfContents(mergedPdf, contents);
+        pageSources.unshift(...new Array<undefined>(contentsPages).fill(undefined));
+        pageDocuments.unshift(...new Array<undefined>(contentsPages).fill(undefined));
+      }
+      if (options.stamps) {
+        await stampPages(mergedPdf, options.stamps, pageSources);
+      }
+      const batesRanges = options.bates ? await stampBatesNumbers(mergedPdf, options.bates, pageSources, pageDocuments) : undefined;
+
       const pdfBytes = await mergedPdf.save();
       
       return {
@@ -93,9 +186,11 @@ export class PDFProcessor {
         metadata: {
           pageCount: mergedPdf.getPageCount(),
           title: 'Merged Document'
-        }
+        },
+        batesRanges,
       };
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('PDF merge error:', error);
       return {
         success: false,
@@ -104,6 +199,186 @@ export class PDFProcessor {
     }
   }
 
+  /**
+   * Build a PDF from an explicit page list: any page of any document, in any order, rotated,
+   * with blank or labelled pages in between. Each document's bookmark and contents entry point at
+   * the start of its section: its separator sheet, a labelled page right before it, or its first page.
+   */
+  static async assemblePages(
+    documents: ArrayBuffer[],
+    pages: PageSource[],
+    options: {
+      preserveMetadata?: boolean;
+      includeBookmarks?: boolean;
+      documentNames?: string[];
+      stamps?: PageStamps;
+      tableOfContents?: boolean;
+      /** Title sheets placed before each document's first planned page (undefined = none) */
+      separators?: (SeparatorSheet | undefined)[];
+      bates?: BatesOptions;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<ProcessorResult> {
+    try {
+      if (pages.length === 0) {
+        throw new Error('The page plan has no pages');
+      }
+
+      const assembledPdf = await PDFDocument.create();
+      if (options.preserveMetadata) {
+        assembledPdf.setTitle('Merged Document');
+        assembledPdf.setAuthor('DocMerger');
+        assembledPdf.setCreationDate(new Date());
+        assembledPdf.setModificationDate(new Date());
+      }
+
+      const labels = pages.flatMap(page => (page.label ? [page.label] : []));
+      const sheets = (options.separators ?? []).filter((sheet): sheet is SeparatorSheet => sheet !== undefined);
+      const fonts = labels.length > 0 || sheets.length > 0
+        ? await PDFFontSet.embed(assembledPdf, [...labels, separatorSheetText(sheets)].join('\n'))
+        : null;
+
+      // Copy every document's planned pages in one pass, then hand them out in plan order
+      const sources: PDFDocument[] = [];
+      const copiedPages = new Map<number, PDFPage[]>();
+      for (const [documentIndex, buffer] of documents.entries()) {
+        ErrorHandler.throwIfAborted(options.signal);
+        const pdfDoc = await PDFDocument.load(buffer);
+        sources.push(pdfDoc);
+
+        const pageIndices = pages
+          .filter(page => page.documentIndex === documentIndex)
+          .map(page => page.pageIndex ?? 0);
+        const outOfRange = pageIndices.find(pageIndex => pageIndex < 0 || pageIndex >= pdfDoc.getPageCount());
+        if (outOfRange !== undefined) {
+          const name = options.documentNames?.[documentIndex] ?? `Document ${documentIndex + 1}`;
+          throw new Error(`${name} has no page ${outOfRange + 1}`);
+        }
+        copiedPages.set(documentIndex, await assembledPdf.copyPages(pdfDoc, pageIndices));
+      }
+
+      const titleOf = (documentIndex: number) =>
+        options.documentNames?.[documentIndex] || sources[documentIndex].getTitle() || `Document ${documentIndex + 1}`;
+
+      // Blank and separator pages have no source, and neither do contents pages
+      const pageSources: (string | undefined)[] = [];
+      const pageDocuments: (number | undefined)[] = [];
+      const firstPositions = new Map<number, Map<number, number>>();
+      const sectionStarts = new Map<number, number>();
+      let labelledPage: number | null = null; // The page just added, when it is a labelled blank page
+
+      pages.forEach(planned => {
+        ErrorHandler.throwIfAborted(options.signal);
+
+        if (planned.documentIndex === undefined) {
+          const page = assembledPdf.addPage(this.blankPageSize(assembledPdf));
+          if (planned.label && fonts) this.drawPageLabel(page, planned.label, fonts);
+          page.setRotation(degrees((((planned.rotation ?? 0) % 360) + 360) % 360));
+          pageSources.push(undefined);
+          pageDocuments.push(undefined);
+          labelledPage = planned.label ? assembledPdf.getPageCount() - 1 : null;
+          return;
+        }
+
+        const page = copiedPages.get(planned.documentIndex)!.shift()!;
+        const rotation = page.getRotation().angle + (planned.rotation ?? 0);
+        page.setRotation(degrees(((rotation % 360) + 360) % 360));
+
+        // A document's section opens with its separator sheet, sized like its first page as displayed
+        if (!sectionStarts.has(planned.documentIndex)) {
+          const separator = options.separators?.[planned.documentIndex];
+          if (separator && fonts) {
+            const { width, height } = displayFrame(page);
+            sectionStarts.set(planned.documentIndex, assembledPdf.getPageCount());
+            const pageCount = pages.filter(other => other.documentIndex === planned.documentIndex).length;
+            addPDFSeparatorPage(assembledPdf, withMergedPageCount(separator, pageCount), fonts, [width, height]);
+            pageSources.push(undefined);
+            pageDocuments.push(undefined);
+          } else {
+            sectionStarts.set(planned.documentIndex, labelledPage ?? assembledPdf.getPageCount());
+          }
+        }
+
+        const position = assembledPdf.getPageCount();
+        assembledPdf.addPage(page);
+        pageSources.push(titleOf(planned.documentIndex));
+        pageDocuments.push(planned.documentIndex);
+        labelledPage = null;
+
+        const positions = firstPositions.get(planned.documentIndex) ?? new Map<number, number>();
+        if (!positions.has(planned.pageIndex ?? 0)) positions.set(planned.pageIndex ?? 0, position);
+        firstPositions.set(planned.documentIndex, positions);
+      });
+
+      if (options.includeBookmarks) {
+        const outline: PDFOutlineNode[] = [...firstPositions.entries()]
+          .map(([documentIndex, positions]) => ({
+            title: titleOf(documentIndex),
+            pageIndex: sectionStarts.get(documentIndex)!,
+            children: remapOutlinePages(readOutline(sources[documentIndex]), pageIndex => positions.get(pageIndex) ?? null),
+          }))
+          .sort((a, b) => a.pageIndex - b.pageIndex);
+        writeOutline(assembledPdf, outline);
+      }
+
+      if (options.tableOfContents) {
+        const contents: TableOfContentsEntry[] = [...sectionStarts.entries()]
+          .map(([documentIndex, pageIndex]) => ({ title: titleOf(documentIndex), pageIndex }))
+          .sort((a, b) => a.pageIndex - b.pageIndex);
+        const contentsPages = await insertTableOfContents(assembledPdf, contents);
+        pageSources.unshift(...new Array<undefined>(contentsPages).fill(undefined));
+        pageDocuments.unshift(...new Array<undefined>(contentsPages).fill(undefined));
+      }
+      if (options.stamps) {
+        await stampPages(assembledPdf, options.stamps, pageSources);
+      }
+      const batesRanges = options.bates ? await stampBatesNumbers(assembledPdf, options.bates, pageSources, pageDocuments) : undefined;
+
+      const pdfBytes = await assembledPdf.save();
+      return {
+        success: true,
+        data: pdfBytes,
+        metadata: {
+          pageCount: assembledPdf.getPageCount(),
+          title: 'Merged Document'
+        },
+        batesRanges,
+      };
+    } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
+      console.error('PDF page assembly error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown PDF processing error'
+      };
+    }
+  }
+
+  // Centered bold text, shrunk to fit the page width
+  private static drawPageLabel(page: PDFPage, label: string, fonts: PDFFontSet): void {
+    const { width, height } = page.getSize();
+    const textWidth = fonts.widthOfTextAtSize(label, 1, { bold: true });
+    const size = Math.min(28, (width - 144) / Math.max(textWidth, 1));
+
+    fonts.drawText(page, label, {
+      x: (width - textWidth * size) / 2,
+      y: height / 2 - size / 3,
+      size,
+      bold: true,
+      color: rgb(0.15, 0.15, 0.15),
+    });
+  }
+
+  // A blank page matches the page before it as displayed, or US Letter at the start
+  private static blankPageSize(pdfDoc: PDFDocument): [number, number] {
+    const pageCount = pdfDoc.getPageCount();
+    if (pageCount === 0) return [612, 792];
+
+    const previous = pdfDoc.getPage(pageCount - 1);
+    const { width, height } = previous.getSize();
+    return previous.getRotation().angle % 180 === 0 ? [width, height] : [height, width];
+  }
+
   static async extractText(buffer: ArrayBuffer): Promise<string> {
     try {
       const pdfParse = await getPdfParse();
@@ -173,6 +448,11 @@ export class PDFProcessor {
     }
   }
 
+  static async getPageCount(buffer: ArrayBuffer): Promise<number> {
+    const pdfDoc = await PDFDocument.load(buffer);
+    return pdfDoc.getPageCount();
+  }
+
   static async splitPDF(buffer: ArrayBuffer, pageRanges: number[][]): Promise<ArrayBuffer[]> {
     try {
       const pdfDoc = await PDFDocument.load(buffer);
@@ -222,10 +502,55 @@ export class PDFProcessor {
     }
   }
 
+  /**
+   * Decrypt a password-protected PDF so pdf-lib can load it; other PDFs are returned as they are
+   * The empty password opens files that only restrict permissions.
+   */
+  static async unlockPDF(buffer: ArrayBuffer, password = ''): Promise<ArrayBuffer> {
+    const bytes = new Uint8Array(buffer);
+    if (!isPDFEncrypted(bytes)) return buffer;
+
+    const decrypted = await decryptPDF(bytes, password);
+    return decrypted.buffer.slice(decrypted.byteOffset, decrypted.byteOffset + decrypted.byteLength) as ArrayBuffer;
+  }
+
+  /**
+   * Draw a text or image watermark over the pages the watermark's range selects (all by default)
+   */
+  static async watermarkPDF(data: Uint8Array | ArrayBuffer, watermark: WatermarkOptions): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+    const pageIndices = parsePageSelection(watermark.pages ?? '', pdfDoc.getPageCount());
+    await drawPDFWatermark(pdfDoc, watermark, pageIndices);
+    return await pdfDoc.save();
+  }
+
+  /**
+   * Shrink a PDF for the merge quality setting: drop unused objects, share duplicate fonts and
+   * images, and on medium and low quality downsample and recompress images
+   */
+  static async optimizePDF(
+    data: Uint8Array | ArrayBuffer,
+    quality: MergeOptions['quality'],
+    signal?: AbortSignal
+  ): Promise<{ data: Uint8Array; report: PDFOptimizationReport }> {
+    return await optimizePDF(data, quality, signal);
+  }
+
+  /**
+   * Password-protect a generated PDF (AES-256)
+   */
+  static async protectPDF(data: Uint8Array | ArrayBuffer, options: PDFEncryptionOptions): Promise<Uint8Array> {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    return encryptPDF(bytes, options);
+  }
+
   /**
    * Validate PDF file structure
    */
-  static async validatePDFStructure(buffer: ArrayBuffer): Promise<{ valid: boolean; error?: string }> {
+  static async validatePDFStructure(
+    buffer: ArrayBuffer,
+    password?: string
+  ): Promise<{ valid: boolean; error?: string; passwordRequired?: boolean }> {
     try {
       // Check PDF header
       const header = new Uint8Array(buffer.slice(0, 8));
@@ -236,10 +561,13 @@ export class PDFProcessor {
       }
 
       // Try to load with pdf-lib
-      await PDFDocument.load(buffer);
+      await PDFDocument.load(await this.unlockPDF(buffer, password));
       
       return { valid: true };
     } catch (error) {
+      if (error instanceof PDFPasswordError) {
+        return { valid: false, error: error.message, passwordRequired: true };
+      }
       return {
         valid: false,
         error: `Invalid PDF structure: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1,10 +1,24 @@
 import { DocumentMetadata, ProcessorResult } from '@/app/types';
 import { FileSizeUtils } from '@/app/lib/utils/chunk-processor';
 import { ErrorHandler } from '@/app/lib/utils/error-handler';
+import JSZip from 'jszip';
+import {
+  ContentTypes,
+  OOXMLPartImporter,
+  escapeXml,
+  getMainPartPath,
+  getNextRelationshipId,
+  isRelationshipType,
+  readRelationships,
+  relativeTarget,
+  resolveTarget,
+  writeRelationships,
+} from '@/app/lib/utils/ooxml-utils';
 
 // Dynamically import PowerPoint libraries to avoid SSR issues
 const getPptxParser = async () => {
-  if (typeof window !== 'undefined') {
+  // `self` exists on the main thread and in Web Workers, but not during SSR
+  if (typeof self !== 'undefined') {
     try {
       const pptxParser = await import('pptx-parser');
       return pptxParser.default;
@@ -16,9 +30,11 @@ const getPptxParser = async () => {
   return null;
 };
 
-// Note: PowerPoint generation is complex and requires specialized libraries
-// For now, we'll focus on reading/parsing PowerPoint files
-// Generation will convert to other formats like PDF or text
+const OFFICE_RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const SLIDE_MASTER_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml';
+
+// Parsing relies on pptx-parser; merging works on the OOXML package directly
+// through JSZip so slides keep their layouts, masters and media
 
 export class PowerPointProcessor {
   static async analyzeDocument(buffer: ArrayBuffer): Promise<DocumentMetadata> {
@@ -63,82 +79,69 @@ export class PowerPointProcessor {
   }
 
   static async mergePowerPointPresentations(
-    documents: ArrayBuffer[]
+    documents: ArrayBuffer[],
+    options: {
+      /** Names for the sections appended decks get, when the first deck uses sections */
+      documentNames?: string[];
+      signal?: AbortSignal;
+    } = {}
   ): Promise<ProcessorResult> {
     try {
-      // For now, PowerPoint merging will extract text content and merge as a text-based format
-      // This is a limitation without a proper browser-compatible PowerPoint generation library
-      
-      const parser = await getPptxParser();
-      if (!parser) {
-        return {
-          success: false,
-          error: 'PowerPoint processing requires converting to PDF format. Please use the PDF conversion option instead.'
-        };
-      }
-
-      let mergedContent = '';
+      // The first deck that loads becomes the base package; slide size, theme
+      // defaults and presentation properties are taken from it
+      let base: { zip: JSZip; types: ContentTypes; presentationPath: string } | null = null;
       let totalSlides = 0;
 
       for (let docIndex = 0; docIndex < documents.length; docIndex++) {
-        const buffer = documents[docIndex];
-        
+        ErrorHandler.throwIfAborted(options.signal);
         try {
-          const result = await parser.parseBuffer(buffer);
-          const slides = result.slides || [];
+          const zip = await JSZip.loadAsync(documents[docIndex]);
+          const types = await ContentTypes.load(zip);
+          const presentationPath = await getMainPartPath(zip);
 
-          if (docIndex > 0) {
-            mergedContent += `\n\n=== Document ${docIndex + 1} ===\n\n`;
+          if (!base) {
+            base = { zip, types, presentationPath };
+            totalSlides += (await this.getSlidePaths(zip, presentationPath)).length;
+            continue;
           }
 
-          slides.forEach((slideData: { title?: string; text?: string; bullets?: string[] }, slideIndex: number) => {
-            mergedContent += `\n--- Slide ${slideIndex + 1} ---\n`;
-            
-            if (slideData.title) {
-              mergedContent += `Title: ${slideData.title}\n`;
-            }
-            
-            if (slideData.text) {
-              mergedContent += slideData.text + '\n';
-            }
-            
-            if (slideData.bullets && Array.isArray(slideData.bullets)) {
-              slideData.bullets.forEach((bullet: string) => {
-                mergedContent += `• ${bullet}\n`;
-              });
-            }
-            
-            mergedContent += '\n';
-            totalSlides++;
-          });
-
+          const sectionName = options.documentNames?.[docIndex] || `Presentation ${docIndex + 1}`;
+          totalSlides += await this.appendPresentation(base, { zip, types, presentationPath }, sectionName);
         } catch (docError) {
+          if (ErrorHandler.isAbortError(docError)) throw docError;
           console.error(`Error processing PowerPoint document ${docIndex + 1}:`, docError);
-          mergedContent += `\n[Error: Could not process document ${docIndex + 1}]\n`;
+          continue; // Skip problematic documents
         }
       }
 
-      if (totalSlides === 0) {
+      if (!base || totalSlides === 0) {
         return {
           success: false,
           error: 'No slides found in any document'
         };
       }
 
-      // Convert merged text content to a text file
-      const encoder = new TextEncoder();
-      const textData = encoder.encode(mergedContent);
+      ErrorHandler.throwIfAborted(options.signal);
+      await this.updateAppProperties(base.zip, totalSlides);
+      base.types.save(base.zip);
+
+      const data = await base.zip.generateAsync({
+        type: 'uint8array',
+        compression: 'DEFLATE',
+        mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      });
 
       return {
         success: true,
-        data: textData.buffer,
+        data,
         metadata: {
           slideCount: totalSlides,
-          title: 'Merged PowerPoint Content (Text Format)'
+          title: 'Merged PowerPoint Presentation'
         }
       };
 
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('PowerPoint merge error:', error);
       const friendlyError = ErrorHandler.createUserFriendlyError(error, 'powerpoint-merge');
       return {
@@ -148,40 +151,217 @@ export class PowerPointProcessor {
     }
   }
 
+  /**
+   * Copy every slide of a source deck (with its layouts, masters, themes and
+   * media) into the base package and register it in presentation.xml. When the
+   * base deck is divided into sections, the slides get a section of their own.
+   * Returns the number of slides appended.
+   */
+  private static async appendPresentation(
+    base: { zip: JSZip; types: ContentTypes; presentationPath: string },
+    source: { zip: JSZip; types: ContentTypes; presentationPath: string },
+    sectionName: string
+  ): Promise<number> {
+    const importer = new OOXMLPartImporter(source.zip, source.types, base.zip, base.types, {
+      // Notes and comments hang off presentation-level parts (notes master,
+      // comment authors) that a package may only have one of
+      skipRelationship: rel =>
+        isRelationshipType(rel, 'notesSlide') ||
+        isRelationshipType(rel, 'comments') ||
+        isRelationshipType(rel, 'commentAuthors'),
+    });
+
+    const sourceSlides = await this.getSlidePaths(source.zip, source.presentationPath);
+    const importedSlides: string[] = [];
+    for (const slidePath of sourceSlides) {
+      importedSlides.push(await importer.importPart(slidePath));
+    }
+
+    if (importedSlides.length === 0) return 0;
+
+    const importedMasters = [...importer.getImportedParts().values()]
+      .filter(partPath => base.types.getContentType(partPath) === SLIDE_MASTER_CONTENT_TYPE);
+
+    const presentationRels = await readRelationships(base.zip, base.presentationPath);
+    let presentationXml = await base.zip.file(base.presentationPath)!.async('string');
+    let nextMasterId = await this.getMaxMasterOrLayoutId(base.zip, base.presentationPath, presentationXml) + 1;
+
+    const masterEntries: string[] = [];
+    for (const masterPath of importedMasters) {
+      // Slide master and layout IDs share one ID space across the whole presentation
+      const masterXml = await base.zip.file(masterPath)!.async('string');
+      base.zip.file(masterPath, masterXml.replace(
+        /(<p:sldLayoutId\b[^>]*?\sid=")(\d+)(")/g,
+        (_match, prefix: string, _id: string, suffix: string) => `${prefix}${nextMasterId++}${suffix}`
+      ));
+
+      const rId = getNextRelationshipId(presentationRels);
+      presentationRels.push({
+        id: rId,
+        type: `${OFFICE_RELATIONSHIPS_NAMESPACE}/slideMaster`,
+        target: relativeTarget(base.presentationPath, masterPath),
+      });
+      masterEntries.push(`<p:sldMasterId id="${nextMasterId++}" r:id="${rId}"/>`);
+    }
+
+    let nextSlideId = Math.max(
+      255,
+      ...[...presentationXml.matchAll(/<p:sldId\b[^>]*?\sid="(\d+)"/g)].map(match => parseInt(match[1], 10))
+    ) + 1;
+
+    const slideIds: number[] = [];
+    const slideEntries = importedSlides.map(slidePath => {
+      const rId = getNextRelationshipId(presentationRels);
+      presentationRels.push({
+        id: rId,
+        type: `${OFFICE_RELATIONSHIPS_NAMESPACE}/slide`,
+        target: relativeTarget(base.presentationPath, slidePath),
+      });
+      slideIds.push(nextSlideId);
+      return `<p:sldId id="${nextSlideId++}" r:id="${rId}"/>`;
+    });
+
+    presentationXml = this.appendToList(presentationXml, 'sldMasterIdLst', masterEntries.join(''), '<p:notesMasterIdLst');
+    presentationXml = this.appendToList(presentationXml, 'sldIdLst', slideEntries.join(''), '<p:sldSz');
+    presentationXml = this.appendSection(presentationXml, sectionName, slideIds);
+
+    base.zip.file(base.presentationPath, presentationXml);
+    writeRelationships(base.zip, base.presentationPath, presentationRels);
+
+    return importedSlides.length;
+  }
+
+  /**
+   * Slide part paths in presentation order
+   */
+  private static async getSlidePaths(zip: JSZip, presentationPath: string): Promise<string[]> {
+    const presentationXml = await zip.file(presentationPath)?.async('string');
+    if (!presentationXml) return [];
+
+    const rels = await readRelationships(zip, presentationPath);
+    const slideIdList = /<p:sldIdLst>([\s\S]*?)<\/p:sldIdLst>/.exec(presentationXml)?.[1] ?? '';
+
+    return [...slideIdList.matchAll(/<p:sldId\b[^>]*?\br:id="([^"]+)"/g)]
+      .map(match => rels.find(rel => rel.id === match[1]))
+      .filter((rel): rel is NonNullable<typeof rel> => !!rel)
+      .map(rel => resolveTarget(presentationPath, rel.target))
+      .filter(slidePath => !!zip.file(slidePath));
+  }
+
+  private static async getMaxMasterOrLayoutId(zip: JSZip, presentationPath: string, presentationXml: string): Promise<number> {
+    // IDs below 2^31 are reserved by the spec for these lists
+    let max = 2147483647;
+    for (const match of presentationXml.matchAll(/<p:sldMasterId\b[^>]*?\sid="(\d+)"/g)) {
+      max = Math.max(max, parseInt(match[1], 10));
+    }
+
+    const rels = await readRelationships(zip, presentationPath);
+    for (const rel of rels.filter(r => isRelationshipType(r, 'slideMaster'))) {
+      const masterXml = await zip.file(resolveTarget(presentationPath, rel.target))?.async('string');
+      if (!masterXml) continue;
+      for (const match of masterXml.matchAll(/<p:sldLayoutId\b[^>]*?\sid="(\d+)"/g)) {
+        max = Math.max(max, parseInt(match[1], 10));
+      }
+    }
+    return max;
+  }
+
+  /**
+   * Append entries to a p:* list element, creating it before `insertBefore` when missing
+   */
+  private static appendToList(xml: string, listName: string, entries: string, insertBefore: string): string {
+    if (!entries) return xml;
+
+    const closing = `</p:${listName}>`;
+    if (xml.includes(closing)) {
+      return xml.replace(closing, `${entries}${closing}`);
+    }
+
+    const selfClosing = new RegExp(`<p:${listName}\\s*/>`);
+    if (selfClosing.test(xml)) {
+      return xml.replace(selfClosing, `<p:${listName}>${entries}${closing}`);
+    }
+
+    const element = `<p:${listName}>${entries}${closing}`;
+    const anchors = [insertBefore, '<p:sldSz', '<p:notesSz'];
+    for (const anchor of anchors) {
+      const index = xml.indexOf(anchor);
+      if (index >= 0) {
+        return `${xml.substring(0, index)}${element}${xml.substring(index)}`;
+      }
+    }
+    return xml.replace('</p:presentation>', `${element}</p:presentation>`);
+  }
+
+  /**
+   * Add a section holding the given slides to the deck's section list (PowerPoint 2010's
+   * p14:sectionLst extension). Slides missing from every section make PowerPoint repair the
+   * file; a deck without a section list needs nothing.
+   */
+  private static appendSection(xml: string, name: string, slideIds: number[]): string {
+    const prefix = /<(\w+):sectionLst\b/.exec(xml)?.[1];
+    if (!prefix || slideIds.length === 0) return xml;
+
+    const closing = `</${prefix}:sectionLst>`;
+    if (!xml.includes(closing)) return xml;
+
+    const slides = slideIds.map(id => `<${prefix}:sldId id="${id}"/>`).join('');
+    const section = `<${prefix}:section name="${escapeXml(name)}" id="{${crypto.randomUUID().toUpperCase()}}">`
+      + `<${prefix}:sldIdLst>${slides}</${prefix}:sldIdLst></${prefix}:section>`;
+    return xml.replace(closing, `${section}${closing}`);
+  }
+
+  private static async updateAppProperties(zip: JSZip, slideCount: number): Promise<void> {
+    const appFile = zip.file('docProps/app.xml');
+    if (!appFile) return;
+
+    const appXml = await appFile.async('string');
+    zip.file('docProps/app.xml', appXml.replace(/<Slides>\d+<\/Slides>/, `<Slides>${slideCount}</Slides>`));
+  }
+
   static async extractText(buffer: ArrayBuffer): Promise<string> {
     try {
-      const parser = await getPptxParser();
-      if (!parser) {
+      const slides = await this.extractSlideTexts(buffer);
+      if (!slides) {
         return 'PowerPoint text extraction not available';
       }
 
-      const result = await parser.parseBuffer(buffer);
-      const slides = result.slides || [];
-      
-      let allText = '';
-      slides.forEach((slide: { title?: string; text?: string; bullets?: string[] }, index: number) => {
-        allText += `\n--- Slide ${index + 1} ---\n`;
-        if (slide.title) {
-          allText += `Title: ${slide.title}\n`;
-        }
-        if (slide.text) {
-          allText += slide.text + '\n';
-        }
-        if (slide.bullets && Array.isArray(slide.bullets)) {
-          slide.bullets.forEach((bullet: string) => {
-            allText += `• ${bullet}\n`;
-          });
-        }
-        allText += '\n';
-      });
-
-      return allText.trim();
+      return slides.join('').trim();
     } catch (error) {
       console.error('PowerPoint text extraction error:', error);
       return 'PowerPoint text extraction failed';
     }
   }
 
+  /**
+   * Each slide's text under a "Slide N" heading, or null when no parser is available
+   */
+  static async extractSlideTexts(buffer: ArrayBuffer): Promise<string[] | null> {
+    const parser = await getPptxParser();
+    if (!parser) {
+      return null;
+    }
+
+    const result = await parser.parseBuffer(buffer);
+    const slides = result.slides || [];
+
+    return slides.map((slide: { title?: string; text?: string; bullets?: string[] }, index: number) => {
+      let slideText = `\n--- Slide ${index + 1} ---\n`;
+      if (slide.title) {
+        slideText += `Title: ${slide.title}\n`;
+      }
+      if (slide.text) {
+        slideText += slide.text + '\n';
+      }
+      if (slide.bullets && Array.isArray(slide.bullets)) {
+        slide.bullets.forEach((bullet: string) => {
+          slideText += `• ${bullet}\n`;
+        });
+      }
+      return slideText + '\n';
+    });
+  }
+
   static async generatePreview(buffer: ArrayBuffer): Promise<string> {
     try {
       const metadata = await this.analyzeDocument(buffer);
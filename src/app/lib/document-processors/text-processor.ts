@@ -1,4 +1,16 @@
-import { DocumentMetadata, ProcessorResult } from '@/app/types';
+import { CSVColumnMode, DocumentMetadata, ProcessorResult } from '@/app/types';
+import { ErrorHandler } from '../utils/error-handler';
+import {
+  alignCSVTables,
+  CSVDelimiter,
+  CSVTable,
+  decodeTextBuffer,
+  detectDelimiter,
+  formatCSV,
+  headerKeysMatch,
+  normalizeHeaderName,
+  parseCSVText,
+} from '../utils/csv';
 
 // Utility function to sanitize text and remove problematic Unicode characters for WinAnsi compatibility
 function sanitizeText(text: string): string {
@@ -76,6 +88,7 @@ export class TextProcessor {
       separator?: string;
       includeHeaders?: boolean;
       preserveFormatting?: boolean;
+      signal?: AbortSignal;
     } = {}
   ): Promise<ProcessorResult> {
     try {
@@ -85,6 +98,8 @@ export class TextProcessor {
       let totalWordCount = 0;
 
       documents.forEach((text, index) => {
+        ErrorHandler.throwIfAborted(options.signal);
+
         // Skip empty documents
         if (!text || text.trim().length === 0) {
           return;
@@ -124,6 +139,7 @@ export class TextProcessor {
         }
       };
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('Text merge error:', error);
       return {
         success: false,
@@ -149,7 +165,7 @@ export class TextProcessor {
 
   static async splitByLines(text: string, linesPerSection: number): Promise<string[]> {
     try {
-      const lines = text.split('\n');
+      const lines = text.split(/\r?\n/);
       const sections: string[] = [];
 
       for (let i = 0; i < lines.length; i += linesPerSection) {
@@ -239,60 +255,99 @@ export class TextProcessor {
 }
 
 export class CSVProcessor extends TextProcessor {
-  static async parseCSV(text: string): Promise<string[][]> {
-    try {
-      const lines = text.split('\n');
-      const result: string[][] = [];
-
-      for (const line of lines) {
-        if (line.trim()) {
-          // Simple CSV parsing - for production, use a proper CSV library
-          const fields = line.split(',').map(field => field.trim().replace(/^"|"$/g, ''));
-          result.push(fields);
-        }
-      }
+  /**
+   * Decode CSV bytes, honouring a BOM and falling back to Windows-1252 for non-UTF-8 files
+   */
+  static decodeCSV(buffer: ArrayBuffer): string {
+    return decodeTextBuffer(buffer).text;
+  }
 
-      return result;
+  static detectDelimiter(text: string): CSVDelimiter {
+    return detectDelimiter(text);
+  }
+
+  /**
+   * Parse CSV records (RFC 4180 quoting), detecting the delimiter unless one is given
+   */
+  static async parseCSV(text: string, options: { delimiter?: CSVDelimiter } = {}): Promise<string[][]> {
+    try {
+      return parseCSVText(text, options.delimiter).rows;
     } catch (error) {
       console.error('CSV parsing error:', error);
       throw error;
     }
   }
 
+  static stringifyCSV(rows: string[][], options: { delimiter?: CSVDelimiter } = {}): string {
+    return formatCSV(rows, options.delimiter);
+  }
+
   static async mergeCSVFiles(
     documents: string[],
     options: {
       includeHeaders?: boolean;
       skipDuplicateHeaders?: boolean;
+      /** Output delimiter; defaults to the one detected in the first file */
+      delimiter?: CSVDelimiter;
+      /** 'union' and 'intersection' match columns by header name and always treat the first row as a header */
+      columnMode?: CSVColumnMode;
+      /** Add a first column naming each row's source file */
+      sourceColumn?: boolean;
+      /** File names for the source column and warnings, in document order */
+      sourceNames?: string[];
+      signal?: AbortSignal;
     } = {}
   ): Promise<ProcessorResult> {
     try {
-      const { includeHeaders = true, skipDuplicateHeaders = true } = options;
+      const { includeHeaders = true, skipDuplicateHeaders = true, columnMode = 'position', sourceColumn = false } = options;
       
-      const mergedRows: string[][] = [];
-      let headerProcessed = false;
-
-      for (const csvText of documents) {
-        const sanitizedCsvText = sanitizeText(csvText);
-        const rows = await this.parseCSV(sanitizedCsvText);
+      const tables: CSVTable[] = [];
+      let outputDelimiter = options.delimiter;
+
+      for (let index = 0; index < documents.length; index++) {
+        ErrorHandler.throwIfAborted(options.signal);
+        // Each file may use its own delimiter
+        const { rows, delimiter } = parseCSVText(documents[index]);
+        outputDelimiter ??= delimiter;
         
         if (rows.length === 0) continue;
+        tables.push({ name: options.sourceNames?.[index] ?? `File ${index + 1}`, rows });
+      }
 
-        if (includeHeaders && !headerProcessed) {
-          // Include header from first file
-          mergedRows.push(rows[0]);
-          headerProcessed = true;
+      const sourceColumnName = sourceColumn ? this.sourceColumnName(tables) : undefined;
+      const mergedRows: string[][] = [];
+      const warnings: string[] = [];
+
+      if (columnMode === 'position') {
+        let headerProcessed = false;
+
+        for (const table of tables) {
+          const withSource = (row: string[], isHeader: boolean) =>
+            sourceColumnName === undefined ? row : [isHeader ? sourceColumnName : table.name, ...row];
+
+          if (includeHeaders && !headerProcessed) {
+            // Include header from first file
+            mergedRows.push(withSource(table.rows[0], true));
+            headerProcessed = true;
+          } else if (includeHeaders && skipDuplicateHeaders && !headerKeysMatch(table.rows[0], tables[0].rows[0])) {
+            warnings.push(`${table.name}: header differs from ${tables[0].name}; columns were merged by position`);
+          }
+
+          // Add data rows (skip header if not the first file and skipDuplicateHeaders is true)
+          const dataRows = (includeHeaders && skipDuplicateHeaders && headerProcessed) ? table.rows.slice(1) : table.rows;
+          mergedRows.push(...dataRows.map(row => withSource(row, false)));
         }
-
-        // Add data rows (skip header if not the first file and skipDuplicateHeaders is true)
-        const dataRows = (includeHeaders && skipDuplicateHeaders && headerProcessed) ? rows.slice(1) : rows;
-        mergedRows.push(...dataRows);
+      } else if (tables.length > 0) {
+        const aligned = alignCSVTables(tables, columnMode, { sourceColumn: sourceColumnName });
+        if (aligned.header.length === (sourceColumnName === undefined ? 0 : 1)) {
+          throw new Error('The CSV files have no columns in common');
+        }
+        mergedRows.push(aligned.header, ...aligned.rows);
+        warnings.push(...aligned.warnings);
       }
 
       // Convert back to CSV text
-      const mergedCSV = mergedRows.map(row => 
-        row.map(field => `"${field}"`).join(',')
-      ).join('\n');
+      const mergedCSV = formatCSV(mergedRows, outputDelimiter);
 
       const encoder = new TextEncoder();
       const data = encoder.encode(mergedCSV);
@@ -302,9 +357,11 @@ export class CSVProcessor extends TextProcessor {
         data: data.buffer,
         metadata: {
           title: 'Merged CSV Document'
-        }
+        },
+        warnings: warnings.length > 0 ? warnings : undefined,
       };
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('CSV merge error:', error);
       return {
         success: false,
@@ -313,6 +370,16 @@ export class CSVProcessor extends TextProcessor {
     }
   }
 
+  // "Source File", numbered if a file already has a column by that name
+  private static sourceColumnName(tables: CSVTable[]): string {
+    const existing = new Set(tables.flatMap(table => table.rows[0].map(normalizeHeaderName)));
+    let name = 'Source File';
+    for (let suffix = 2; existing.has(normalizeHeaderName(name)); suffix++) {
+      name = `Source File ${suffix}`;
+    }
+    return name;
+  }
+
   static async generatePreview(text: string): Promise<string> {
     try {
       const rows = await this.parseCSV(text);
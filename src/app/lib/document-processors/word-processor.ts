@@ -1,10 +1,86 @@
-import { Document, Packer, Paragraph, TextRun } from 'docx';
+import { Bookmark, BorderStyle, Document, Packer, PageBreak, Paragraph, TextRun } from 'docx';
 import mammoth from 'mammoth';
-import { DocumentMetadata, ProcessorResult } from '@/app/types';
+import JSZip from 'jszip';
+import { DocumentMetadata, ProcessorResult, WatermarkOptions } from '@/app/types';
+import {
+  ContentTypes,
+  OOXMLPartImporter,
+  OOXMLRelationship,
+  escapeXml,
+  getMainPartPath,
+  getNextRelationshipId,
+  isRelationshipType,
+  readRelationships,
+  relativeTarget,
+  replaceOutermostElements,
+  resolveTarget,
+  writeRelationships,
+} from '@/app/lib/utils/ooxml-utils';
+import { ErrorHandler } from '@/app/lib/utils/error-handler';
+import { buildVMLWatermark, readWatermarkImage } from '@/app/lib/utils/watermark';
+import { buildSeparatorXml, SeparatorSheet } from '@/app/lib/utils/separator-pages';
 
-// Utility function to sanitize text and remove problematic Unicode characters for WinAnsi compatibility
-function sanitizeText(text: string): string {
+// Parts that exist once per document and are reconciled instead of copied
+const DOCUMENT_LEVEL_RELATIONSHIPS = [
+  'styles', 'stylesWithEffects', 'numbering', 'settings', 'webSettings', 'fontTable',
+  'theme', 'footnotes', 'endnotes', 'comments', 'commentsExtended', 'commentsIds',
+  'people', 'glossaryDocument', 'customXml',
+];
+
+interface DocxPackage {
+  zip: JSZip;
+  types: ContentTypes;
+  documentPath: string;
+  documentXml: string;
+  rels: OOXMLRelationship[];
+}
+
+const RELATIONSHIP_TYPE_BASE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const HEADER_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml';
+
+// Paragraphs marking where each merged document starts, as "_TocDoc<number>" bookmarks
+const CONTENTS_ANCHOR_PATTERN = /<w:p\b[^>]*>(?:(?!<\/w:p>)[\s\S])*?<w:bookmarkStart\b[^>]*\bw:name="_TocDoc(\d+)"[\s\S]*?<\/w:p>/g;
+
+// Settings that follow w:updateFields in the schema's element order
+const SETTINGS_AFTER_UPDATE_FIELDS = [
+  'w:hdrShapeDefaults', 'w:footnotePr', 'w:endnotePr', 'w:compat', 'w:docVars', 'w:rsids', 'm:mathPr',
+  'w:attachedSchema', 'w:themeFontLang', 'w:clrSchemeMapping', 'w:doNotIncludeSubdocsInStats',
+  'w:doNotAutoCompressPictures', 'w:forceUpgrade', 'w:captions', 'w:readModeInkLockDown', 'w:smartTagType',
+  'sl:schemaLibrary', 'w:shapeDefaults', 'w:doNotEmbedSmartTags', 'w:decimalSymbol', 'w:listSeparator',
+];
+
+// Namespaces a header needs to hold a VML watermark
+const WATERMARK_NAMESPACES: Record<string, string> = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: RELATIONSHIP_TYPE_BASE,
+  v: 'urn:schemas-microsoft-com:vml',
+  o: 'urn:schemas-microsoft-com:office:office',
+};
+
+interface DocxIdCounters {
+  docPr: number;
+  bookmark: number;
+}
+
+// Utility function to sanitize text and remove problematic Unicode characters for WinAnsi compatibility.
+// 'normalize' only cleans up whitespace and invisible characters, for output that can hold any script.
+function sanitizeText(text: string, mode: 'winansi' | 'normalize' = 'winansi'): string {
   if (!text) return '';
+
+  if (mode === 'normalize') {
+    return text
+      .normalize('NFC')
+      .replace(/\t/g, '    ')
+      // Zero-width joiners stay: emoji sequences and Arabic/Indic shaping need them
+      .replace(/[\u200B\u2060\uFEFF]/g, '')
+      .replace(/\u00A0/g, ' ')
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, '')
+      .replace(/\r\n?/g, '\n')
+      .replace(/[\u2028\u2029]/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/[ \t]+$/gm, '')
+      .trim();
+  }
   
   // Comprehensive sanitization for WinAnsi encoding compatibility
   return text
@@ -83,31 +159,35 @@ export class WordProcessor {
       includeHeaders?: boolean;
       includeFooters?: boolean;
       preserveFormatting?: boolean;
+      /** Open with a table of contents listing the documents by these names */
+      tableOfContents?: boolean;
+      documentNames?: string[];
+      /** Title sheets placed before the documents, one per document (undefined = none) */
+      separators?: (SeparatorSheet | undefined)[];
+      signal?: AbortSignal;
     } = {}
   ): Promise<ProcessorResult> {
     try {
       if (options.preserveFormatting) {
-        // For now, if preserveFormatting is requested, recommend PDF conversion
-        return {
-          success: false,
-          error: 'To preserve original formatting, please convert your DOCX files to PDF first and merge them as PDFs. Direct DOCX merging with full formatting preservation is not yet supported.'
-        };
+        return await this.mergeDocxPackages(documents, options);
       }
 
       const paragraphs: Paragraph[] = [];
       let totalWordCount = 0;
 
       for (let i = 0; i < documents.length; i++) {
+        ErrorHandler.throwIfAborted(options.signal);
         const buffer = documents[i];
+        const separator = options.separators?.[i];
         
         try {
           // Try to extract with better formatting preservation
           const htmlResult = await mammoth.convertToHtml({ arrayBuffer: buffer });
-          const html = sanitizeText(htmlResult.value);
+          const html = sanitizeText(htmlResult.value, 'normalize');
           
           // If HTML extraction is successful, try to preserve some formatting
           if (html && html.trim()) {
-            if (i > 0 && options.pageBreaks) {
+            if (i > 0 && (options.pageBreaks || separator)) {
               paragraphs.push(
                 new Paragraph({
                   children: [new TextRun({ text: '', break: 1 })],
@@ -115,9 +195,15 @@ export class WordProcessor {
                 })
               );
             }
+            if (options.tableOfContents) {
+              paragraphs.push(this.contentsAnchor(i));
+            }
+            if (separator) {
+              paragraphs.push(...this.separatorParagraphs(separator));
+            }
 
-            // Add document header if requested
-            if (options.includeHeaders) {
+            // Add document header if requested; a separator sheet already names the document
+            if (options.includeHeaders && !separator) {
               paragraphs.push(
                 new Paragraph({
                   children: [
@@ -140,7 +226,7 @@ export class WordProcessor {
               .replace(/&nbsp;/g, ' ')
               .replace(/&amp;/g, '&')
               .replace(/&lt;/g, '<')
-              .replace(/&gt;/g, '>'));
+              .replace(/&gt;/g, '>'), 'normalize');
 
             const lines = textContent.split('\n').filter(line => line.trim());
             
@@ -148,7 +234,7 @@ export class WordProcessor {
               if (line.trim()) {
                 paragraphs.push(
                   new Paragraph({
-                    children: [new TextRun(sanitizeText(line.trim()))],
+                    children: [new TextRun(sanitizeText(line.trim(), 'normalize'))],
                     spacing: { after: 120 }, // Small spacing between lines
                   })
                 );
@@ -159,9 +245,9 @@ export class WordProcessor {
           } else {
             // Fallback to plain text extraction
             const textResult = await mammoth.extractRawText({ arrayBuffer: buffer });
-            const text = sanitizeText(textResult.value);
+            const text = sanitizeText(textResult.value, 'normalize');
 
-            if (i > 0 && options.pageBreaks) {
+            if (i > 0 && (options.pageBreaks || separator)) {
               paragraphs.push(
                 new Paragraph({
                   children: [new TextRun({ text: '', break: 1 })],
@@ -169,13 +255,19 @@ export class WordProcessor {
                 })
               );
             }
+            if (options.tableOfContents) {
+              paragraphs.push(this.contentsAnchor(i));
+            }
+            if (separator) {
+              paragraphs.push(...this.separatorParagraphs(separator));
+            }
 
             const lines = text.split('\n');
             lines.forEach(line => {
               if (line.trim()) {
                 paragraphs.push(
                   new Paragraph({
-                    children: [new TextRun(sanitizeText(line.trim()))],
+                    children: [new TextRun(sanitizeText(line.trim(), 'normalize'))],
                   })
                 );
               }
@@ -194,6 +286,7 @@ export class WordProcessor {
             );
           }
         } catch (error) {
+          if (ErrorHandler.isAbortError(error)) throw error;
           console.error(`Error processing Word document ${i + 1}:`, error);
           
           // Add error notice in the merged document
@@ -241,11 +334,23 @@ export class WordProcessor {
         }),
       });
 
+      ErrorHandler.throwIfAborted(options.signal);
       const docxBuffer = await Packer.toBuffer(doc);
+      let data: Uint8Array | ArrayBuffer = docxBuffer.buffer as ArrayBuffer;
+
+      if (options.tableOfContents) {
+        const zip = await JSZip.loadAsync(docxBuffer);
+        await this.insertTableOfContents(zip, await getMainPartPath(zip), options.documentNames ?? []);
+        data = await zip.generateAsync({
+          type: 'uint8array',
+          compression: 'DEFLATE',
+          mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        });
+      }
 
       return {
         success: true,
-        data: docxBuffer.buffer as ArrayBuffer,
+        data,
         metadata: {
           wordCount: totalWordCount,
           pageCount: Math.ceil(totalWordCount / 250),
@@ -253,6 +358,7 @@ export class WordProcessor {
         }
       };
     } catch (error) {
+      if (ErrorHandler.isAbortError(error)) throw error;
       console.error('Word merge error:', error);
       return {
         success: false,
@@ -261,6 +367,756 @@ export class WordProcessor {
     }
   }
 
+  /**
+   * Merge DOCX files at the package level: every source body is spliced into
+   * the first document with its styles, numbering, notes, images and other
+   * related parts carried over, and a section break closes each source so it
+   * keeps its own page setup, headers and footers.
+   */
+  private static async mergeDocxPackages(
+    documents: ArrayBuffer[],
+    options: {
+      preserveMetadata?: boolean;
+      pageBreaks?: boolean;
+      includeHeaders?: boolean;
+      tableOfContents?: boolean;
+      documentNames?: string[];
+      separators?: (SeparatorSheet | undefined)[];
+      signal?: AbortSignal;
+    }
+  ): Promise<ProcessorResult> {
+    let base: DocxPackage | null = null;
+    const sections: { content: string; sectPr: string }[] = [];
+    const counters: DocxIdCounters = { docPr: 0, bookmark: 0 };
+    let totalWordCount = 0;
+
+    for (let i = 0; i < documents.length; i++) {
+      ErrorHandler.throwIfAborted(options.signal);
+      try {
+        const source = await this.loadDocxPackage(documents[i]);
+        const { content, sectPr } = this.splitBody(source.documentXml);
+        const separator = options.separators?.[i];
+        let sectionContent = content;
+        let sectionProperties = sectPr;
+
+        if (!base) {
+          base = source;
+          sectionContent = this.renumberDrawingAndBookmarkIds(sectionContent, counters);
+        } else {
+          const imported = await this.importDocxPackage(base, source, { content, sectPr }, counters, i);
+          sectionContent = imported.content;
+          sectionProperties = this.setSectionType(imported.sectPr, options.pageBreaks || separator ? 'nextPage' : 'continuous');
+        }
+
+        if (separator) {
+          sectionContent = `${buildSeparatorXml(separator)}${sectionContent}`;
+        } else if (options.includeHeaders) {
+          sectionContent = `<w:p><w:pPr><w:spacing w:after="200"/></w:pPr><w:r><w:rPr><w:b/><w:sz w:val="28"/></w:rPr><w:t xml:space="preserve">${escapeXml(`=== Document ${i + 1} ===`)}</w:t></w:r></w:p>${sectionContent}`;
+        }
+        if (options.tableOfContents) {
+          const anchorId = counters.bookmark++;
+          sectionContent = `<w:p><w:bookmarkStart w:id="${anchorId}" w:name="_TocDoc${i + 1}"/><w:bookmarkEnd w:id="${anchorId}"/></w:p>${sectionContent}`;
+        }
+
+        sections.push({ content: sectionContent, sectPr: sectionProperties });
+
+        try {
+          const textResult = await mammoth.extractRawText({ arrayBuffer: documents[i] });
+          totalWordCount += textResult.value.split(/\s+/).filter(word => word.length > 0).length;
+        } catch (error) {
+          console.warn(`Could not count words in Word document ${i + 1}:`, error);
+        }
+      } catch (error) {
+        if (ErrorHandler.isAbortError(error)) throw error;
+        console.error(`Error processing Word document ${i + 1}:`, error);
+        continue; // Skip problematic documents
+      }
+    }
+
+    if (!base || sections.length === 0) {
+      return {
+        success: false,
+        error: 'No content found in any document'
+      };
+    }
+
+    // Every section but the last ends in a paragraph carrying its properties;
+    // the last section's properties stay on the body
+    const body = sections.map((section, index) => {
+      if (index === sections.length - 1) return `${section.content}${section.sectPr}`;
+      return section.sectPr
+        ? `${section.content}<w:p><w:pPr>${section.sectPr}</w:pPr></w:p>`
+        : section.content;
+    }).join('');
+
+    const documentXml = base.documentXml.replace(
+      /(<w:body\b[^>]*>)[\s\S]*(<\/w:body>)/,
+      (_match, open: string, close: string) => `${open}${body}${close}`
+    );
+    base.zip.file(base.documentPath, documentXml);
+    writeRelationships(base.zip, base.documentPath, base.rels);
+    if (options.tableOfContents) {
+      await this.insertTableOfContents(base.zip, base.documentPath, options.documentNames ?? []);
+    }
+
+    if (options.preserveMetadata) {
+      await this.updateCoreProperties(base.zip, 'Merged Word Document');
+    }
+
+    ErrorHandler.throwIfAborted(options.signal);
+    base.types.save(base.zip);
+    const data = await base.zip.generateAsync({
+      type: 'uint8array',
+      compression: 'DEFLATE',
+      mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    });
+
+    return {
+      success: true,
+      data,
+      metadata: {
+        wordCount: totalWordCount,
+        pageCount: Math.ceil(totalWordCount / 250),
+        title: 'Merged Word Document'
+      }
+    };
+  }
+
+  // The text-only merge's version of buildSeparatorXml
+  private static separatorParagraphs(sheet: SeparatorSheet): Paragraph[] {
+    return [
+      new Paragraph({
+        children: [new TextRun({ text: sheet.position.toUpperCase(), color: '737373', size: 20 })],
+        spacing: { before: 4000, after: 120 },
+      }),
+      new Paragraph({
+        children: [new TextRun({ text: sheet.name, bold: true, size: 48 })],
+        border: { bottom: { style: BorderStyle.SINGLE, size: 6, space: 8, color: '737373' } },
+        spacing: { after: 240 },
+      }),
+      ...sheet.details.map(detail => new Paragraph({
+        children: [
+          new TextRun({ text: `${detail.label}: `, bold: true, color: '737373' }),
+          new TextRun(detail.value),
+        ],
+        spacing: { after: 60 },
+      })),
+      ...(sheet.note ? sheet.note.split('\n') : []).map(line => new Paragraph({
+        children: [new TextRun({ text: line, italics: true })],
+        spacing: { before: 120, after: 0 },
+      })),
+      new Paragraph({ children: [new PageBreak()] }),
+    ];
+  }
+
+  // Marks where a document starts in the text-only merge; insertTableOfContents fills it in
+  private static contentsAnchor(docIndex: number): Paragraph {
+    return new Paragraph({ children: [new Bookmark({ id: `_TocDoc${docIndex + 1}`, children: [] })] });
+  }
+
+  /**
+   * Replace the "_TocDoc<number>" anchor paragraphs with hidden TC entries and open the body
+   * with a TOC field built from them. Until Word updates the field (it is asked to on opening),
+   * the field shows the document names as links without page numbers.
+   */
+  private static async insertTableOfContents(zip: JSZip, documentPath: string, documentNames: string[]): Promise<void> {
+    const documentXml = await zip.file(documentPath)?.async('string');
+    if (!documentXml) return;
+
+    let bookmarkId = this.getMaxAttribute(documentXml, /<w:bookmark(?:Start|End)\b[^>]*\bw:id="(\d+)"/g);
+    const entries: { anchor: string; title: string }[] = [];
+    // A field's code, closed by its end or by the separator its result follows
+    const fieldCode = (instruction: string, closing: 'end' | 'separate') =>
+      `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve">${escapeXml(instruction)}</w:instrText></w:r>`
+      + `<w:r><w:fldChar w:fldCharType="${closing}"/></w:r>`;
+
+    const anchored = documentXml.replace(CONTENTS_ANCHOR_PATTERN, (_match, number: string) => {
+      const anchor = `_TocDoc${number}`;
+      const title = documentNames[Number(number) - 1] || `Document ${number}`;
+      const id = ++bookmarkId;
+      entries.push({ anchor, title });
+
+      return `<w:p><w:pPr><w:spacing w:before="0" w:after="0"/><w:rPr><w:vanish/></w:rPr></w:pPr>`
+        + `<w:bookmarkStart w:id="${id}" w:name="${anchor}"/><w:bookmarkEnd w:id="${id}"/>`
+        + `${fieldCode(` TC "${title.replace(/"/g, '\\"')}" \\f D \\l 1 `, 'end')}</w:p>`;
+    });
+    if (entries.length === 0) return;
+
+    const tabPosition = this.contentsTabPosition(anchored);
+    const entryParagraphs = entries.map((entry, index) => {
+      const begin = index === 0 ? fieldCode(' TOC \\f D \\l 1-1 \\h \\z ', 'separate') : '';
+      const end = index === entries.length - 1 ? '<w:r><w:fldChar w:fldCharType="end"/></w:r>' : '';
+      return `<w:p><w:pPr><w:tabs><w:tab w:val="right" w:leader="dot" w:pos="${tabPosition}"/></w:tabs></w:pPr>${begin}`
+        + `<w:hyperlink w:anchor="${entry.anchor}" w:history="1"><w:r><w:t xml:space="preserve">${escapeXml(entry.title)}</w:t></w:r></w:hyperlink>${end}</w:p>`;
+    });
+    const contents = `<w:p><w:pPr><w:spacing w:after="240"/></w:pPr><w:r><w:rPr><w:b/><w:sz w:val="32"/></w:rPr><w:t>Contents</w:t></w:r></w:p>`
+      + `${entryParagraphs.join('')}<w:p><w:r><w:br w:type="page"/></w:r></w:p>`;
+
+    zip.file(documentPath, anchored.replace(/<w:body\b[^>]*>/, open => `${open}${contents}`));
+
+    // Ask Word to update fields on opening so the entries get their page numbers
+    const settingsRel = (await readRelationships(zip, documentPath)).find(rel => isRelationshipType(rel, 'settings'));
+    const settingsPath = settingsRel ? resolveTarget(documentPath, settingsRel.target) : null;
+    const settingsXml = settingsPath ? await zip.file(settingsPath)?.async('string') : undefined;
+    if (settingsPath && settingsXml && !/<w:updateFields\b/.test(settingsXml)) {
+      const positions = SETTINGS_AFTER_UPDATE_FIELDS
+        .map(tag => settingsXml.search(new RegExp(`<${tag}\\b`)))
+        .filter(position => position >= 0);
+      const position = positions.length > 0 ? Math.min(...positions) : settingsXml.lastIndexOf('</w:settings>');
+      if (position >= 0) {
+        zip.file(settingsPath, `${settingsXml.slice(0, position)}<w:updateFields w:val="true"/>${settingsXml.slice(position)}`);
+      }
+    }
+  }
+
+  /**
+   * Where the contents' right tab goes: the right margin of the first section, in twips.
+   * Falls back to Letter with one-inch margins when the section gives no page size.
+   */
+  private static contentsTabPosition(documentXml: string): number {
+    // Cut off any earlier properties recorded in a revision
+    const sectPr = (/<w:sectPr\b[\s\S]*?<\/w:sectPr>/.exec(documentXml)?.[0] ?? '').replace(/<w:sectPrChange\b[\s\S]*$/, '');
+    const pgSz = /<w:pgSz\b[^>]*>/.exec(sectPr)?.[0] ?? '';
+    const pgMar = /<w:pgMar\b[^>]*>/.exec(sectPr)?.[0] ?? '';
+    const width = parseInt(this.getAttribute(pgSz, 'w:w') ?? '', 10);
+    const left = parseInt(this.getAttribute(pgMar, 'w:left') ?? this.getAttribute(pgMar, 'w:start') ?? '0', 10) || 0;
+    const right = parseInt(this.getAttribute(pgMar, 'w:right') ?? this.getAttribute(pgMar, 'w:end') ?? '0', 10) || 0;
+
+    return width > left + right ? width - left - right : 9350;
+  }
+
+  /**
+   * Put a watermark behind every page of a DOCX the way Word does: a VML shape in each header.
+   * Sections without a default header get a new one holding only the watermark.
+   */
+  static async addWatermark(data: Uint8Array | ArrayBuffer, watermark: WatermarkOptions): Promise<Uint8Array> {
+    const pkg = await this.loadDocxPackage(data);
+    const { zip, types, documentPath } = pkg;
+
+    let picture: { path: string; width: number; height: number } | undefined;
+    if (watermark.kind === 'image') {
+      if (!watermark.image) throw new Error('Choose a picture for the watermark');
+      const image = await readWatermarkImage(watermark.image);
+      const path = this.getFreePartPath(zip, 'word/media/watermark', image.format === 'png' ? 'png' : 'jpeg');
+      zip.file(path, image.bytes);
+      const extension = path.substring(path.lastIndexOf('.') + 1);
+      if (!types.getDefault(extension)) types.setDefault(extension, `image/${image.format}`);
+      picture = { path, width: image.width, height: image.height };
+    } else if (!watermark.text.trim()) {
+      throw new Error('Enter the watermark text');
+    }
+
+    // A section without a default header uses the previous section's, which gets the watermark
+    // below; only the first section needs a header of its own when it has none
+    const documentXml = replaceOutermostElements(pkg.documentXml, 'w:sectPr', (sectPr, index) => {
+      if (index > 0 || /<w:headerReference\b[^>]*w:type="default"/.test(sectPr)) return sectPr;
+
+      const headerPath = this.getFreePartPath(zip, 'word/header', 'xml');
+      const namespaces = Object.entries(WATERMARK_NAMESPACES).map(([prefix, uri]) => ` xmlns:${prefix}="${uri}"`).join('');
+      zip.file(headerPath, `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:hdr${namespaces}></w:hdr>`);
+      types.setOverride(headerPath, HEADER_CONTENT_TYPE);
+      const headerId = getNextRelationshipId(pkg.rels);
+      pkg.rels.push({ id: headerId, type: `${RELATIONSHIP_TYPE_BASE}/header`, target: relativeTarget(documentPath, headerPath) });
+
+      const reference = `<w:headerReference w:type="default" r:id="${headerId}"/>`;
+      return sectPr.endsWith('/>')
+        ? `${sectPr.slice(0, -2)}>${reference}</w:sectPr>`
+        : sectPr.replace(/^<w:sectPr\b[^>]*>/, open => `${open}${reference}`);
+    });
+
+    zip.file(documentPath, this.declareNamespaces(documentXml, 'w:document', { r: RELATIONSHIP_TYPE_BASE }));
+    writeRelationships(zip, documentPath, pkg.rels);
+
+    for (const rel of pkg.rels.filter(rel => isRelationshipType(rel, 'header') && rel.targetMode !== 'External')) {
+      const headerPath = resolveTarget(documentPath, rel.target);
+      const headerXml = await zip.file(headerPath)?.async('string');
+      if (!headerXml) continue;
+
+      let vmlPicture: { relationshipId: string; width: number; height: number } | undefined;
+      if (picture) {
+        const headerRels = await readRelationships(zip, headerPath);
+        const relationshipId = getNextRelationshipId(headerRels);
+        headerRels.push({ id: relationshipId, type: `${RELATIONSHIP_TYPE_BASE}/image`, target: relativeTarget(headerPath, picture.path) });
+        writeRelationships(zip, headerPath, headerRels);
+        vmlPicture = { relationshipId, width: picture.width, height: picture.height };
+      }
+
+      const marked = this.declareNamespaces(headerXml, 'w:hdr', WATERMARK_NAMESPACES)
+        .replace(/<w:hdr\b[^>]*>/, open => `${open}${buildVMLWatermark(watermark, vmlPicture)}`);
+      zip.file(headerPath, marked);
+    }
+
+    types.save(zip);
+    return await zip.generateAsync({
+      type: 'uint8array',
+      compression: 'DEFLATE',
+      mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    });
+  }
+
+  // Add any namespace declarations the root element is missing
+  private static declareNamespaces(xml: string, rootTag: string, namespaces: Record<string, string>): string {
+    return xml.replace(new RegExp(`<${rootTag}\\b[^>]*>`), open => {
+      const missing = Object.entries(namespaces)
+        .filter(([prefix]) => !open.includes(`xmlns:${prefix}=`))
+        .map(([prefix, uri]) => ` xmlns:${prefix}="${uri}"`)
+        .join('');
+      return missing ? open.replace(/\/?>$/, end => `${missing}${end}`) : open;
+    });
+  }
+
+  // First "<prefix>N.<extension>" not already in the package
+  private static getFreePartPath(zip: JSZip, prefix: string, extension: string): string {
+    let index = 1;
+    while (zip.file(`${prefix}${index}.${extension}`)) index++;
+    return `${prefix}${index}.${extension}`;
+  }
+
+  private static async loadDocxPackage(buffer: ArrayBuffer | Uint8Array): Promise<DocxPackage> {
+    const zip = await JSZip.loadAsync(buffer);
+    const types = await ContentTypes.load(zip);
+    const documentPath = await getMainPartPath(zip);
+    const documentFile = zip.file(documentPath);
+    if (!documentFile) {
+      throw new Error('Invalid Word document: document part not found');
+    }
+
+    return {
+      zip,
+      types,
+      documentPath,
+      documentXml: await documentFile.async('string'),
+      rels: await readRelationships(zip, documentPath),
+    };
+  }
+
+  /**
+   * Bring one source document's definitions into the base package and return
+   * its body XML rewritten against the base's style, numbering, note and
+   * relationship identifiers
+   */
+  private static async importDocxPackage(
+    base: DocxPackage,
+    source: DocxPackage,
+    section: { content: string; sectPr: string },
+    counters: DocxIdCounters,
+    docIndex: number
+  ): Promise<{ content: string; sectPr: string }> {
+    const importer = new OOXMLPartImporter(source.zip, source.types, base.zip, base.types, {
+      skipRelationship: rel => DOCUMENT_LEVEL_RELATIONSHIPS.some(type => isRelationshipType(rel, type)),
+    });
+
+    const sourceDefaultStyle = this.getDefaultParagraphStyle(await this.readPart(source, 'styles'));
+    const baseDefaultStyle = this.getDefaultParagraphStyle(await this.readPart(base, 'styles'));
+    const styleMap = await this.mergeStyles(base, source, docIndex);
+    const numberingMap = await this.mergeNumbering(base, source, importer, styleMap);
+    base.documentXml = this.mergeRootNamespaces(base.documentXml, source.documentXml);
+
+    const transform = async (xml: string, sourcePart: string, targetPart: string, targetRels: OOXMLRelationship[]) => {
+      let result = this.rewriteValues(xml, ['pStyle', 'rStyle', 'tblStyle'], styleMap);
+      result = this.rewriteValues(result, ['numId'], numberingMap);
+      result = this.renumberDrawingAndBookmarkIds(result, counters);
+      result = result
+        .replace(/<w:commentRangeStart\b[^>]*\/>/g, '')
+        .replace(/<w:commentRangeEnd\b[^>]*\/>/g, '')
+        .replace(/<w:commentReference\b[^>]*\/>/g, '');
+      return await this.importRelationshipReferences(result, source, sourcePart, targetPart, targetRels, importer);
+    };
+
+    let content = section.content;
+    for (const kind of ['footnote', 'endnote'] as const) {
+      content = await this.mergeNotes(base, source, kind, content, transform);
+    }
+
+    // Paragraphs without an explicit style use the source's default paragraph
+    // style; pin them to it when the base document's default is a different one
+    if (sourceDefaultStyle && (styleMap.has(sourceDefaultStyle) || sourceDefaultStyle !== baseDefaultStyle)) {
+      content = this.applyParagraphStyle(content, styleMap.get(sourceDefaultStyle) ?? sourceDefaultStyle);
+    }
+
+    return {
+      content: await transform(content, source.documentPath, base.documentPath, base.rels),
+      sectPr: await transform(section.sectPr, source.documentPath, base.documentPath, base.rels),
+    };
+  }
+
+  /**
+   * Copy the relationships referenced by r:* attributes of an XML fragment,
+   * importing their target parts, and rewrite the fragment to the new IDs
+   */
+  private static async importRelationshipReferences(
+    xml: string,
+    source: DocxPackage,
+    sourcePart: string,
+    targetPart: string,
+    targetRels: OOXMLRelationship[],
+    importer: OOXMLPartImporter
+  ): Promise<string> {
+    const sourceRels = sourcePart === source.documentPath
+      ? source.rels
+      : await readRelationships(source.zip, sourcePart);
+
+    const referencedIds = new Set([...xml.matchAll(/\sr:\w+="([^"]+)"/g)].map(match => match[1]));
+    const idMap = new Map<string, string>();
+
+    for (const id of referencedIds) {
+      const rel = sourceRels.find(r => r.id === id);
+      if (!rel) continue;
+
+      let target = rel.target;
+      if (rel.targetMode !== 'External') {
+        const referencedPath = resolveTarget(sourcePart, rel.target);
+        if (!source.zip.file(referencedPath)) continue;
+        target = relativeTarget(targetPart, await importer.importPart(referencedPath));
+      }
+
+      const newId = getNextRelationshipId(targetRels);
+
+      targetRels.push({ ...rel, id: newId, target });
+      idMap.set(id, newId);
+    }
+
+    return xml.replace(/(\sr:\w+=")([^"]+)(")/g, (match, prefix: string, id: string, suffix: string) =>
+      idMap.has(id) ? `${prefix}${idMap.get(id)}${suffix}` : match
+    );
+  }
+
+  /**
+   * Append the source's styles to the base styles part. Identical definitions
+   * are shared; conflicting ones are renamed. Returns old-to-new style IDs.
+   */
+  private static async mergeStyles(base: DocxPackage, source: DocxPackage, docIndex: number): Promise<Map<string, string>> {
+    const styleMap = new Map<string, string>();
+    const sourceStyles = await this.readPart(source, 'styles');
+    const basePath = this.getPartPath(base, 'styles');
+    if (!sourceStyles || !basePath) return styleMap;
+
+    let baseStyles = (await base.zip.file(basePath)?.async('string')) ?? '';
+    // Revision IDs differ between otherwise identical styles, so compare without them
+    const normalize = (definition: string) => definition.replace(/<w:rsid\b[^>]*\/>/g, '');
+    const baseDefinitions = new Map<string, string>();
+    for (const match of baseStyles.matchAll(/<w:style\b[^>]*>[\s\S]*?<\/w:style>/g)) {
+      const styleId = this.getAttribute(match[0], 'w:styleId') ?? '';
+      if (!baseDefinitions.has(styleId)) baseDefinitions.set(styleId, normalize(match[0]));
+    }
+    const baseNames = new Set(
+      [...baseStyles.matchAll(/<w:name w:val="([^"]*)"/g)].map(match => match[1])
+    );
+
+    const sourceDefinitions = [...sourceStyles.matchAll(/<w:style\b[^>]*>[\s\S]*?<\/w:style>/g)].map(match => match[0]);
+    const toAppend: string[] = [];
+    const handled = new Set<string>();
+
+    for (const definition of sourceDefinitions) {
+      const styleId = this.getAttribute(definition, 'w:styleId');
+      // Word keeps the first definition of a duplicated styleId, so do the same
+      if (!styleId || handled.has(styleId)) continue;
+      handled.add(styleId);
+
+      const existing = baseDefinitions.get(styleId);
+      if (existing === undefined) {
+        toAppend.push(definition);
+      } else if (existing !== normalize(definition)) {
+        let newId = `${styleId}Doc${docIndex + 1}`;
+        for (let n = 2; baseDefinitions.has(newId); n++) newId = `${styleId}Doc${docIndex + 1}_${n}`;
+        styleMap.set(styleId, newId);
+        toAppend.push(definition);
+      }
+    }
+
+    const appended = toAppend.map(definition => {
+      let result = definition
+        .replace(/(w:styleId=")([^"]*)(")/, (match, prefix: string, id: string, suffix: string) =>
+          styleMap.has(id) ? `${prefix}${styleMap.get(id)}${suffix}` : match
+        );
+
+      // The base document keeps its own defaults for each style type
+      result = result.replace(/\sw:default="(1|true|on)"/, '');
+      if (styleMap.has(this.getAttribute(definition, 'w:styleId') ?? '')) {
+        // Display names must stay unique too
+        result = result.replace(/(<w:name w:val=")([^"]*)(")/, (_match, prefix: string, name: string, suffix: string) => {
+          let newName = `${name} (Document ${docIndex + 1})`;
+          for (let n = 2; baseNames.has(newName); n++) newName = `${name} (Document ${docIndex + 1}, ${n})`;
+          baseNames.add(newName);
+          return `${prefix}${newName}${suffix}`;
+        });
+      }
+
+      return this.rewriteValues(result, ['basedOn', 'next', 'link'], styleMap);
+    });
+
+    if (appended.length > 0) {
+      baseStyles = this.mergeRootNamespaces(baseStyles, sourceStyles)
+        .replace('</w:styles>', `${appended.join('')}</w:styles>`);
+      base.zip.file(basePath, baseStyles);
+    }
+
+    return styleMap;
+  }
+
+  /**
+   * Append the source's list definitions to the base numbering part with fresh
+   * abstractNumId/numId values. Returns old-to-new numIds.
+   */
+  private static async mergeNumbering(
+    base: DocxPackage,
+    source: DocxPackage,
+    importer: OOXMLPartImporter,
+    styleMap: Map<string, string>
+  ): Promise<Map<string, string>> {
+    const numberingMap = new Map<string, string>();
+    const sourceNumbering = await this.readPart(source, 'numbering');
+    if (!sourceNumbering) return numberingMap;
+
+    const basePath = this.getPartPath(base, 'numbering');
+    if (!basePath) {
+      // Base has no lists at all: adopt the source's numbering part as-is
+      const sourcePath = this.getPartPath(source, 'numbering')!;
+      const importedPath = await importer.importPart(sourcePath);
+      const rewritten = this.rewriteValues(sourceNumbering, ['pStyle', 'styleLink', 'numStyleLink'], styleMap);
+      base.zip.file(importedPath, rewritten);
+      base.rels.push({
+        id: getNextRelationshipId(base.rels),
+        type: source.rels.find(rel => isRelationshipType(rel, 'numbering'))!.type,
+        target: relativeTarget(base.documentPath, importedPath),
+      });
+      return numberingMap;
+    }
+
+    let baseNumbering = this.mergeRootNamespaces((await base.zip.file(basePath)?.async('string')) ?? '', sourceNumbering);
+    let nextAbstractId = this.getMaxAttribute(baseNumbering, /<w:abstractNum\b[^>]*\sw:abstractNumId="(\d+)"/g) + 1;
+    let nextNumId = this.getMaxAttribute(baseNumbering, /<w:num\b[^>]*\sw:numId="(\d+)"/g) + 1;
+
+    const abstractMap = new Map<string, string>();
+    const abstractNums = [...sourceNumbering.matchAll(/<w:abstractNum\b[^>]*>[\s\S]*?<\/w:abstractNum>/g)].map(match => {
+      const oldId = this.getAttribute(match[0], 'w:abstractNumId') ?? '';
+      const newId = String(nextAbstractId++);
+      abstractMap.set(oldId, newId);
+      const definition = match[0]
+        .replace(/(w:abstractNumId=")\d+(")/, `$1${newId}$2`)
+        // Picture bullets live in the source's numPicBullet list, which is not carried over
+        .replace(/<w:lvlPicBulletId\b[^>]*\/>/g, '');
+      return this.rewriteValues(definition, ['pStyle', 'styleLink', 'numStyleLink'], styleMap);
+    });
+
+    const nums = [...sourceNumbering.matchAll(/<w:num\b[^>]*>[\s\S]*?<\/w:num>/g)].map(match => {
+      const oldId = this.getAttribute(match[0], 'w:numId') ?? '';
+      const newId = String(nextNumId++);
+      numberingMap.set(oldId, newId);
+      return this.rewriteValues(
+        match[0].replace(/(w:numId=")\d+(")/, `$1${newId}$2`),
+        ['abstractNumId'],
+        abstractMap
+      );
+    });
+
+    // Schema order: all abstractNum elements precede all num elements
+    const firstNum = baseNumbering.search(/<w:num\b/);
+    if (firstNum >= 0) {
+      baseNumbering = `${baseNumbering.substring(0, firstNum)}${abstractNums.join('')}${baseNumbering.substring(firstNum)}`;
+    } else {
+      baseNumbering = baseNumbering.replace('</w:numbering>', `${abstractNums.join('')}</w:numbering>`);
+    }
+    const cleanup = baseNumbering.indexOf('<w:numIdMacAtCleanup');
+    baseNumbering = cleanup >= 0
+      ? `${baseNumbering.substring(0, cleanup)}${nums.join('')}${baseNumbering.substring(cleanup)}`
+      : baseNumbering.replace('</w:numbering>', `${nums.join('')}</w:numbering>`);
+
+    base.zip.file(basePath, baseNumbering);
+    return numberingMap;
+  }
+
+  /**
+   * Copy the footnotes or endnotes referenced by a body into the base notes
+   * part, renumbering them. References are dropped when the base document has
+   * no notes part to hold them.
+   */
+  private static async mergeNotes(
+    base: DocxPackage,
+    source: DocxPackage,
+    kind: 'footnote' | 'endnote',
+    bodyXml: string,
+    transform: (xml: string, sourcePart: string, targetPart: string, targetRels: OOXMLRelationship[]) => Promise<string>
+  ): Promise<string> {
+    const referencePattern = new RegExp(`<w:${kind}Reference\\b[^>]*\\sw:id="(-?\\d+)"[^>]*/>`, 'g');
+    if (!referencePattern.test(bodyXml)) return bodyXml;
+
+    const sourcePath = this.getPartPath(source, `${kind}s`);
+    const basePath = this.getPartPath(base, `${kind}s`);
+    if (!sourcePath || !basePath) {
+      console.warn(`Dropping ${kind} references: no ${kind}s part to merge into`);
+      return bodyXml.replace(referencePattern, '');
+    }
+
+    const sourceNotes = (await source.zip.file(sourcePath)?.async('string')) ?? '';
+    let baseNotes = this.mergeRootNamespaces((await base.zip.file(basePath)?.async('string')) ?? '', sourceNotes);
+    const baseNoteRels = await readRelationships(base.zip, basePath);
+    let nextId = this.getMaxAttribute(baseNotes, new RegExp(`<w:${kind}\\b[^>]*\\sw:id="(\\d+)"`, 'g')) + 1;
+
+    const idMap = new Map<string, string>();
+    const appended: string[] = [];
+    const notePattern = new RegExp(`<w:${kind}\\b[^>]*>[\\s\\S]*?</w:${kind}>`, 'g');
+    for (const match of sourceNotes.matchAll(notePattern)) {
+      // Separator notes are structural and already exist in the base part
+      if (/^<[^>]*\sw:type="/.test(match[0])) continue;
+
+      const oldId = this.getAttribute(match[0], 'w:id') ?? '';
+      const newId = String(nextId++);
+      idMap.set(oldId, newId);
+      const note = match[0].replace(/(\sw:id=")-?\d+(")/, `$1${newId}$2`);
+      appended.push(await transform(note, sourcePath, basePath, baseNoteRels));
+    }
+
+    baseNotes = baseNotes.replace(`</w:${kind}s>`, `${appended.join('')}</w:${kind}s>`);
+    base.zip.file(basePath, baseNotes);
+    if (baseNoteRels.length > 0) {
+      writeRelationships(base.zip, basePath, baseNoteRels);
+    }
+
+    return bodyXml.replace(referencePattern, (match, id: string) =>
+      idMap.has(id) ? match.replace(/(\sw:id=")-?\d+(")/, `$1${idMap.get(id)}$2`) : ''
+    );
+  }
+
+  /**
+   * Split a document part into its body content and the trailing body-level sectPr
+   */
+  private static splitBody(documentXml: string): { content: string; sectPr: string } {
+    const bodyMatch = /<w:body\b[^>]*>([\s\S]*)<\/w:body>/.exec(documentXml);
+    const body = bodyMatch?.[1] ?? '';
+
+    const positions = [...body.matchAll(/<w:sectPr\b/g)].map(match => match.index ?? 0).reverse();
+    for (const position of positions) {
+      const before = body.substring(0, position);
+      if (/<w:sectPrChange\b[^>]*>\s*$/.test(before)) continue;
+
+      const after = body.substring(position);
+      if (/^<w:sectPr\b[\s\S]*(<\/w:sectPr>|\/>)\s*$/.test(after)) {
+        return { content: before, sectPr: after.trim() };
+      }
+      break;
+    }
+
+    return { content: body, sectPr: '' };
+  }
+
+  private static setSectionType(sectPr: string, type: 'nextPage' | 'continuous'): string {
+    if (!sectPr) return sectPr;
+
+    const typeElement = `<w:type w:val="${type}"/>`;
+    const withoutType = sectPr.replace(/<w:type\b[^>]*\/>/, '');
+    if (/^<w:sectPr\b[^>]*\/>$/.test(withoutType)) {
+      return withoutType.replace(/\/>$/, `>${typeElement}</w:sectPr>`);
+    }
+
+    // w:type follows the header/footer references and note properties
+    const anchor = withoutType.search(/<w:(pgSz|pgMar|paperSrc|pgBorders|lnNumType|pgNumType|cols|formProt|vAlign|noEndnote|titlePg|textDirection|bidi|rtlGutter|docGrid|printerSettings|sectPrChange)\b/);
+    if (anchor >= 0) {
+      return `${withoutType.substring(0, anchor)}${typeElement}${withoutType.substring(anchor)}`;
+    }
+    return withoutType.replace('</w:sectPr>', `${typeElement}</w:sectPr>`);
+  }
+
+  /**
+   * Drawing object IDs and bookmark IDs must be unique across the merged body
+   */
+  private static renumberDrawingAndBookmarkIds(xml: string, counters: DocxIdCounters): string {
+    const bookmarkMap = new Map<string, number>();
+    return xml
+      .replace(/(<wp:docPr\b[^>]*?\sid=")(\d+)(")/g, (_match, prefix: string, _id: string, suffix: string) =>
+        `${prefix}${++counters.docPr}${suffix}`
+      )
+      .replace(/(<w:bookmark(?:Start|End)\b[^>]*?\sw:id=")(\d+)(")/g, (_match, prefix: string, id: string, suffix: string) => {
+        if (!bookmarkMap.has(id)) bookmarkMap.set(id, counters.bookmark++);
+        return `${prefix}${bookmarkMap.get(id)}${suffix}`;
+      });
+  }
+
+  private static getDefaultParagraphStyle(stylesXml: string | null): string | null {
+    if (!stylesXml) return null;
+    const defaultStyle = [...stylesXml.matchAll(/<w:style\b[^>]*>/g)]
+      .map(match => match[0])
+      .find(tag => /\sw:type="paragraph"/.test(tag) && /\sw:default="(1|true|on)"/.test(tag));
+    return defaultStyle ? this.getAttribute(defaultStyle, 'w:styleId') : null;
+  }
+
+  private static applyParagraphStyle(xml: string, styleId: string): string {
+    const styleElement = `<w:pStyle w:val="${styleId}"/>`;
+    return xml
+      .replace(/<w:pPr>(?!\s*<w:pStyle\b)/g, `<w:pPr>${styleElement}`)
+      .replace(/(<w:p\b[^>]*?[^/]>|<w:p>)(?!\s*<w:pPr\b)/g, `$1<w:pPr>${styleElement}</w:pPr>`);
+  }
+
+  /**
+   * Declare on the target's root element every namespace the source root
+   * declares, so copied markup (w14, wps, mc, ...) stays well-formed
+   */
+  private static mergeRootNamespaces(targetXml: string, sourceXml: string): string {
+    const rootPattern = /<(?!\?)([\w:]+)\b([^>]*)>/;
+    const targetRoot = rootPattern.exec(targetXml);
+    const sourceRoot = rootPattern.exec(sourceXml);
+    if (!targetRoot || !sourceRoot) return targetXml;
+
+    let attributes = targetRoot[2];
+    for (const match of sourceRoot[2].matchAll(/\sxmlns:(\w+)="([^"]*)"/g)) {
+      if (!new RegExp(`\\sxmlns:${match[1]}="`).test(attributes)) {
+        attributes += ` xmlns:${match[1]}="${match[2]}"`;
+      }
+    }
+
+    const sourceIgnorable = this.getAttribute(sourceRoot[0], 'mc:Ignorable');
+    if (sourceIgnorable) {
+      const targetIgnorable = this.getAttribute(targetRoot[0], 'mc:Ignorable');
+      const prefixes = [...new Set([...(targetIgnorable ?? '').split(/\s+/), ...sourceIgnorable.split(/\s+/)])]
+        .filter(Boolean)
+        .join(' ');
+      attributes = targetIgnorable !== null
+        ? attributes.replace(/(\smc:Ignorable=")[^"]*(")/, `$1${prefixes}$2`)
+        : `${attributes} mc:Ignorable="${prefixes}"`;
+    }
+
+    const index = targetRoot.index;
+    const replacement = `<${targetRoot[1]}${attributes}>`;
+    return `${targetXml.substring(0, index)}${replacement}${targetXml.substring(index + targetRoot[0].length)}`;
+  }
+
+  private static rewriteValues(xml: string, elements: string[], map: Map<string, string>): string {
+    if (map.size === 0) return xml;
+    const pattern = new RegExp(`(<w:(?:${elements.join('|')})\\b[^>]*?\\sw:val=")([^"]*)(")`, 'g');
+    return xml.replace(pattern, (match, prefix: string, value: string, suffix: string) =>
+      map.has(value) ? `${prefix}${map.get(value)}${suffix}` : match
+    );
+  }
+
+  private static getPartPath(pkg: DocxPackage, relationshipType: string): string | null {
+    const rel = pkg.rels.find(r => isRelationshipType(r, relationshipType));
+    return rel ? resolveTarget(pkg.documentPath, rel.target) : null;
+  }
+
+  private static async readPart(pkg: DocxPackage, relationshipType: string): Promise<string | null> {
+    const partPath = this.getPartPath(pkg, relationshipType);
+    return partPath ? (await pkg.zip.file(partPath)?.async('string')) ?? null : null;
+  }
+
+  private static getAttribute(tag: string, name: string): string | null {
+    const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+    return match ? match[1] : null;
+  }
+
+  private static getMaxAttribute(xml: string, pattern: RegExp): number {
+    return [...xml.matchAll(pattern)].reduce((max, match) => Math.max(max, parseInt(match[1], 10)), 0);
+  }
+
+  private static async updateCoreProperties(zip: JSZip, title: string): Promise<void> {
+    const coreFile = zip.file('docProps/core.xml');
+    if (!coreFile) return;
+
+    const coreXml = await coreFile.async('string');
+    zip.file('docProps/core.xml', coreXml
+      .replace(/<dc:title>[\s\S]*?<\/dc:title>|<dc:title\/>/, `<dc:title>${escapeXml(title)}</dc:title>`)
+      .replace(/(<dcterms:modified\b[^>]*>)[^<]*(<\/dcterms:modified>)/, `$1${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}$2`));
+  }
+
   static async extractText(buffer: ArrayBuffer): Promise<string> {
     try {
       const result = await mammoth.extractRawText({ arrayBuffer: buffer });
@@ -271,10 +1127,27 @@ export class WordProcessor {
     }
   }
 
+  /**
+   * The document body as plain text, without WinAnsi sanitizing, for output that can draw any script
+   */
+  static async extractRawText(buffer: ArrayBuffer): Promise<string> {
+    try {
+      const result = await mammoth.extractRawText({ arrayBuffer: buffer });
+      return result.value;
+    } catch (error) {
+      console.error('Word text extraction error:', error);
+      return '';
+    }
+  }
+
+  /**
+   * Convert the document body to HTML, with images inlined as data URIs
+   * The markup is returned as-is: mammoth escapes it, and WinAnsi sanitizing would drop non-Latin text.
+   */
   static async extractHTML(buffer: ArrayBuffer): Promise<string> {
     try {
       const result = await mammoth.convertToHtml({ arrayBuffer: buffer });
-      return sanitizeText(result.value);
+      return result.value;
     } catch (error) {
       console.error('Word HTML extraction error:', error);
       return '';
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { CSVParser, decodeTextBuffer, detectDelimiter, formatCSV, formatCSVField, parseCSVText } from './csv';
+
+describe('parseCSVText', () => {
+  it('splits records on LF, CRLF and CR', () => {
+    expect(parseCSVText('a,b\nc,d\r\ne,f\rg,h', ',').rows).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f'], ['g', 'h']]);
+  });
+
+  it('keeps delimiters, quotes and line breaks inside quoted fields', () => {
+    const text = 'name,note\r\n"Smith, J","said ""hi""\r\nthen left"\r\nLee,ok\r\n';
+    expect(parseCSVText(text, ',').rows).toEqual([
+      ['name', 'note'],
+      ['Smith, J', 'said "hi"\r\nthen left'],
+      ['Lee', 'ok'],
+    ]);
+  });
+
+  it('skips blank lines but keeps a line holding only ""', () => {
+    expect(parseCSVText('a\n\n""\nb\n', ',').rows).toEqual([['a'], [''], ['b']]);
+  });
+
+  it('keeps empty trailing fields', () => {
+    expect(parseCSVText('a,,\n', ',').rows).toEqual([['a', '', '']]);
+  });
+
+  it('strips a leading byte order mark', () => {
+    expect(parseCSVText('\uFEFFid,name\n1,x', ',').rows[0]).toEqual(['id', 'name']);
+  });
+
+  it('runs an unterminated quoted field to the end of the input', () => {
+    expect(parseCSVText('a,"b\nc', ',').rows).toEqual([['a', 'b\nc']]);
+  });
+});
+
+describe('CSVParser', () => {
+  it('gives the same records however the input is chunked', () => {
+    const text = 'x,"y\r\n""z"""\r\n1,2\r\n';
+    const expected = parseCSVText(text, ',').rows;
+
+    for (let size = 1; size <= text.length; size++) {
+      const parser = new CSVParser(',');
+      const rows: string[][] = [];
+      for (let i = 0; i < text.length; i += size) rows.push(...parser.write(text.slice(i, i + size)));
+      rows.push(...parser.end());
+      expect(rows).toEqual(expected);
+    }
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that splits records consistently', () => {
+    expect(detectDelimiter('a;b;c\n1;2;3\n4;5;6')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2')).toBe('\t');
+    expect(detectDelimiter('a|b\n1|2')).toBe('|');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    expect(detectDelimiter('"a,b";c\n"1,2";3')).toBe(';');
+  });
+
+  it('falls back to comma', () => {
+    expect(detectDelimiter('single column\nvalues')).toBe(',');
+  });
+});
+
+describe('formatCSV', () => {
+  it('quotes only fields that need it', () => {
+    expect(formatCSVField('plain')).toBe('plain');
+    expect(formatCSVField('a,b')).toBe('"a,b"');
+    expect(formatCSVField('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCSVField(' padded')).toBe('" padded"');
+    expect(formatCSVField('a;b', ';')).toBe('"a;b"');
+  });
+
+  it('ends every record with CRLF', () => {
+    expect(formatCSV([['a', 'b'], ['1', 'line\nbreak']])).toBe('a,b\r\n1,"line\nbreak"\r\n');
+    expect(formatCSV([])).toBe('');
+  });
+
+  it('round-trips through the parser', () => {
+    const rows = [['id', 'text'], ['1', 'comma, "quote" and\r\nnewline'], ['2', '']];
+    expect(parseCSVText(formatCSV(rows), ',').rows).toEqual(rows);
+  });
+});
+
+describe('decodeTextBuffer', () => {
+  it('follows a byte order mark', () => {
+    expect(decodeTextBuffer(new Uint8Array([0xEF, 0xBB, 0xBF, 0x61]))).toEqual({ text: 'a', encoding: 'utf-8' });
+    expect(decodeTextBuffer(new Uint8Array([0xFF, 0xFE, 0x61, 0x00]))).toEqual({ text: 'a', encoding: 'utf-16le' });
+    expect(decodeTextBuffer(new Uint8Array([0xFE, 0xFF, 0x00, 0x61]))).toEqual({ text: 'a', encoding: 'utf-16be' });
+  });
+
+  it('falls back to Windows-1252 for bytes that are not UTF-8', () => {
+    expect(decodeTextBuffer(new TextEncoder().encode('café'))).toEqual({ text: 'café', encoding: 'utf-8' });
+    expect(decodeTextBuffer(new Uint8Array([0x63, 0x61, 0x66, 0xE9]))).toEqual({ text: 'café', encoding: 'windows-1252' });
+  });
+});
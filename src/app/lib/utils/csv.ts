@@ -0,0 +1,304 @@
+/**
+ * RFC 4180 CSV reading and writing
+ * Streaming parser (quoted fields may contain delimiters, quotes and line breaks),
+ * delimiter auto-detection, and byte decoding with BOM and encoding detection.
+ */
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export const CSV_DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+
+// How much of a file delimiter detection looks at
+const DETECTION_SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Incremental CSV parser: feed text in chunks, collect completed records
+ * Lenient where the RFC is strict: stray quotes inside unquoted fields are kept as text,
+ * and blank lines are skipped instead of producing empty records.
+ */
+export class CSVParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quoteSeen = false;
+  private fieldQuoted = false;
+  private lastFieldQuoted = false;
+  private skipLineFeed = false;
+  private started = false;
+
+  constructor(readonly delimiter: CSVDelimiter = ',') {}
+
+  write(chunk: string): string[][] {
+    const records: string[][] = [];
+    let text = chunk;
+
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xFEFF) text = text.slice(1);
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.quoteSeen) {
+          this.quoteSeen = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          // The previous quote closed the field; handle this character as unquoted
+          this.inQuotes = false;
+        } else {
+          if (char === '"') {
+            this.quoteSeen = true;
+          } else {
+            this.field += char;
+          }
+          continue;
+        }
+      }
+
+      if (char === '"' && this.field === '' && !this.fieldQuoted) {
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.endField();
+        this.endRecord(records);
+        this.skipLineFeed = char === '\r';
+      } else {
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Flush the last record; an unterminated quoted field runs to the end of the input
+   */
+  end(): string[][] {
+    const records: string[][] = [];
+    if (this.field !== '' || this.fieldQuoted || this.record.length > 0) {
+      this.endField();
+      this.endRecord(records);
+    }
+    this.inQuotes = false;
+    this.quoteSeen = false;
+    return records;
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.lastFieldQuoted = this.fieldQuoted;
+    this.field = '';
+    this.fieldQuoted = false;
+  }
+
+  private endRecord(records: string[][]): void {
+    // A line holding only "" is a record with one empty field, not a blank line
+    const isBlankLine = this.record.length === 1 && this.record[0] === '' && !this.lastFieldQuoted;
+    if (!isBlankLine) {
+      records.push(this.record);
+    }
+    this.record = [];
+  }
+}
+
+/**
+ * Guess the delimiter from the start of the text: the candidate that splits the most
+ * records into the same number (greater than one) of fields wins; comma on a tie
+ */
+export function detectDelimiter(text: string): CSVDelimiter {
+  const sample = text.slice(0, DETECTION_SAMPLE_SIZE);
+  const truncated = sample.length < text.length;
+  let best: { delimiter: CSVDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const parser = new CSVParser(delimiter);
+    const records = parser.write(sample);
+    if (!truncated) records.push(...parser.end());
+    if (records.length === 0) continue;
+
+    const counts = new Map<number, number>();
+    records.forEach(record => counts.set(record.length, (counts.get(record.length) ?? 0) + 1));
+    const [fieldCount, occurrences] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (fieldCount < 2) continue;
+
+    const score = (occurrences / records.length) * 1000 + fieldCount;
+    if (score > best.score) {
+      best = { delimiter, score };
+    }
+  }
+
+  return best.delimiter;
+}
+
+/**
+ * Parse a whole CSV text, detecting the delimiter unless one is given
+ */
+export function parseCSVText(text: string, delimiter: CSVDelimiter = detectDelimiter(text)): { rows: string[][]; delimiter: CSVDelimiter } {
+  const parser = new CSVParser(delimiter);
+  const rows = parser.write(text);
+  rows.push(...parser.end());
+  return { rows, delimiter };
+}
+
+/**
+ * Quote a field when it contains the delimiter, quotes, line breaks or edge whitespace
+ */
+export function formatCSVField(value: string, delimiter: CSVDelimiter = ','): string {
+  const needsQuotes = value.includes(delimiter) || /["\r\n]/.test(value) || /^\s|\s$/.test(value);
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatCSVRow(fields: string[], delimiter: CSVDelimiter = ','): string {
+  return fields.map(field => formatCSVField(field, delimiter)).join(delimiter);
+}
+
+/**
+ * Serialize records with CRLF line endings, as RFC 4180 specifies
+ */
+export function formatCSV(rows: string[][], delimiter: CSVDelimiter = ','): string {
+  return rows.map(row => formatCSVRow(row, delimiter)).join('\r\n') + (rows.length > 0 ? '\r\n' : '');
+}
+
+/**
+ * Decode file bytes: a BOM decides UTF-8/UTF-16, otherwise strict UTF-8 with a Windows-1252 fallback
+ */
+export function decodeTextBuffer(buffer: ArrayBuffer | Uint8Array): { text: string; encoding: string } {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    // Not valid UTF-8: most likely a legacy Excel export
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+}
+
+export interface CSVTable {
+  /** Reported in warnings and written to the source column */
+  name: string;
+  /** The first row is the header */
+  rows: string[][];
+}
+
+export interface AlignedCSV {
+  header: string[];
+  rows: string[][];
+  warnings: string[];
+}
+
+/**
+ * Key used to match header names: case-insensitive, with whitespace collapsed
+ */
+export function normalizeHeaderName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Matching keys for a header row; a repeated name matches the same occurrence in other tables
+ */
+export function headerKeys(header: string[]): string[] {
+  const seen = new Map<string, number>();
+  return header.map(name => {
+    const key = normalizeHeaderName(name);
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    return occurrence === 0 ? key : `${key}#${occurrence + 1}`;
+  });
+}
+
+/**
+ * Whether two header rows name the same columns in the same order, ignoring case and spacing
+ */
+export function headerKeysMatch(a: string[], b: string[]): boolean {
+  const keysA = headerKeys(a);
+  const keysB = headerKeys(b);
+  return keysA.length === keysB.length && keysA.every((key, index) => key === keysB[index]);
+}
+
+function listColumns(names: string[]): string {
+  return names.map(name => name || '(unnamed)').join(', ');
+}
+
+/**
+ * Match the columns of several tables by header name
+ * 'union' keeps every column and leaves it blank where a table lacks it; 'intersection'
+ * keeps only the columns every table has. Columns follow first-seen order and spelling.
+ */
+export function alignCSVTables(
+  tables: CSVTable[],
+  mode: 'union' | 'intersection',
+  options: { sourceColumn?: string } = {}
+): AlignedCSV {
+  const names = new Map<string, string>();
+  const keysByTable = tables.map(table => {
+    const header = table.rows[0] ?? [];
+    const keys = headerKeys(header);
+    keys.forEach((key, index) => {
+      if (!names.has(key)) names.set(key, header[index].trim());
+    });
+    return keys;
+  });
+
+  const columns = [...names.keys()].filter(key =>
+    mode === 'union' || keysByTable.every(keys => keys.includes(key)));
+  const warnings: string[] = [];
+
+  const rows: string[][] = [];
+  tables.forEach((table, tableIndex) => {
+    const keys = keysByTable[tableIndex];
+    const positions = columns.map(key => keys.indexOf(key));
+
+    const missing = columns.filter((_, column) => positions[column] === -1).map(key => names.get(key)!);
+    const dropped = keys.filter(key => !columns.includes(key)).map(key => names.get(key)!);
+    const outputOrder = columns.filter(key => keys.includes(key));
+    const reordered = keys.filter(key => columns.includes(key)).some((key, index) => key !== outputOrder[index]);
+
+    if (missing.length > 0) {
+      warnings.push(`${table.name}: missing ${listColumns(missing)} (left blank)`);
+    }
+    if (dropped.length > 0) {
+      warnings.push(`${table.name}: dropped ${listColumns(dropped)} (not in every file)`);
+    }
+    if (reordered) {
+      warnings.push(`${table.name}: columns in a different order, aligned by name`);
+    }
+
+    let overflowRows = 0;
+    for (const row of table.rows.slice(1)) {
+      if (row.length > keys.length) overflowRows++;
+      const values = positions.map(position => (position === -1 ? '' : row[position] ?? ''));
+      rows.push(options.sourceColumn !== undefined ? [table.name, ...values] : values);
+    }
+    if (overflowRows > 0) {
+      warnings.push(`${table.name}: ${overflowRows} ${overflowRows === 1 ? 'row has' : 'rows have'} more fields than the header; the extra fields were dropped`);
+    }
+  });
+
+  const header = columns.map(key => names.get(key)!);
+  return {
+    header: options.sourceColumn !== undefined ? [options.sourceColumn, ...header] : header,
+    rows,
+    warnings,
+  };
+}
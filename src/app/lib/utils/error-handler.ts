@@ -90,7 +90,13 @@ export class ErrorHandler {
     PDF_PASSWORD_PROTECTED: {
       title: 'Password Protected PDF',
       message: 'This PDF is password protected and cannot be processed.',
-      userAction: 'Please unlock the PDF in a PDF reader first, then upload it again.',
+      userAction: 'Enter the PDF password in the document list to unlock it.',
+      severity: 'medium' as const
+    },
+    PDF_PASSWORD_INCORRECT: {
+      title: 'Incorrect PDF Password',
+      message: 'The password entered for this PDF is not correct.',
+      userAction: 'Check the password and try again. Either the open or the owner password works.',
       severity: 'medium' as const
     },
     PDF_EXTRACTION_FAILED: {
@@ -238,6 +244,9 @@ export class ErrorHandler {
     }
 
     // PDF specific
+    if (lowerMessage.includes('password') && lowerMessage.includes('incorrect')) {
+      return 'PDF_PASSWORD_INCORRECT';
+    }
     if (lowerMessage.includes('password') && lowerMessage.includes('protect')) {
       return 'PDF_PASSWORD_PROTECTED';
     }
@@ -272,6 +281,22 @@ export class ErrorHandler {
     return 'UNKNOWN_ERROR';
   }
 
+  /**
+   * Check whether an error comes from a cancelled (aborted) operation
+   */
+  static isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+  }
+
+  /**
+   * Stop the current operation if its signal has been aborted
+   */
+  static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new DOMException('The operation was cancelled', 'AbortError');
+    }
+  }
+
   /**
    * Log error for debugging while showing user-friendly message
    */
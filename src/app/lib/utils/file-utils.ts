@@ -1,3 +1,4 @@
+import JSZip from 'jszip';
 import { DocumentFormat } from '@/app/types';
 
 export const SUPPORTED_FORMATS: Record<DocumentFormat, string[]> = {
@@ -97,4 +98,21 @@ export async function fileToBuffer(file: File): Promise<ArrayBuffer> {
     reader.onerror = reject;
     reader.readAsArrayBuffer(file);
   });
-}
\ No newline at end of file
+}
+
+export async function createZipArchive(files: { name: string; data: Uint8Array | ArrayBuffer }[]): Promise<Blob> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  for (const file of files) {
+    // Keep entries with the same name from overwriting each other
+    let name = file.name;
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+      name = file.name.replace(/(\.[^.]*)?$/, ext => ` (${n})${ext}`);
+    }
+    usedNames.add(name.toLowerCase());
+    zip.file(name, file.data);
+  }
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
@@ -0,0 +1,115 @@
+/**
+ * Reference rewriting for spreadsheet formulas
+ * Renames sheet and defined-name references in A1-style formulas (as SheetJS stores them,
+ * without the leading '='). String literals, function names, structured references and
+ * references into other workbooks are left untouched.
+ */
+
+export interface ReferenceRenames {
+  /** Old sheet name, lowercased, to new sheet name */
+  sheets: Map<string, string>;
+  /** Old workbook-scoped defined name, lowercased, to new name */
+  names?: Map<string, string>;
+}
+
+const IDENTIFIER_START = /[\p{L}_\\]/u;
+const IDENTIFIER_PART = /[\p{L}\p{N}_.\\?]/u;
+const NUMBER = /^\d+(?:\.\d*)?(?:[eE][+-]?\d+)?/;
+const THREE_D_TAIL = /^:([\p{L}_\\][\p{L}\p{N}_.\\?]*)!/u;
+const EXTERNAL_SHEET = /^[\p{L}\p{N}_.\\?]+(?::[\p{L}\p{N}_.\\?]+)?!/u;
+
+// Unquoted names that Excel would read as a cell reference or a literal
+const AMBIGUOUS_NAME = /^(?:[a-z]{1,3}\d+|r\d*c?\d*|c\d*|true|false)$/i;
+
+/**
+ * A sheet name as it must appear before '!' in a formula, quoted when necessary
+ */
+export function formatSheetReference(name: string): string {
+  const plain = /^[\p{L}_][\p{L}\p{N}_.]*$/u.test(name) && !AMBIGUOUS_NAME.test(name);
+  return plain ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+// Index just past a quoted run starting at `start`, where doubled quotes are escapes
+function skipQuoted(formula: string, start: number, quote: string): number {
+  let index = start + 1;
+  while (index < formula.length) {
+    if (formula[index] === quote) {
+      if (formula[index + 1] !== quote) return index + 1;
+      index++;
+    }
+    index++;
+  }
+  return index;
+}
+
+export function rewriteFormulaReferences(formula: string, renames: ReferenceRenames): string {
+  // Sheet prefix for one sheet or a 3D range of sheets, unchanged when nothing was renamed
+  const sheetPrefix = (sheets: string[], original: string): string => {
+    const renamed = sheets.map(sheet => renames.sheets.get(sheet.toLowerCase()) ?? sheet);
+    if (renamed.every((sheet, index) => sheet === sheets[index])) return original;
+    const needsQuotes = renamed.some(sheet => formatSheetReference(sheet) !== sheet);
+    const joined = renamed.join(':');
+    return needsQuotes ? `'${joined.replace(/'/g, "''")}'` : joined;
+  };
+
+  let result = '';
+  let index = 0;
+
+  while (index < formula.length) {
+    const char = formula[index];
+
+    if (char === '"') {
+      const end = skipQuoted(formula, index, '"');
+      result += formula.slice(index, end);
+      index = end;
+    } else if (char === "'") {
+      const end = skipQuoted(formula, index, "'");
+      const original = formula.slice(index, end);
+      const sheets = original.slice(1, -1).replace(/''/g, "'");
+      // '[1]Sheet1'!A1 points into another workbook
+      const isLocalSheet = formula[end] === '!' && !sheets.startsWith('[');
+      result += isLocalSheet ? sheetPrefix(sheets.split(':'), original) : original;
+      index = end;
+    } else if (char === '[') {
+      let end = index;
+      let depth = 0;
+      do {
+        if (formula[end] === '[') depth++;
+        else if (formula[end] === ']') depth--;
+        end++;
+      } while (end < formula.length && depth > 0);
+      // [1]Sheet1!A1: the sheet after an external workbook index is not ours to rename
+      const external = EXTERNAL_SHEET.exec(formula.slice(end));
+      if (external) end += external[0].length;
+      result += formula.slice(index, end);
+      index = end;
+    } else if (IDENTIFIER_START.test(char)) {
+      let end = index;
+      while (end < formula.length && IDENTIFIER_PART.test(formula[end])) end++;
+      const word = formula.slice(index, end);
+      const threeD = THREE_D_TAIL.exec(formula.slice(end));
+
+      if (formula[end] === '!') {
+        result += sheetPrefix([word], word);
+      } else if (threeD) {
+        result += sheetPrefix([word, threeD[1]], `${word}:${threeD[1]}`);
+        end += threeD[0].length - 1;
+      } else {
+        // Not a function call, table name, sheet-qualified name or part of $A$1
+        const renamed = renames.names?.get(word.toLowerCase());
+        const isName = renamed !== undefined
+          && !['(', '[', '$'].includes(formula[end])
+          && !['!', '$'].includes(formula[index - 1]);
+        result += isName ? renamed : word;
+      }
+      index = end;
+    } else {
+      const number = NUMBER.exec(formula.slice(index));
+      const length = number ? number[0].length : 1;
+      result += formula.slice(index, index + length);
+      index += length;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,100 @@
+/**
+ * Minimal HTML parser for converter output (mammoth and similar)
+ * Builds a light element tree without DOMParser, which is not available in Web Workers.
+ * Assumes reasonably well-formed markup: unmatched closing tags are ignored.
+ */
+
+export interface HTMLTextNode {
+  type: 'text';
+  text: string;
+}
+
+export interface HTMLElementNode {
+  type: 'element';
+  tag: string;
+  attributes: Record<string, string>;
+  children: HTMLNode[];
+}
+
+export type HTMLNode = HTMLTextNode | HTMLElementNode;
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|[^<]+|</g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"']+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attributes[match[1].toLowerCase()] = decodeEntities(value);
+  }
+  return attributes;
+}
+
+/**
+ * Parse an HTML fragment into a list of top-level nodes
+ */
+export function parseHTML(html: string): HTMLNode[] {
+  const root: HTMLElementNode = { type: 'element', tag: '#root', attributes: {}, children: [] };
+  const stack: HTMLElementNode[] = [root];
+
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    const [token, closingTag, openingTag, attributeSource, selfClosing] = match;
+    const parent = stack[stack.length - 1];
+
+    if (closingTag) {
+      const tag = closingTag.toLowerCase();
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else if (openingTag) {
+      const element: HTMLElementNode = {
+        type: 'element',
+        tag: openingTag.toLowerCase(),
+        attributes: parseAttributes(attributeSource),
+        children: [],
+      };
+      parent.children.push(element);
+      if (!selfClosing && !VOID_ELEMENTS.has(element.tag)) {
+        stack.push(element);
+      }
+    } else if (!token.startsWith('<!')) {
+      parent.children.push({ type: 'text', text: decodeEntities(token) });
+    }
+  }
+
+  return root.children;
+}
+
+/**
+ * Concatenated text of a node and its descendants
+ */
+export function getTextContent(nodes: HTMLNode | HTMLNode[]): string {
+  const list = Array.isArray(nodes) ? nodes : [nodes];
+  return list
+    .map(node => (node.type === 'text' ? node.text : getTextContent(node.children)))
+    .join('');
+}
@@ -0,0 +1,571 @@
+/**
+ * Layout engine that renders converter HTML into a PDF
+ * Walks the element tree from mammoth and lays out headings, inline bold/italic/underline,
+ * bulleted and numbered lists, bordered tables and embedded PNG/JPEG images on Letter pages.
+ */
+
+import { PDFDocument, PDFImage, PDFPage, RGB, rgb } from 'pdf-lib';
+import { HTMLElementNode, HTMLNode, getTextContent, parseHTML } from './html-parser';
+import { PDFFontSet } from './pdf-fonts';
+
+interface TextStyle {
+  size: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  color: RGB;
+  /** Vertical offset from the baseline, for superscript and subscript */
+  rise: number;
+}
+
+interface Segment {
+  text: string;
+  style: TextStyle;
+  width: number;
+}
+
+interface LineBox {
+  kind: 'line';
+  indent: number;
+  segments: Segment[];
+  marker?: Segment;
+  size: number;
+  height: number;
+}
+
+interface ImageBox {
+  kind: 'image';
+  indent: number;
+  image: PDFImage;
+  width: number;
+  height: number;
+}
+
+interface SpaceBox {
+  kind: 'space';
+  height: number;
+}
+
+interface TableCellBox {
+  offset: number;
+  width: number;
+  header: boolean;
+  boxes: Box[];
+}
+
+interface TableRowBox {
+  height: number;
+  cells: TableCellBox[];
+}
+
+interface TableBox {
+  kind: 'table';
+  indent: number;
+  rows: TableRowBox[];
+}
+
+type Box = LineBox | ImageBox | SpaceBox | TableBox;
+
+type InlinePiece =
+  | { kind: 'text'; text: string; style: TextStyle }
+  | { kind: 'image'; src: string }
+  | { kind: 'break'; style: TextStyle };
+
+const PAGE_WIDTH = 612; // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_HEIGHT = PAGE_HEIGHT - 2 * MARGIN;
+
+const LINE_SPACING = 1.3;
+const PARAGRAPH_SPACING = 6;
+const LIST_INDENT = 18;
+const MARKER_GAP = 6;
+const CELL_PADDING = 4;
+
+const BASE_STYLE: TextStyle = {
+  size: 11,
+  bold: false,
+  italic: false,
+  underline: false,
+  strike: false,
+  color: rgb(0, 0, 0),
+  rise: 0,
+};
+const HEADING_SIZES: Record<string, number> = { h1: 22, h2: 18, h3: 15, h4: 13, h5: 12, h6: 11 };
+const BULLETS = ['•', '–'];
+const LINK_COLOR = rgb(0.07, 0.33, 0.8);
+const BORDER_COLOR = rgb(0.6, 0.6, 0.6);
+const HEADER_FILL = rgb(0.93, 0.93, 0.93);
+
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'b', 'br', 'code', 'em', 'font', 'i', 'img', 'ins', 'mark',
+  's', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'del', 'u',
+]);
+
+// Whitespace, single CJK characters (which may break anywhere) or runs of anything else
+const WORD_PATTERN = /\s+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\u200B\uFEFF]/g, '');
+}
+
+function sameStyle(a: TextStyle, b: TextStyle): boolean {
+  return a.size === b.size && a.bold === b.bold && a.italic === b.italic && a.underline === b.underline
+    && a.strike === b.strike && a.color === b.color && a.rise === b.rise;
+}
+
+function getInlineStyle(element: HTMLElementNode, style: TextStyle): TextStyle {
+  switch (element.tag) {
+    case 'b':
+    case 'strong':
+      return { ...style, bold: true };
+    case 'i':
+    case 'em':
+      return { ...style, italic: true };
+    case 'u':
+    case 'ins':
+      return { ...style, underline: true };
+    case 's':
+    case 'strike':
+    case 'del':
+      return { ...style, strike: true };
+    case 'a':
+      return element.attributes.href ? { ...style, underline: true, color: LINK_COLOR } : style;
+    case 'sup':
+      return { ...style, size: style.size * 0.7, rise: style.rise + style.size * 0.35 };
+    case 'sub':
+      return { ...style, size: style.size * 0.7, rise: style.rise - style.size * 0.15 };
+    case 'small':
+      return { ...style, size: style.size * 0.85 };
+    default:
+      return style;
+  }
+}
+
+function decodeDataUri(src: string): { type: 'png' | 'jpg'; bytes: Uint8Array } | null {
+  const match = src.match(/^data:image\/(png|jpe?g);base64,(.*)$/i);
+  if (!match) return null;
+  const binary = atob(match[2].replace(/\s/g, ''));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return { type: match[1].toLowerCase() === 'png' ? 'png' : 'jpg', bytes };
+}
+
+async function embedImages(pdfDoc: PDFDocument, nodes: HTMLNode[], images = new Map<string, PDFImage>()) {
+  for (const node of nodes) {
+    if (node.type !== 'element') continue;
+
+    const src = node.attributes.src;
+    if (node.tag === 'img' && src && !images.has(src)) {
+      try {
+        // Only PNG and JPEG can be embedded; other formats (EMF, WMF, GIF) are skipped
+        const data = decodeDataUri(src);
+        if (data) {
+          images.set(src, data.type === 'png' ? await pdfDoc.embedPng(data.bytes) : await pdfDoc.embedJpg(data.bytes));
+        }
+      } catch (error) {
+        console.warn('Could not embed image:', error);
+      }
+    }
+
+    await embedImages(pdfDoc, node.children, images);
+  }
+  return images;
+}
+
+class HTMLPDFRenderer {
+  private page: PDFPage | null = null;
+  private y = 0;
+
+  constructor(
+    private pdfDoc: PDFDocument,
+    private fonts: PDFFontSet,
+    private images: Map<string, PDFImage>
+  ) {}
+
+  // Layout: turn the element tree into boxes for a given width
+
+  layoutBlocks(nodes: HTMLNode[], width: number, indent = 0, style = BASE_STYLE): Box[] {
+    const boxes: Box[] = [];
+    let inline: HTMLNode[] = [];
+
+    const flushInline = () => {
+      if (inline.some(node => node.type === 'element' || node.text.trim())) {
+        boxes.push(...this.layoutParagraph(inline, width, indent, style));
+      }
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (node.type === 'text' || INLINE_TAGS.has(node.tag)) {
+        inline.push(node);
+        continue;
+      }
+      flushInline();
+      boxes.push(...this.layoutBlock(node, width, indent, style));
+    }
+    flushInline();
+
+    return boxes;
+  }
+
+  private layoutBlock(element: HTMLElementNode, width: number, indent: number, style: TextStyle): Box[] {
+    const spacing: SpaceBox = { kind: 'space', height: PARAGRAPH_SPACING };
+
+    switch (element.tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const headingStyle = { ...style, size: HEADING_SIZES[element.tag], bold: true };
+        return [
+          { kind: 'space', height: headingStyle.size * 0.5 },
+          ...this.layoutParagraph(element.children, width, indent, headingStyle),
+          spacing,
+        ];
+      }
+      case 'p': {
+        const lines = this.layoutParagraph(element.children, width, indent, style);
+        // An empty paragraph is a deliberate blank line
+        return lines.length > 0 ? [...lines, spacing] : [{ kind: 'space', height: style.size * LINE_SPACING }];
+      }
+      case 'ul':
+      case 'ol': {
+        const items = this.layoutList(element, width, indent, style);
+        return indent === 0 ? [...items, spacing] : items;
+      }
+      case 'table':
+        return [this.layoutTable(element, width, indent, style), spacing];
+      case 'blockquote':
+        return this.layoutBlocks(element.children, width, indent + LIST_INDENT, { ...style, italic: true });
+      default:
+        return this.layoutBlocks(element.children, width, indent, style);
+    }
+  }
+
+  private layoutList(list: HTMLElementNode, width: number, indent: number, style: TextStyle): Box[] {
+    const boxes: Box[] = [];
+    const ordered = list.tag === 'ol';
+    const itemIndent = indent + LIST_INDENT;
+    const depth = Math.round(indent / LIST_INDENT);
+    let number = parseInt(list.attributes.start ?? '1', 10) || 1;
+
+    for (const child of list.children) {
+      if (child.type !== 'element') continue;
+      if (child.tag !== 'li') {
+        boxes.push(...this.layoutBlocks([child], width, itemIndent, style));
+        continue;
+      }
+
+      const itemBoxes = this.layoutBlocks(child.children, width, itemIndent, style);
+      const firstLine = itemBoxes.find((box): box is LineBox => box.kind === 'line');
+      if (firstLine) {
+        const text = ordered ? `${number}.` : BULLETS[depth % BULLETS.length];
+        const markerStyle = { ...(firstLine.segments[0]?.style ?? style), underline: false, strike: false, rise: 0 };
+        firstLine.marker = { text, style: markerStyle, width: this.measure(text, markerStyle) };
+      }
+
+      boxes.push(...itemBoxes);
+      number++;
+    }
+
+    return boxes;
+  }
+
+  private layoutTable(table: HTMLElementNode, width: number, indent: number, style: TextStyle): TableBox {
+    const rows: { row: HTMLElementNode; header: boolean }[] = [];
+    const collectRows = (nodes: HTMLNode[], header: boolean) => {
+      for (const node of nodes) {
+        if (node.type !== 'element') continue;
+        if (node.tag === 'tr') {
+          rows.push({ row: node, header });
+        } else if (node.tag === 'thead' || node.tag === 'tbody' || node.tag === 'tfoot') {
+          collectRows(node.children, header || node.tag === 'thead');
+        }
+      }
+    };
+    collectRows(table.children, false);
+
+    const getCells = (row: HTMLElementNode) =>
+      row.children.filter((cell): cell is HTMLElementNode =>
+        cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'));
+    const getSpan = (cell: HTMLElementNode) => Math.max(1, parseInt(cell.attributes.colspan ?? '1', 10) || 1);
+
+    const columnCount = Math.max(1, ...rows.map(({ row }) =>
+      getCells(row).reduce((count, cell) => count + getSpan(cell), 0)));
+    const columnWidth = (width - indent) / columnCount;
+
+    return {
+      kind: 'table',
+      indent,
+      rows: rows.map(({ row, header }) => {
+        const cells: TableCellBox[] = [];
+        let column = 0;
+
+        for (const cell of getCells(row)) {
+          const span = Math.min(getSpan(cell), columnCount - column);
+          if (span <= 0) break;
+
+          const isHeader = header || cell.tag === 'th';
+          const cellWidth = columnWidth * span;
+          const boxes = this.layoutBlocks(cell.children, cellWidth - 2 * CELL_PADDING, 0, { ...style, bold: style.bold || isHeader });
+          while (boxes.length > 0 && boxes[boxes.length - 1].kind === 'space') {
+            boxes.pop();
+          }
+
+          cells.push({ offset: column * columnWidth, width: cellWidth, header: isHeader, boxes });
+          column += span;
+        }
+
+        const contentHeight = Math.max(
+          style.size * LINE_SPACING,
+          ...cells.map(cell => cell.boxes.reduce((sum, box) => sum + this.getHeight(box), 0))
+        );
+        return { height: contentHeight + 2 * CELL_PADDING, cells };
+      }),
+    };
+  }
+
+  private layoutParagraph(nodes: HTMLNode[], width: number, indent: number, style: TextStyle): Box[] {
+    const pieces: InlinePiece[] = [];
+    this.collectInline(nodes, style, pieces);
+    return this.breakLines(pieces, width, indent);
+  }
+
+  private collectInline(nodes: HTMLNode[], style: TextStyle, pieces: InlinePiece[]): void {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        pieces.push({ kind: 'text', text: normalizeText(node.text), style });
+      } else if (node.tag === 'br') {
+        pieces.push({ kind: 'break', style });
+      } else if (node.tag === 'img') {
+        if (node.attributes.src) pieces.push({ kind: 'image', src: node.attributes.src });
+      } else {
+        this.collectInline(node.children, getInlineStyle(node, style), pieces);
+      }
+    }
+  }
+
+  private breakLines(pieces: InlinePiece[], width: number, indent: number): Box[] {
+    const boxes: Box[] = [];
+    const available = width - indent;
+    let segments: Segment[] = [];
+    let lineWidth = 0;
+    let pendingSpace: TextStyle | null = null;
+
+    const pushLine = (lineStyle: TextStyle | null) => {
+      if (segments.length === 0 && !lineStyle) return;
+      const size = Math.max(lineStyle?.size ?? 0, ...segments.map(segment => segment.style.size));
+      boxes.push({ kind: 'line', indent, segments, size, height: size * LINE_SPACING });
+      segments = [];
+      lineWidth = 0;
+      pendingSpace = null;
+    };
+
+    const append = (text: string, style: TextStyle, textWidth = this.measure(text, style)) => {
+      const last = segments[segments.length - 1];
+      if (last && sameStyle(last.style, style)) {
+        last.text += text;
+        last.width += textWidth;
+      } else {
+        segments.push({ text, style, width: textWidth });
+      }
+      lineWidth += textWidth;
+    };
+
+    for (const piece of pieces) {
+      if (piece.kind === 'break') {
+        pushLine(segments.length > 0 ? null : piece.style);
+        continue;
+      }
+
+      if (piece.kind === 'image') {
+        const image = this.images.get(piece.src);
+        if (!image) continue;
+        pushLine(null);
+        // Pixels at 96 dpi to points, shrunk to fit the column and a page
+        const natural = image.scale(0.75);
+        const scale = Math.min(1, available / natural.width, CONTENT_HEIGHT / natural.height);
+        boxes.push({ kind: 'image', indent, image, width: natural.width * scale, height: natural.height * scale + 4 });
+        continue;
+      }
+
+      for (const word of piece.text.match(WORD_PATTERN) ?? []) {
+        if (/^\s/.test(word)) {
+          if (segments.length > 0) pendingSpace = piece.style;
+          continue;
+        }
+
+        const wordWidth = this.measure(word, piece.style);
+        const spaceWidth = pendingSpace ? this.measure(' ', pendingSpace) : 0;
+        if (segments.length > 0 && lineWidth + spaceWidth + wordWidth > available) {
+          pushLine(null);
+        } else if (pendingSpace) {
+          append(' ', pendingSpace, spaceWidth);
+        }
+        pendingSpace = null;
+
+        if (wordWidth <= available) {
+          append(word, piece.style, wordWidth);
+          continue;
+        }
+
+        // Break words wider than the line at character boundaries
+        for (const char of word) {
+          const charWidth = this.measure(char, piece.style);
+          if (segments.length > 0 && lineWidth + charWidth > available) {
+            pushLine(null);
+          }
+          append(char, piece.style, charWidth);
+        }
+      }
+    }
+    pushLine(null);
+
+    return boxes;
+  }
+
+  private measure(text: string, style: TextStyle): number {
+    return this.fonts.widthOfTextAtSize(text, style.size, style);
+  }
+
+  private getHeight(box: Box): number {
+    return box.kind === 'table' ? box.rows.reduce((sum, row) => sum + row.height, 0) : box.height;
+  }
+
+  // Drawing: place boxes on pages, starting a new page when one is full
+
+  render(boxes: Box[]): void {
+    this.newPage();
+
+    for (const box of boxes) {
+      if (box.kind === 'space') {
+        this.y -= box.height;
+        continue;
+      }
+
+      if (box.kind === 'table') {
+        // Tables break between rows
+        for (const row of box.rows) {
+          this.ensureSpace(row.height);
+          this.drawTableRow(this.page!, row, MARGIN + box.indent, this.y);
+          this.y -= row.height;
+        }
+        continue;
+      }
+
+      this.ensureSpace(box.height);
+      this.drawBox(this.page!, box, MARGIN, this.y);
+      this.y -= box.height;
+    }
+  }
+
+  private newPage(): void {
+    this.page = this.pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number): void {
+    // A box taller than a whole page is drawn from the top of a fresh page and overflows
+    if (this.y - height < MARGIN && this.y < PAGE_HEIGHT - MARGIN) {
+      this.newPage();
+    }
+  }
+
+  private drawBox(page: PDFPage, box: Box, x: number, top: number): void {
+    switch (box.kind) {
+      case 'line':
+        this.drawLine(page, box, x, top);
+        break;
+      case 'image':
+        page.drawImage(box.image, { x: x + box.indent, y: top - box.height + 2, width: box.width, height: box.height - 4 });
+        break;
+      case 'table': {
+        let rowTop = top;
+        for (const row of box.rows) {
+          this.drawTableRow(page, row, x + box.indent, rowTop);
+          rowTop -= row.height;
+        }
+        break;
+      }
+    }
+  }
+
+  private drawLine(page: PDFPage, line: LineBox, x: number, top: number): void {
+    const baseline = top - line.size;
+    let cursor = x + line.indent;
+
+    if (line.marker) {
+      const { text, style, width } = line.marker;
+      this.fonts.drawText(page, text, { x: cursor - width - MARKER_GAP, y: baseline, size: style.size, bold: style.bold, color: style.color });
+    }
+
+    for (const { text, style, width } of line.segments) {
+      const y = baseline + style.rise;
+      this.fonts.drawText(page, text, { x: cursor, y, size: style.size, bold: style.bold, italic: style.italic, color: style.color });
+
+      const thickness = Math.max(0.5, style.size * 0.05);
+      if (style.underline) {
+        page.drawLine({ start: { x: cursor, y: y - style.size * 0.12 }, end: { x: cursor + width, y: y - style.size * 0.12 }, thickness, color: style.color });
+      }
+      if (style.strike) {
+        page.drawLine({ start: { x: cursor, y: y + style.size * 0.3 }, end: { x: cursor + width, y: y + style.size * 0.3 }, thickness, color: style.color });
+      }
+      cursor += width;
+    }
+  }
+
+  private drawTableRow(page: PDFPage, row: TableRowBox, x: number, top: number): void {
+    for (const cell of row.cells) {
+      page.drawRectangle({
+        x: x + cell.offset,
+        y: top - row.height,
+        width: cell.width,
+        height: row.height,
+        borderColor: BORDER_COLOR,
+        borderWidth: 0.5,
+        color: cell.header ? HEADER_FILL : undefined,
+      });
+
+      let cellTop = top - CELL_PADDING;
+      for (const box of cell.boxes) {
+        this.drawBox(page, box, x + cell.offset + CELL_PADDING, cellTop);
+        cellTop -= this.getHeight(box);
+      }
+    }
+  }
+
+  drawPageNumbers(): void {
+    const pages = this.pdfDoc.getPages();
+    pages.forEach((page, index) => {
+      this.fonts.drawText(page, `Page ${index + 1} of ${pages.length}`, {
+        x: PAGE_WIDTH - MARGIN - 80,
+        y: MARGIN / 2,
+        size: 10,
+        color: rgb(0.5, 0.5, 0.5),
+      });
+    });
+  }
+}
+
+/**
+ * Render an HTML fragment (as produced by mammoth) into a new PDF
+ */
+export async function renderHTMLToPDF(html: string): Promise<ArrayBuffer> {
+  const nodes = parseHTML(html);
+  const pdfDoc = await PDFDocument.create();
+  const fonts = await PDFFontSet.embed(pdfDoc, normalizeText(getTextContent(nodes)) + BULLETS.join(''));
+  const images = await embedImages(pdfDoc, nodes);
+
+  const renderer = new HTMLPDFRenderer(pdfDoc, fonts, images);
+  renderer.render(renderer.layoutBlocks(nodes, CONTENT_WIDTH));
+  renderer.drawPageNumbers();
+
+  const pdfBytes = await pdfDoc.save();
+  return pdfBytes.buffer as ArrayBuffer;
+}
@@ -0,0 +1,72 @@
+/**
+ * Merge recipes for the custom merge mode
+ * A recipe lists steps that name their documents by file name, so one saved as JSON can be
+ * loaded again with a new upload of the same files.
+ */
+
+import { DocumentFile, MergeRecipe, MergeRecipeStep } from '@/app/types';
+import { generateDocumentId } from './file-utils';
+
+/**
+ * One step per document, taking all of it, in list order
+ */
+export function createMergeRecipe(documents: DocumentFile[]): MergeRecipe {
+  return {
+    version: 1,
+    steps: documents.map(doc => ({ id: generateDocumentId(), documentName: doc.name })),
+  };
+}
+
+/**
+ * JSON for a recipe file; step ids are left out since they only matter to the editor
+ */
+export function serializeMergeRecipe(recipe: MergeRecipe): string {
+  const steps = recipe.steps.map(step => ({
+    documentName: step.documentName,
+    range: step.range || undefined,
+    separator: step.separator || undefined,
+    title: step.title || undefined,
+    rotation: step.rotation || undefined,
+  }));
+  return JSON.stringify({ version: recipe.version, steps }, null, 2);
+}
+
+/**
+ * Read a recipe file, throwing a readable error when it is not one
+ */
+export function parseMergeRecipe(json: string): MergeRecipe {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The recipe file is not valid JSON');
+  }
+
+  const recipe = data as { version?: unknown; steps?: unknown };
+  if (!recipe || typeof recipe !== 'object' || recipe.version !== 1 || !Array.isArray(recipe.steps)) {
+    throw new Error('The file is not a merge recipe');
+  }
+
+  const steps = recipe.steps.map((raw: unknown, index): MergeRecipeStep => {
+    const step = (raw ?? {}) as Record<string, unknown>;
+    if (typeof step.documentName !== 'string' || !step.documentName) {
+      throw new Error(`Recipe step ${index + 1} does not name a document`);
+    }
+
+    const rotation = typeof step.rotation === 'number' ? step.rotation : 0;
+    if (rotation % 90 !== 0) {
+      throw new Error(`Recipe step ${index + 1} has a rotation that is not a multiple of 90 degrees`);
+    }
+
+    return {
+      id: generateDocumentId(),
+      documentName: step.documentName,
+      range: typeof step.range === 'string' ? step.range : undefined,
+      separator: step.separator === true,
+      title: typeof step.title === 'string' ? step.title : undefined,
+      rotation: ((rotation % 360) + 360) % 360,
+    };
+  });
+
+  return { version: 1, steps };
+}
@@ -0,0 +1,375 @@
+/**
+ * Office Open XML package utilities shared by the DOCX and PPTX processors
+ * Handles relationship parts, content types and part copying between JSZip archives
+ */
+
+import JSZip from 'jszip';
+
+export interface OOXMLRelationship {
+  id: string;
+  type: string;
+  target: string;
+  targetMode?: string;
+}
+
+export const CONTENT_TYPES_PATH = '[Content_Types].xml';
+
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/**
+ * Check a relationship type by its final segment, e.g. "slideLayout" or "image"
+ */
+export function isRelationshipType(rel: OOXMLRelationship, name: string): boolean {
+  return rel.type.endsWith(`/${name}`);
+}
+
+/**
+ * Get the .rels part that holds the relationships of a part ('' for the package itself)
+ */
+export function getRelsPath(partPath: string): string {
+  const slashIndex = partPath.lastIndexOf('/');
+  const dir = slashIndex >= 0 ? partPath.substring(0, slashIndex + 1) : '';
+  const name = partPath.substring(slashIndex + 1);
+  return `${dir}_rels/${name}.rels`;
+}
+
+/**
+ * Resolve a relationship target to an absolute part path inside the package
+ */
+export function resolveTarget(sourcePart: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.substring(1);
+  }
+
+  const segments = sourcePart.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Build a relationship target pointing from one part to another
+ */
+export function relativeTarget(fromPart: string, toPart: string): string {
+  const fromDir = fromPart.split('/').slice(0, -1);
+  const to = toPart.split('/');
+
+  let common = 0;
+  while (common < fromDir.length && common < to.length - 1 && fromDir[common] === to[common]) {
+    common++;
+  }
+
+  return [
+    ...fromDir.slice(common).map(() => '..'),
+    ...to.slice(common),
+  ].join('/');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([\w:]+)\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(source)) !== null) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+export function parseRelationships(xml: string): OOXMLRelationship[] {
+  const relationships: OOXMLRelationship[] = [];
+  const relationshipPattern = /<Relationship\b([^>]*?)\/?>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = relationshipPattern.exec(xml)) !== null) {
+    const attributes = parseAttributes(match[1]);
+    if (!attributes.Id || !attributes.Type || attributes.Target === undefined) continue;
+
+    relationships.push({
+      id: attributes.Id,
+      type: attributes.Type,
+      target: attributes.Target,
+      targetMode: attributes.TargetMode,
+    });
+  }
+
+  return relationships;
+}
+
+export function serializeRelationships(relationships: OOXMLRelationship[]): string {
+  const items = relationships.map(rel =>
+    `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"${rel.targetMode ? ` TargetMode="${rel.targetMode}"` : ''}/>`
+  );
+  return `${XML_DECLARATION}\n<Relationships xmlns="${RELATIONSHIPS_NAMESPACE}">${items.join('')}</Relationships>`;
+}
+
+export async function readRelationships(zip: JSZip, partPath: string): Promise<OOXMLRelationship[]> {
+  const relsFile = zip.file(getRelsPath(partPath));
+  if (!relsFile) return [];
+  return parseRelationships(await relsFile.async('string'));
+}
+
+export function writeRelationships(zip: JSZip, partPath: string, relationships: OOXMLRelationship[]): void {
+  zip.file(getRelsPath(partPath), serializeRelationships(relationships));
+}
+
+/**
+ * Get the next free "rIdN" identifier for a relationship list
+ */
+export function getNextRelationshipId(relationships: OOXMLRelationship[]): string {
+  const max = relationships.reduce((highest, rel) => {
+    const match = /^rId(\d+)$/.exec(rel.id);
+    return match ? Math.max(highest, parseInt(match[1], 10)) : highest;
+  }, 0);
+  return `rId${max + 1}`;
+}
+
+/**
+ * Find the main document part (word/document.xml, ppt/presentation.xml, ...)
+ */
+export async function getMainPartPath(zip: JSZip): Promise<string> {
+  const packageRels = await readRelationships(zip, '');
+  const officeDocument = packageRels.find(rel => isRelationshipType(rel, 'officeDocument'));
+  if (!officeDocument) {
+    throw new Error('Invalid Office document: main part not found');
+  }
+  return resolveTarget('', officeDocument.target);
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Replace every outermost element with the given qualified name. Copies nested inside one, such
+ * as the old section properties a w:sectPrChange revision keeps, are left inside it untouched.
+ */
+export function replaceOutermostElements(
+  xml: string,
+  name: string,
+  replace: (element: string, index: number) => string
+): string {
+  const tags = new RegExp(`<(/?)${name}\\b[^>]*?(/?)>`, 'g');
+  let result = '';
+  let copiedTo = 0;
+  let depth = 0;
+  let start = 0;
+  let index = 0;
+
+  for (const match of xml.matchAll(tags)) {
+    const [tag, closing, selfClosing] = match;
+    const position = match.index ?? 0;
+
+    if (closing) {
+      depth--;
+    } else {
+      if (depth === 0) start = position;
+      if (!selfClosing) depth++;
+    }
+
+    if (depth === 0) {
+      const end = position + tag.length;
+      result += xml.slice(copiedTo, start) + replace(xml.slice(start, end), index++);
+      copiedTo = end;
+    }
+  }
+
+  return result + xml.slice(copiedTo);
+}
+
+/**
+ * Mutable view of a package's [Content_Types].xml
+ */
+export class ContentTypes {
+  private defaults = new Map<string, string>();
+  private overrides = new Map<string, string>();
+
+  static async load(zip: JSZip): Promise<ContentTypes> {
+    const contentTypes = new ContentTypes();
+    const file = zip.file(CONTENT_TYPES_PATH);
+    if (!file) return contentTypes;
+
+    const xml = await file.async('string');
+    const defaultPattern = /<Default\b([^>]*?)\/?>/g;
+    const overridePattern = /<Override\b([^>]*?)\/?>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = defaultPattern.exec(xml)) !== null) {
+      const { Extension, ContentType } = parseAttributes(match[1]);
+      if (Extension && ContentType) contentTypes.defaults.set(Extension.toLowerCase(), ContentType);
+    }
+    while ((match = overridePattern.exec(xml)) !== null) {
+      const { PartName, ContentType } = parseAttributes(match[1]);
+      if (PartName && ContentType) contentTypes.overrides.set(PartName.replace(/^\//, ''), ContentType);
+    }
+
+    return contentTypes;
+  }
+
+  getContentType(partPath: string): string | undefined {
+    return this.overrides.get(partPath) ?? this.defaults.get(this.getExtension(partPath));
+  }
+
+  getDefault(extension: string): string | undefined {
+    return this.defaults.get(extension.toLowerCase());
+  }
+
+  setDefault(extension: string, contentType: string): void {
+    this.defaults.set(extension.toLowerCase(), contentType);
+  }
+
+  getOverride(partPath: string): string | undefined {
+    return this.overrides.get(partPath);
+  }
+
+  setOverride(partPath: string, contentType: string): void {
+    this.overrides.set(partPath, contentType);
+  }
+
+  removeOverride(partPath: string): void {
+    this.overrides.delete(partPath);
+  }
+
+  getPartsOfType(contentType: string): string[] {
+    return [...this.overrides.entries()]
+      .filter(([, type]) => type === contentType)
+      .map(([partPath]) => partPath);
+  }
+
+  save(zip: JSZip): void {
+    const defaults = [...this.defaults.entries()].map(([extension, type]) =>
+      `<Default Extension="${extension}" ContentType="${type}"/>`
+    );
+    const overrides = [...this.overrides.entries()].map(([partPath, type]) =>
+      `<Override PartName="/${partPath}" ContentType="${type}"/>`
+    );
+    zip.file(
+      CONTENT_TYPES_PATH,
+      `${XML_DECLARATION}\n<Types xmlns="${CONTENT_TYPES_NAMESPACE}">${defaults.join('')}${overrides.join('')}</Types>`
+    );
+  }
+
+  private getExtension(partPath: string): string {
+    return partPath.substring(partPath.lastIndexOf('.') + 1).toLowerCase();
+  }
+}
+
+export interface PartImporterOptions {
+  /** Return true to drop a relationship (and the part behind it) while importing */
+  skipRelationship?: (rel: OOXMLRelationship, sourcePart: string) => boolean;
+}
+
+/**
+ * Copies parts from one package into another, following their relationships.
+ * Every imported part gets a fresh, non-colliding name in the target package
+ * and its .rels are rewritten to point at the renamed parts. Relationship IDs
+ * inside a copied part are kept, since they are scoped to that part.
+ */
+export class OOXMLPartImporter {
+  private imported = new Map<string, string>();
+  private reserved = new Set<string>();
+
+  constructor(
+    private source: JSZip,
+    private sourceTypes: ContentTypes,
+    private target: JSZip,
+    private targetTypes: ContentTypes,
+    private options: PartImporterOptions = {}
+  ) {}
+
+  /**
+   * Import a part (and everything it references) and return its path in the target package
+   */
+  async importPart(sourcePath: string): Promise<string> {
+    const existing = this.imported.get(sourcePath);
+    if (existing) return existing;
+
+    const file = this.source.file(sourcePath);
+    if (!file) {
+      throw new Error(`Missing package part: ${sourcePath}`);
+    }
+
+    const targetPath = this.allocatePartName(sourcePath);
+    // Register before following relationships so reference cycles terminate
+    this.imported.set(sourcePath, targetPath);
+
+    this.target.file(targetPath, await file.async('uint8array'));
+    this.copyContentType(sourcePath, targetPath);
+
+    const relationships = await readRelationships(this.source, sourcePath);
+    if (relationships.length > 0) {
+      const rewritten: OOXMLRelationship[] = [];
+      for (const rel of relationships) {
+        if (this.options.skipRelationship?.(rel, sourcePath)) continue;
+
+        if (rel.targetMode === 'External') {
+          rewritten.push(rel);
+          continue;
+        }
+
+        const referencedPath = resolveTarget(sourcePath, rel.target);
+        if (!this.source.file(referencedPath)) {
+          console.warn(`Dropping broken relationship ${rel.id} in ${sourcePath}`);
+          continue;
+        }
+
+        const importedPath = await this.importPart(referencedPath);
+        rewritten.push({ ...rel, target: relativeTarget(targetPath, importedPath) });
+      }
+      writeRelationships(this.target, targetPath, rewritten);
+    }
+
+    return targetPath;
+  }
+
+  /**
+   * Source-to-target path mapping of every part imported so far
+   */
+  getImportedParts(): Map<string, string> {
+    return new Map(this.imported);
+  }
+
+  private copyContentType(sourcePath: string, targetPath: string): void {
+    const override = this.sourceTypes.getOverride(sourcePath);
+    if (override) {
+      this.targetTypes.setOverride(targetPath, override);
+      return;
+    }
+
+    const extension = sourcePath.substring(sourcePath.lastIndexOf('.') + 1);
+    const sourceDefault = this.sourceTypes.getDefault(extension);
+    const targetDefault = this.targetTypes.getDefault(extension);
+    if (sourceDefault && !targetDefault) {
+      this.targetTypes.setDefault(extension, sourceDefault);
+    } else if (sourceDefault && targetDefault !== sourceDefault) {
+      this.targetTypes.setOverride(targetPath, sourceDefault);
+    }
+  }
+
+  private allocatePartName(sourcePath: string): string {
+    const match = /^(.*\/)?([^/]*?)(\d*)(\.[^./]+)?$/.exec(sourcePath);
+    const dir = match?.[1] ?? '';
+    const base = match?.[2] ?? 'part';
+    const extension = match?.[4] ?? '';
+
+    let counter = 1;
+    let candidate = `${dir}${base}${counter}${extension}`;
+    while (this.target.file(candidate) || this.reserved.has(candidate)) {
+      candidate = `${dir}${base}${++counter}${extension}`;
+    }
+
+    this.reserved.add(candidate);
+    return candidate;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parsePageRanges, parsePageSelection, validatePageSelection } from './page-range';
+
+describe('parsePageSelection', () => {
+  it('selects every page when the selection is empty', () => {
+    expect(parsePageSelection('', 3)).toEqual([0, 1, 2]);
+    expect(parsePageSelection('   ', 2)).toEqual([0, 1]);
+  });
+
+  it('returns zero-based indices in the order written', () => {
+    expect(parsePageSelection('1-3, 7, 10-end', 12)).toEqual([0, 1, 2, 6, 9, 10, 11]);
+    expect(parsePageSelection('5, 1-2', 5)).toEqual([4, 0, 1]);
+  });
+
+  it('accepts "end" on either side and any spacing', () => {
+    expect(parsePageSelection('end', 4)).toEqual([3]);
+    expect(parsePageSelection(' 3 -END ,', 4)).toEqual([2, 3]);
+  });
+
+  it('keeps repeated pages', () => {
+    expect(parsePageSelection('2, 2', 3)).toEqual([1, 1]);
+  });
+
+  it('rejects malformed, backwards and out-of-range parts', () => {
+    expect(() => parsePageSelection('1-', 5)).toThrow('Invalid page range "1-"');
+    expect(() => parsePageSelection('4-2', 5)).toThrow('runs backwards');
+    expect(() => parsePageSelection('0', 5)).toThrow('outside the document (1-5)');
+    expect(() => parsePageSelection('3-6', 5)).toThrow('outside the document');
+  });
+
+  it('rejects a selection with no pages in it', () => {
+    expect(() => parsePageSelection(',,', 5)).toThrow('does not include any pages');
+  });
+});
+
+describe('parsePageRanges', () => {
+  it('returns one-based inclusive ranges', () => {
+    expect(parsePageRanges('1-3, 7, 9-end', 10)).toEqual([[1, 3], [7, 7], [9, 10]]);
+  });
+});
+
+describe('validatePageSelection', () => {
+  it('reports errors instead of throwing', () => {
+    expect(validatePageSelection('1-2', 2)).toEqual({ valid: true });
+    expect(validatePageSelection('abc', 2)).toEqual({
+      valid: false,
+      error: 'Invalid page range "abc". Use numbers like "1-3, 7, 10-end".',
+    });
+  });
+});
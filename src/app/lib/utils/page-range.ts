@@ -0,0 +1,78 @@
+/**
+ * Page selection parsing for strings such as "1-3, 7, 10-end"
+ * Page numbers are 1-based in the selection; page indices returned are 0-based
+ */
+
+/**
+ * Convert a page selection into zero-based page indices, in the order written.
+ * An empty selection means every page. Throws on malformed or out-of-range input.
+ */
+export function parsePageSelection(selection: string, pageCount: number): number[] {
+  const trimmed = selection.trim();
+  if (!trimmed) {
+    return Array.from({ length: pageCount }, (_, i) => i);
+  }
+
+  const indices: number[] = [];
+  for (const [start, end] of parsePageRanges(trimmed, pageCount)) {
+    for (let page = start; page <= end; page++) {
+      indices.push(page - 1);
+    }
+  }
+
+  if (indices.length === 0) {
+    throw new Error('Page selection does not include any pages.');
+  }
+
+  return indices;
+}
+
+/**
+ * Convert a page selection into 1-based inclusive [start, end] ranges, one per comma-separated part
+ */
+export function parsePageRanges(selection: string, pageCount: number): [number, number][] {
+  const ranges: [number, number][] = [];
+
+  for (const rawPart of selection.split(',')) {
+    const part = rawPart.trim();
+    if (!part) continue;
+
+    const match = /^(\d+|end)(?:\s*-\s*(\d+|end))?$/i.exec(part);
+    if (!match) {
+      throw new Error(`Invalid page range "${part}". Use numbers like "1-3, 7, 10-end".`);
+    }
+
+    const start = parsePageNumber(match[1], pageCount);
+    const end = match[2] !== undefined ? parsePageNumber(match[2], pageCount) : start;
+
+    if (start < 1 || end > pageCount) {
+      throw new Error(`Page range "${part}" is outside the document (1-${pageCount}).`);
+    }
+    if (start > end) {
+      throw new Error(`Page range "${part}" runs backwards.`);
+    }
+
+    ranges.push([start, end]);
+  }
+
+  return ranges;
+}
+
+/**
+ * Check a page selection without throwing
+ */
+export function validatePageSelection(selection: string, pageCount: number): { valid: boolean; error?: string } {
+  try {
+    parsePageSelection(selection, pageCount);
+    return { valid: true };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : 'Invalid page selection',
+    };
+  }
+}
+
+function parsePageNumber(value: string, pageCount: number): number {
+  return value.toLowerCase() === 'end' ? pageCount : parseInt(value, 10);
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { BatesOptions } from '@/app/types';
+import { buildBatesLog, formatBatesNumber, stampBatesNumbers } from './pdf-bates';
+
+const options: BatesOptions = {
+  prefix: 'ABC',
+  suffix: '',
+  start: 1,
+  digits: 6,
+  position: 'bottom-right',
+  fontSize: 10,
+  margin: 24,
+};
+
+async function createPDF(pageCount: number): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdfDoc.addPage();
+  return pdfDoc;
+}
+
+describe('formatBatesNumber', () => {
+  it('pads the counter to the digit count', () => {
+    expect(formatBatesNumber(options, 42)).toBe('ABC000042');
+    expect(formatBatesNumber({ prefix: '', suffix: '-CONF', digits: 3 }, 7)).toBe('007-CONF');
+  });
+
+  it('never cuts a counter wider than the digit count', () => {
+    expect(formatBatesNumber({ prefix: 'X', suffix: '', digits: 2 }, 12345)).toBe('X12345');
+    expect(formatBatesNumber({ prefix: 'X', suffix: '', digits: 0 }, 5)).toBe('X5');
+  });
+});
+
+describe('stampBatesNumbers', () => {
+  it('numbers every page from the start value', async () => {
+    const pdfDoc = await createPDF(3);
+    const ranges = await stampBatesNumbers(pdfDoc, { ...options, start: 100 }, ['a.pdf', 'a.pdf', 'a.pdf'], [0, 0, 0]);
+    expect(ranges).toEqual([{ begin: 'ABC000100', end: 'ABC000102', pageCount: 3, source: 'a.pdf' }]);
+  });
+
+  it('groups consecutive pages by document index', async () => {
+    const pdfDoc = await createPDF(5);
+    const ranges = await stampBatesNumbers(
+      pdfDoc,
+      options,
+      ['a.pdf', 'a.pdf', 'b.pdf', 'b.pdf', 'b.pdf'],
+      [0, 0, 1, 1, 1]
+    );
+    expect(ranges).toEqual([
+      { begin: 'ABC000001', end: 'ABC000002', pageCount: 2, source: 'a.pdf' },
+      { begin: 'ABC000003', end: 'ABC000005', pageCount: 3, source: 'b.pdf' },
+    ]);
+  });
+
+  it('keeps documents with the same name apart', async () => {
+    const pdfDoc = await createPDF(4);
+    const ranges = await stampBatesNumbers(pdfDoc, options, ['scan.pdf', 'scan.pdf', 'scan.pdf', 'scan.pdf'], [0, 0, 1, 1]);
+    expect(ranges.map(range => [range.begin, range.end])).toEqual([
+      ['ABC000001', 'ABC000002'],
+      ['ABC000003', 'ABC000004'],
+    ]);
+  });
+
+  it('gives every inserted page a range of its own', async () => {
+    const pdfDoc = await createPDF(5);
+    const ranges = await stampBatesNumbers(
+      pdfDoc,
+      options,
+      [undefined, undefined, 'a.pdf', undefined, 'b.pdf'],
+      [undefined, undefined, 0, undefined, 1]
+    );
+    expect(ranges).toEqual([
+      { begin: 'ABC000001', end: 'ABC000001', pageCount: 1, source: undefined },
+      { begin: 'ABC000002', end: 'ABC000002', pageCount: 1, source: undefined },
+      { begin: 'ABC000003', end: 'ABC000003', pageCount: 1, source: 'a.pdf' },
+      { begin: 'ABC000004', end: 'ABC000004', pageCount: 1, source: undefined },
+      { begin: 'ABC000005', end: 'ABC000005', pageCount: 1, source: 'b.pdf' },
+    ]);
+  });
+
+  it('returns no ranges for an empty document', async () => {
+    expect(await stampBatesNumbers(await createPDF(0), options, [], [])).toEqual([]);
+  });
+});
+
+describe('buildBatesLog', () => {
+  it('writes one CRLF-terminated row per range under a header', () => {
+    const log = buildBatesLog([
+      { begin: 'ABC000001', end: 'ABC000001', pageCount: 1 },
+      { begin: 'ABC000002', end: 'ABC000004', pageCount: 3, source: 'Exhibit A.pdf' },
+    ]);
+    expect(log).toBe(
+      'Begin Bates,End Bates,Pages,Source Document\r\n'
+      + 'ABC000001,ABC000001,1,(inserted pages)\r\n'
+      + 'ABC000002,ABC000004,3,Exhibit A.pdf\r\n'
+    );
+  });
+
+  it('quotes source names that need it', () => {
+    const log = buildBatesLog([{ begin: 'A1', end: 'A2', pageCount: 2, source: 'Smith, "draft".pdf' }]);
+    expect(log.split('\r\n')[1]).toBe('A1,A2,2,"Smith, ""draft"".pdf"');
+  });
+});
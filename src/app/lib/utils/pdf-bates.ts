@@ -0,0 +1,76 @@
+/**
+ * Bates numbering for merged PDFs
+ * Every page gets the next number of one running counter, drawn upright as the page is
+ * displayed. Consecutive pages from the same document become one range of the production log.
+ */
+
+import { PDFDocument, rgb } from 'pdf-lib';
+import { BatesOptions, BatesRange } from '@/app/types';
+import { formatCSV } from './csv';
+import { PDFFontSet } from './pdf-fonts';
+import { displayFrame } from './pdf-stamps';
+
+/**
+ * The Bates number of a page, e.g. ABC000042 for counter 42 with six digits
+ */
+export function formatBatesNumber(options: Pick<BatesOptions, 'prefix' | 'suffix' | 'digits'>, counter: number): string {
+  return `${options.prefix}${String(counter).padStart(Math.max(1, options.digits), '0')}${options.suffix}`;
+}
+
+/**
+ * Stamp a Bates number on every page of a document. `documents` gives the index in the merge of
+ * the document each page came from and `sources` its name, both in page order. Ranges follow the
+ * document index, so two documents sharing a name stay apart; pages without one are inserted
+ * pages and get a range each.
+ */
+export async function stampBatesNumbers(
+  pdfDoc: PDFDocument,
+  options: BatesOptions,
+  sources: (string | undefined)[],
+  documents: (number | undefined)[]
+): Promise<BatesRange[]> {
+  const pages = pdfDoc.getPages();
+  if (pages.length === 0) return [];
+
+  const start = Math.max(0, Math.floor(options.start));
+  const numbers = pages.map((_, index) => formatBatesNumber(options, start + index));
+  const fonts = await PDFFontSet.embed(pdfDoc, numbers.join('\n'));
+  const [edge, alignment] = options.position.split('-') as ['top' | 'bottom', 'left' | 'center' | 'right'];
+
+  pages.forEach((page, index) => {
+    const frame = displayFrame(page);
+    const text = numbers[index];
+    const textWidth = fonts.widthOfTextAtSize(text, options.fontSize);
+    const u = alignment === 'left'
+      ? options.margin
+      : alignment === 'right'
+        ? frame.width - options.margin - textWidth
+        : (frame.width - textWidth) / 2;
+    const v = edge === 'top' ? frame.height - options.margin - options.fontSize : options.margin;
+    const [x, y] = frame.toPageSpace(u, v);
+
+    fonts.drawText(page, text, { x, y, size: options.fontSize, color: rgb(0, 0, 0), rotate: frame.rotation });
+  });
+
+  const ranges: BatesRange[] = [];
+  numbers.forEach((number, index) => {
+    const last = ranges[ranges.length - 1];
+    if (last && index > 0 && documents[index] !== undefined && documents[index] === documents[index - 1]) {
+      last.end = number;
+      last.pageCount++;
+    } else {
+      ranges.push({ begin: number, end: number, pageCount: 1, source: sources[index] });
+    }
+  });
+  return ranges;
+}
+
+/**
+ * The production log: one CSV row per Bates range
+ */
+export function buildBatesLog(ranges: BatesRange[]): string {
+  return formatCSV([
+    ['Begin Bates', 'End Bates', 'Pages', 'Source Document'],
+    ...ranges.map(range => [range.begin, range.end, String(range.pageCount), range.source ?? '(inserted pages)']),
+  ]);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { decryptPDF, encryptPDF, isPDFEncrypted, PDFPasswordError } from './pdf-encryption';
+
+async function createPDF(title: string, pageCount: number): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(title);
+  for (let i = 0; i < pageCount; i++) {
+    pdfDoc.addPage().drawText(`Page ${i + 1}`, { x: 50, y: 700 });
+  }
+  return pdfDoc.save();
+}
+
+describe('encryptPDF', () => {
+  it('produces a file that is detected as encrypted', async () => {
+    const plain = await createPDF('Report', 1);
+    expect(isPDFEncrypted(plain)).toBe(false);
+
+    const encrypted = await encryptPDF(plain, { userPassword: 'secret' });
+    expect(isPDFEncrypted(encrypted)).toBe(true);
+    await expect(PDFDocument.load(encrypted)).rejects.toThrow();
+  });
+
+  it('round-trips through decryptPDF with the user password', async () => {
+    const encrypted = await encryptPDF(await createPDF('Quarterly Report', 3), { userPassword: 'secret' });
+    const decrypted = await decryptPDF(encrypted, 'secret');
+
+    expect(isPDFEncrypted(decrypted)).toBe(false);
+    const pdfDoc = await PDFDocument.load(decrypted);
+    expect(pdfDoc.getPageCount()).toBe(3);
+    expect(pdfDoc.getTitle()).toBe('Quarterly Report');
+  });
+
+  it('opens with the owner password too', async () => {
+    const encrypted = await encryptPDF(await createPDF('Owned', 1), { userPassword: 'user', ownerPassword: 'owner' });
+    const pdfDoc = await PDFDocument.load(await decryptPDF(encrypted, 'owner'));
+    expect(pdfDoc.getTitle()).toBe('Owned');
+  });
+
+  it('opens without a password when the user password is empty', async () => {
+    const encrypted = await encryptPDF(await createPDF('Restricted', 2), { userPassword: '', permissions: { copying: false } });
+    const pdfDoc = await PDFDocument.load(await decryptPDF(encrypted));
+    expect(pdfDoc.getPageCount()).toBe(2);
+  });
+
+  it('handles non-ASCII passwords', async () => {
+    const encrypted = await encryptPDF(await createPDF('Unicode', 1), { userPassword: 'pässwörd 密码' });
+    const pdfDoc = await PDFDocument.load(await decryptPDF(encrypted, 'pässwörd 密码'));
+    expect(pdfDoc.getTitle()).toBe('Unicode');
+  });
+});
+
+describe('decryptPDF', () => {
+  it('returns unencrypted files unchanged', async () => {
+    const plain = await createPDF('Plain', 1);
+    expect(await decryptPDF(plain)).toBe(plain);
+  });
+
+  it('asks for a password when none is given', async () => {
+    const encrypted = await encryptPDF(await createPDF('Locked', 1), { userPassword: 'secret' });
+    const error = await decryptPDF(encrypted).catch(caught => caught);
+    expect(error).toBeInstanceOf(PDFPasswordError);
+    expect(error.reason).toBe('required');
+  });
+
+  it('rejects a wrong password', async () => {
+    const encrypted = await encryptPDF(await createPDF('Locked', 1), { userPassword: 'secret' });
+    const error = await decryptPDF(encrypted, 'guess').catch(caught => caught);
+    expect(error).toBeInstanceOf(PDFPasswordError);
+    expect(error.reason).toBe('incorrect');
+  });
+});
@@ -0,0 +1,583 @@
+/**
+ * PDF password security (the standard security handler)
+ * pdf-lib cannot read encrypted files, so they are decrypted here first: RC4 and AES,
+ * revisions 2 to 6, with the user or the owner password. Output is encrypted with
+ * AES-256 (revision 6). MD5 and RC4 are implemented here as Web Crypto lacks them.
+ */
+
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStreamWriter,
+  PDFString,
+} from 'pdf-lib';
+import type { PDFEncryptionOptions, PDFPermissions } from '@/app/types';
+
+type CryptMethod = 'none' | 'rc4' | 'aes128' | 'aes256';
+
+interface SecurityHandler {
+  fileKey: Uint8Array;
+  stringMethod: CryptMethod;
+  streamMethod: CryptMethod;
+  encryptMetadata: boolean;
+}
+
+export class PDFPasswordError extends Error {
+  constructor(readonly reason: 'required' | 'incorrect') {
+    super(reason === 'required' ? 'This PDF is password protected' : 'The PDF password is incorrect');
+    this.name = 'PDFPasswordError';
+  }
+}
+
+// Padding string from the specification, used to stretch passwords to 32 bytes
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+// Bits of the /P entry; bit 1 is the lowest
+const PERMISSION_FLAGS: Record<keyof PDFPermissions, number> = {
+  printing: (1 << 2) | (1 << 11), // print, and print at full quality
+  modifying: 1 << 3,
+  copying: 1 << 4,
+  annotating: 1 << 5,
+  fillingForms: 1 << 8,
+  documentAssembly: 1 << 10,
+};
+// Reserved bits that must be set, plus text extraction for accessibility
+const BASE_PERMISSIONS = 0xfffff0c0 | (1 << 9);
+
+const ENCRYPT_TOKEN = new TextEncoder().encode('/Encrypt');
+
+// ---- Primitives ----
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+function md5(data: Uint8Array): Uint8Array {
+  const paddedLength = (((data.length + 8) >>> 6) + 1) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  const words = new Array<number>(16);
+
+  for (let chunk = 0; chunk < paddedLength; chunk += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(chunk + i * 4, true);
+    let [a, b, c, d] = state;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)];
+      const sum = (f + a + MD5_CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  state.forEach((word, index) => digestView.setUint32(index * 4, word, true));
+  return digest;
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = new Uint8Array(256).map((_, index) => index);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+
+  const output = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    output[k] = data[k] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return output;
+}
+
+function concatBytes(...parts: ArrayLike<number>[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+async function sha(algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512', data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource));
+}
+
+async function aesKey(key: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * AES-CBC with PKCS#7 padding
+ */
+async function aesEncrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const result = await crypto.subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, await aesKey(key), data as BufferSource);
+  return new Uint8Array(result);
+}
+
+/**
+ * AES-CBC over whole blocks, without padding
+ */
+async function aesEncryptBlocks(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  // Web Crypto always pads; the padding block comes last and is simply dropped
+  return (await aesEncrypt(key, iv, data)).subarray(0, data.length);
+}
+
+async function aesDecryptBlocks(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  // Append a block that decrypts to valid padding so Web Crypto accepts unpadded input
+  const paddingBlock = await aesEncryptBlocks(key, data.subarray(data.length - 16), new Uint8Array(16).fill(16));
+  const result = await crypto.subtle.decrypt(
+    { name: 'AES-CBC', iv: iv as BufferSource },
+    await aesKey(key),
+    concatBytes(data, paddingBlock) as BufferSource
+  );
+  return new Uint8Array(result);
+}
+
+// ---- Key derivation ----
+
+function legacyPasswordBytes(password: string): Uint8Array {
+  const bytes = Array.from(password.slice(0, 32), char => {
+    const code = char.charCodeAt(0);
+    return code < 256 ? code : 0x3f;
+  });
+  return concatBytes(bytes, PASSWORD_PADDING).subarray(0, 32);
+}
+
+function unicodePasswordBytes(password: string): Uint8Array {
+  // NFKC stands in for the SASLprep profile the specification asks for
+  return new TextEncoder().encode(password.normalize('NFKC')).subarray(0, 127);
+}
+
+/**
+ * File key for revisions 2-4 (Algorithm 2), from a padded user password
+ */
+function legacyFileKey(
+  paddedPassword: Uint8Array,
+  dict: { o: Uint8Array; p: number; revision: number; keyLength: number; fileId: Uint8Array; encryptMetadata: boolean }
+): Uint8Array {
+  const permissions = new Uint8Array(4);
+  new DataView(permissions.buffer).setInt32(0, dict.p, true);
+  const skipMetadata = dict.revision >= 4 && !dict.encryptMetadata ? [0xff, 0xff, 0xff, 0xff] : [];
+
+  let key = md5(concatBytes(paddedPassword, dict.o.subarray(0, 32), permissions, dict.fileId, skipMetadata));
+  if (dict.revision >= 3) {
+    for (let i = 0; i < 50; i++) key = md5(key.subarray(0, dict.keyLength));
+  }
+  return key.slice(0, dict.keyLength);
+}
+
+/**
+ * The /U value a file key produces (Algorithms 4 and 5); only 16 bytes count from revision 3
+ */
+function legacyUserHash(fileKey: Uint8Array, revision: number, fileId: Uint8Array): Uint8Array {
+  if (revision === 2) return rc4(fileKey, PASSWORD_PADDING);
+
+  let hash = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, fileId)));
+  for (let i = 1; i <= 19; i++) {
+    hash = rc4(fileKey.map(byte => byte ^ i), hash);
+  }
+  return hash;
+}
+
+/**
+ * RC4 key protecting the user password inside /O (Algorithm 3, steps a-d)
+ */
+function legacyOwnerKey(ownerPassword: Uint8Array, revision: number, keyLength: number): Uint8Array {
+  let key = md5(ownerPassword);
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) key = md5(key);
+  }
+  return key.slice(0, revision === 2 ? 5 : keyLength);
+}
+
+/**
+ * Password hash for revisions 5 and 6 (Algorithm 2.B; revision 5 uses a single SHA-256)
+ */
+async function modernHash(password: Uint8Array, salt: Uint8Array, userKey: Uint8Array, revision: number): Promise<Uint8Array> {
+  let key = await sha('SHA-256', concatBytes(password, salt, userKey));
+  if (revision === 5) return key;
+
+  let encrypted: Uint8Array = new Uint8Array(0);
+  for (let round = 0; round < 64 || encrypted[encrypted.length - 1] > round - 32; round++) {
+    const block = concatBytes(password, key, userKey);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) repeated.set(block, i * block.length);
+
+    encrypted = await aesEncryptBlocks(key.subarray(0, 16), key.subarray(16, 32), repeated);
+    const remainder = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    key = await sha(remainder === 0 ? 'SHA-256' : remainder === 1 ? 'SHA-384' : 'SHA-512', encrypted);
+  }
+  return key.subarray(0, 32);
+}
+
+// ---- Reading the encryption dictionary ----
+
+function lookupBytes(dict: PDFDict, key: string): Uint8Array {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : new Uint8Array(0);
+}
+
+function lookupNumber(dict: PDFDict, key: string, fallback: number): number {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : fallback;
+}
+
+function cryptFilterMethod(encrypt: PDFDict, filterKey: string, version: number): CryptMethod {
+  if (version < 4) return 'rc4';
+
+  const filterName = encrypt.lookup(PDFName.of(filterKey));
+  if (!(filterName instanceof PDFName) || filterName.asString() === '/Identity') return 'none';
+
+  const filters = encrypt.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookup(filterName) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  switch (method instanceof PDFName ? method.asString() : '/None') {
+    case '/V2':
+      return 'rc4';
+    case '/AESV2':
+      return 'aes128';
+    case '/AESV3':
+      return 'aes256';
+    default:
+      return 'none';
+  }
+}
+
+function getFileId(context: PDFContext): Uint8Array {
+  const id = context.trailerInfo.ID;
+  const first = id instanceof PDFArray && id.size() > 0 ? id.lookup(0) : undefined;
+  return first instanceof PDFString || first instanceof PDFHexString ? first.asBytes() : new Uint8Array(0);
+}
+
+/**
+ * Check a password against the encryption dictionary and derive the file key
+ */
+async function openSecurityHandler(encrypt: PDFDict, fileId: Uint8Array, password: string): Promise<SecurityHandler> {
+  const filter = encrypt.lookup(PDFName.of('Filter'));
+  if (!(filter instanceof PDFName) || filter.asString() !== '/Standard') {
+    throw new Error('Unsupported PDF security handler (only password encryption is supported)');
+  }
+
+  const version = lookupNumber(encrypt, 'V', 0);
+  const revision = lookupNumber(encrypt, 'R', 2);
+  const o = lookupBytes(encrypt, 'O');
+  const u = lookupBytes(encrypt, 'U');
+  const encryptMetadataValue = encrypt.lookup(PDFName.of('EncryptMetadata'));
+  const encryptMetadata = encryptMetadataValue === undefined || encryptMetadataValue.toString() !== 'false';
+  const methods = {
+    stringMethod: cryptFilterMethod(encrypt, 'StrF', version),
+    streamMethod: cryptFilterMethod(encrypt, 'StmF', version),
+    encryptMetadata,
+  };
+
+  if (revision >= 5) {
+    const passwordBytes = unicodePasswordBytes(password);
+    const userKey = u.subarray(0, 48);
+    const candidates = [
+      // Owner password first: it grants full access
+      { hash: o.subarray(0, 32), validationSalt: o.subarray(32, 40), keySalt: o.subarray(40, 48), extra: userKey, encryptedKey: lookupBytes(encrypt, 'OE') },
+      { hash: u.subarray(0, 32), validationSalt: u.subarray(32, 40), keySalt: u.subarray(40, 48), extra: new Uint8Array(0), encryptedKey: lookupBytes(encrypt, 'UE') },
+    ];
+
+    for (const candidate of candidates) {
+      if (bytesEqual(await modernHash(passwordBytes, candidate.validationSalt, candidate.extra, revision), candidate.hash)) {
+        const intermediateKey = await modernHash(passwordBytes, candidate.keySalt, candidate.extra, revision);
+        const fileKey = await aesDecryptBlocks(intermediateKey, new Uint8Array(16), candidate.encryptedKey.subarray(0, 32));
+        return { fileKey, ...methods };
+      }
+    }
+  } else if (revision >= 2) {
+    const keyLength = revision === 2 ? 5 : lookupNumber(encrypt, 'Length', 40) / 8;
+    const dict = { o, p: lookupNumber(encrypt, 'P', 0), revision, keyLength, fileId, encryptMetadata };
+    const matchLength = revision === 2 ? 32 : 16;
+    const tryUserPassword = (padded: Uint8Array): Uint8Array | null => {
+      const fileKey = legacyFileKey(padded, dict);
+      const hash = legacyUserHash(fileKey, revision, fileId);
+      return bytesEqual(hash.subarray(0, matchLength), u.subarray(0, matchLength)) ? fileKey : null;
+    };
+
+    const userKey = tryUserPassword(legacyPasswordBytes(password));
+    if (userKey) return { fileKey: userKey, ...methods };
+
+    // As an owner password, it decrypts the user password stored in /O (Algorithm 7)
+    const ownerKey = legacyOwnerKey(legacyPasswordBytes(password), revision, keyLength);
+    let userPassword = o.subarray(0, 32);
+    if (revision === 2) {
+      userPassword = rc4(ownerKey, userPassword);
+    } else {
+      for (let i = 19; i >= 0; i--) {
+        userPassword = rc4(ownerKey.map(byte => byte ^ i), userPassword);
+      }
+    }
+    const ownerFileKey = tryUserPassword(userPassword);
+    if (ownerFileKey) return { fileKey: ownerFileKey, ...methods };
+  } else {
+    throw new Error(`Unsupported PDF encryption revision ${revision}`);
+  }
+
+  throw new PDFPasswordError(password ? 'incorrect' : 'required');
+}
+
+// ---- Object traversal ----
+
+function objectKey(handler: SecurityHandler, ref: PDFRef, method: CryptMethod): Uint8Array {
+  if (method === 'aes256') return handler.fileKey;
+
+  const { objectNumber, generationNumber } = ref;
+  const salt = method === 'aes128' ? [0x73, 0x41, 0x6c, 0x54] : []; // "sAlT"
+  const key = md5(concatBytes(
+    handler.fileKey,
+    [objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff, generationNumber & 0xff, (generationNumber >> 8) & 0xff],
+    salt
+  ));
+  return key.subarray(0, Math.min(handler.fileKey.length + 5, 16));
+}
+
+async function decryptBytes(handler: SecurityHandler, method: CryptMethod, ref: PDFRef, data: Uint8Array): Promise<Uint8Array> {
+  if (method === 'none') return data;
+
+  const key = objectKey(handler, ref, method);
+  if (method === 'rc4') return rc4(key, data);
+
+  // AES data starts with its initialization vector
+  const body = data.subarray(16);
+  if (body.length === 0 || body.length % 16 !== 0) return new Uint8Array(0);
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: data.subarray(0, 16) as BufferSource }, await aesKey(key), body as BufferSource));
+  } catch {
+    // Some writers omit the padding
+    return aesDecryptBlocks(key, data.subarray(0, 16), body);
+  }
+}
+
+/**
+ * Replace every string inside an object; returns the replacement for a string object itself
+ */
+async function transformStrings(object: PDFObject, transform: (bytes: Uint8Array) => Promise<Uint8Array>): Promise<PDFObject> {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(toHex(await transform(object.asBytes())));
+  }
+
+  if (object instanceof PDFDict) {
+    // Signature values are never encrypted
+    const isSignature = object.lookup(PDFName.of('Type')) === PDFName.of('Sig');
+    for (const [key, value] of object.entries()) {
+      if (isSignature && key === PDFName.of('Contents')) continue;
+      const replacement = await transformStrings(value, transform);
+      if (replacement !== value) object.set(key, replacement);
+    }
+  } else if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      const value = object.get(index);
+      const replacement = await transformStrings(value, transform);
+      if (replacement !== value) object.set(index, replacement);
+    }
+  }
+  return object;
+}
+
+function isMetadataStream(stream: PDFRawStream): boolean {
+  return stream.dict.lookup(PDFName.of('Type')) === PDFName.of('Metadata');
+}
+
+/**
+ * pdf-lib fails to unpack encrypted object streams and keeps them as invalid objects;
+ * decrypt and unpack them now
+ */
+async function recoverObjectStream(context: PDFContext, handler: SecurityHandler, ref: PDFRef, object: PDFInvalidObject): Promise<void> {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+
+  const parsed = PDFObjectParser.forBytes(bytes, context).parseObject();
+  if (!(parsed instanceof PDFRawStream) || parsed.dict.lookup(PDFName.of('Type')) !== PDFName.of('ObjStm')) return;
+
+  const contents = await decryptBytes(handler, handler.streamMethod, ref, parsed.contents);
+  await PDFObjectStreamParser.forStream(PDFRawStream.of(parsed.dict, contents)).parseIntoContext();
+  context.delete(ref);
+}
+
+// ---- Public API ----
+
+/**
+ * Cheap check for an encryption dictionary, without parsing the file
+ */
+export function isPDFEncrypted(bytes: Uint8Array): boolean {
+  const last = bytes.length - ENCRYPT_TOKEN.length;
+  for (let i = 0; i <= last; i++) {
+    if (bytes[i] !== ENCRYPT_TOKEN[0]) continue;
+    let j = 1;
+    while (j < ENCRYPT_TOKEN.length && bytes[i + j] === ENCRYPT_TOKEN[j]) j++;
+    if (j === ENCRYPT_TOKEN.length) return true;
+  }
+  return false;
+}
+
+/**
+ * Decrypt a password-protected PDF into an unencrypted copy
+ * Throws PDFPasswordError when the password (empty by default) opens neither as user nor owner.
+ */
+export async function decryptPDF(bytes: Uint8Array, password = ''): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const { context } = pdfDoc;
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encrypt = context.lookup(encryptRef);
+  if (!(encrypt instanceof PDFDict)) return bytes;
+
+  const handler = await openSecurityHandler(encrypt, getFileId(context), password);
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef) continue;
+
+    if (object instanceof PDFInvalidObject) {
+      try {
+        await recoverObjectStream(context, handler, ref, object);
+      } catch (error) {
+        console.warn(`Could not decrypt object ${ref}:`, error);
+      }
+      continue;
+    }
+
+    const decryptString = (data: Uint8Array) => decryptBytes(handler, handler.stringMethod, ref, data);
+    if (object instanceof PDFRawStream) {
+      await transformStrings(object.dict, decryptString);
+      if (isMetadataStream(object) && !handler.encryptMetadata) continue;
+      const contents = await decryptBytes(handler, handler.streamMethod, ref, object.contents);
+      context.assign(ref, PDFRawStream.of(object.dict, contents));
+    } else {
+      const replacement = await transformStrings(object, decryptString);
+      if (replacement !== object) context.assign(ref, replacement);
+    }
+  }
+
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+  context.trailerInfo.Encrypt = undefined;
+  // Written from the context: the document's catalog may have been inside an object stream
+  return PDFStreamWriter.forContext(context, 50).serializeToBuffer();
+}
+
+/**
+ * Encrypt a PDF with AES-256
+ * Without an owner password a random one is used, so the permissions cannot be lifted.
+ */
+export async function encryptPDF(bytes: Uint8Array, options: PDFEncryptionOptions): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+  const { context } = pdfDoc;
+
+  const permissions = { printing: true, modifying: true, copying: true, annotating: true, fillingForms: true, documentAssembly: true, ...options.permissions };
+  const p = (Object.keys(PERMISSION_FLAGS) as (keyof PDFPermissions)[])
+    .reduce((flags, permission) => (permissions[permission] ? flags | PERMISSION_FLAGS[permission] : flags), BASE_PERMISSIONS) | 0;
+
+  const fileKey = randomBytes(32);
+  const userPassword = unicodePasswordBytes(options.userPassword);
+  const ownerPassword = options.ownerPassword ? unicodePasswordBytes(options.ownerPassword) : randomBytes(32);
+
+  const userSalts = randomBytes(16);
+  const u = concatBytes(await modernHash(userPassword, userSalts.subarray(0, 8), new Uint8Array(0), 6), userSalts);
+  const ue = await aesEncryptBlocks(await modernHash(userPassword, userSalts.subarray(8), new Uint8Array(0), 6), new Uint8Array(16), fileKey);
+  const ownerSalts = randomBytes(16);
+  const o = concatBytes(await modernHash(ownerPassword, ownerSalts.subarray(0, 8), u, 6), ownerSalts);
+  const oe = await aesEncryptBlocks(await modernHash(ownerPassword, ownerSalts.subarray(8), u, 6), new Uint8Array(16), fileKey);
+
+  const perms = new Uint8Array(16);
+  new DataView(perms.buffer).setInt32(0, p, true);
+  perms.set([0xff, 0xff, 0xff, 0xff, 0x54 /* T: metadata is encrypted */, 0x61, 0x64, 0x62], 4);
+  perms.set(randomBytes(4), 12);
+
+  const encryptData = async (data: Uint8Array) => {
+    const iv = randomBytes(16);
+    return concatBytes(iv, await aesEncrypt(fileKey, iv, data));
+  };
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFRawStream) {
+      await transformStrings(object.dict, encryptData);
+      context.assign(ref, PDFRawStream.of(object.dict, await encryptData(object.contents)));
+    } else {
+      const replacement = await transformStrings(object, encryptData);
+      if (replacement !== object) context.assign(ref, replacement);
+    }
+  }
+
+  context.trailerInfo.Encrypt = context.register(context.obj({
+    Filter: 'Standard',
+    V: 5,
+    R: 6,
+    Length: 256,
+    CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } },
+    StmF: 'StdCF',
+    StrF: 'StdCF',
+    O: PDFHexString.of(toHex(o)),
+    U: PDFHexString.of(toHex(u)),
+    OE: PDFHexString.of(toHex(oe)),
+    UE: PDFHexString.of(toHex(ue)),
+    Perms: PDFHexString.of(toHex(await aesEncryptBlocks(fileKey, new Uint8Array(16), perms))),
+    P: p,
+  }));
+  if (!context.trailerInfo.ID) {
+    const id = PDFHexString.of(toHex(randomBytes(16)));
+    context.trailerInfo.ID = context.obj([id, id]);
+  }
+  // AES-256 arrived as an Adobe extension to PDF 1.7
+  pdfDoc.catalog.set(PDFName.of('Extensions'), context.obj({ ADBE: { BaseVersion: '1.7', ExtensionLevel: 8 } }));
+
+  // Objects inside object streams must not be encrypted individually, so write them all at top level
+  return pdfDoc.save({ useObjectStreams: false });
+}
@@ -0,0 +1,237 @@
+/**
+ * Unicode font support for generated PDFs
+ * Embeds the bundled Noto fonts from /fonts (subset to the glyphs actually drawn) and
+ * splits text into runs so every character is drawn with a font that covers its script.
+ * Falls back to the standard Helvetica fonts when the font files cannot be loaded.
+ */
+
+import { degrees, PDFDocument, PDFFont, PDFPage, RGB, StandardFonts } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+
+export type FontScript = 'latin' | 'arabic' | 'hebrew' | 'cjk' | 'korean' | 'emoji';
+export type FontVariant = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+export interface FontStyle {
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface TextRun {
+  text: string;
+  font: PDFFont;
+}
+
+export interface DrawTextOptions {
+  x: number;
+  y: number;
+  size: number;
+  color?: RGB;
+  bold?: boolean;
+  italic?: boolean;
+  rotate?: number; // Counter-clockwise degrees around (x, y)
+  opacity?: number;
+}
+
+const FONT_BASE_PATH = '/fonts/';
+
+const FONT_VARIANTS: FontVariant[] = ['regular', 'bold', 'italic', 'boldItalic'];
+
+// Scripts without a styled file draw styled text with their regular face
+const FONT_FILES: Record<FontScript, { regular: string } & Partial<Record<FontVariant, string>>> = {
+  latin: { // also Greek and Cyrillic
+    regular: 'NotoSans-Regular.ttf',
+    bold: 'NotoSans-Bold.ttf',
+    italic: 'NotoSans-Italic.ttf',
+    boldItalic: 'NotoSans-BoldItalic.ttf',
+  },
+  arabic: { regular: 'NotoSansArabic-Regular.ttf' },
+  hebrew: { regular: 'NotoSansHebrew-Regular.ttf' },
+  cjk: { regular: 'NotoSansSC-Regular.ttf' },
+  korean: { regular: 'NotoSansKR-Regular.ttf' },
+  emoji: { regular: 'NotoEmoji-Regular.ttf' },
+};
+
+const SCRIPT_PATTERNS: [FontScript, RegExp][] = [
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['cjk', /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Bopomofo}\u3000-\u303F\uFF00-\uFFEF]/u],
+  ['korean', /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/u],
+  ['emoji', /[\u{1F000}-\u{1FAFF}\u{2600}-\u{27BF}]/u],
+];
+
+// Marks and format characters that may be dropped when no font has a glyph for them
+const DROPPABLE_CHARACTER = /[\p{M}\p{Cf}]/u;
+const REPLACEMENT_CHARACTER = '?';
+
+const fontBytesCache = new Map<string, Promise<ArrayBuffer | null>>();
+
+async function loadFontBytes(fileName: string): Promise<ArrayBuffer | null> {
+  const cached = fontBytesCache.get(fileName);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    try {
+      if (typeof fetch === 'undefined' || typeof location === 'undefined') {
+        return null;
+      }
+      const response = await fetch(new URL(FONT_BASE_PATH + fileName, location.origin));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return await response.arrayBuffer();
+    } catch (error) {
+      console.warn(`Could not load font ${fileName}:`, error);
+      // Allow a later document to retry
+      fontBytesCache.delete(fileName);
+      return null;
+    }
+  })();
+
+  fontBytesCache.set(fileName, pending);
+  return pending;
+}
+
+/**
+ * Scripts that need a font besides Latin to render the text
+ */
+export function detectFontScripts(text: string): FontScript[] {
+  return SCRIPT_PATTERNS
+    .filter(([, pattern]) => pattern.test(text))
+    .map(([script]) => script);
+}
+
+/**
+ * The fonts embedded in one PDF, with per-character fallback between them
+ * Right-to-left runs are shaped by fontkit but lines are still laid out left to right.
+ */
+export class PDFFontSet {
+  private coverage = new Map<PDFFont, Set<number>>();
+
+  private constructor(
+    private fonts: Record<FontVariant, PDFFont[]>,
+    readonly isUnicode: boolean
+  ) {}
+
+  /**
+   * Embed the fonts needed for the given text; pass all text that will be drawn
+   */
+  static async embed(pdfDoc: PDFDocument, text: string): Promise<PDFFontSet> {
+    const scripts: FontScript[] = ['latin', ...detectFontScripts(text)];
+    const files = scripts.map(script => FONT_FILES[script]);
+
+    const bytes = await Promise.all(files.map(file => Promise.all(
+      FONT_VARIANTS.map(variant => {
+        const fileName = file[variant];
+        return fileName ? loadFontBytes(fileName) : Promise.resolve(null);
+      })
+    )));
+
+    if (bytes[0][0]) {
+      try {
+        pdfDoc.registerFontkit(fontkit);
+
+        const fonts: Record<FontVariant, PDFFont[]> = { regular: [], bold: [], italic: [], boldItalic: [] };
+        for (const [regular, ...styled] of bytes) {
+          if (!regular) continue;
+
+          // Subset fonts only carry the glyphs that end up being drawn
+          const regularFont = await pdfDoc.embedFont(regular, { subset: true });
+          const [bold, italic, boldItalic] = await Promise.all(styled.map(variantBytes =>
+            variantBytes ? pdfDoc.embedFont(variantBytes, { subset: true }) : Promise.resolve(null)
+          ));
+          fonts.regular.push(regularFont);
+          fonts.bold.push(bold ?? regularFont);
+          fonts.italic.push(italic ?? regularFont);
+          fonts.boldItalic.push(boldItalic ?? bold ?? regularFont);
+        }
+
+        return new PDFFontSet(fonts, true);
+      } catch (error) {
+        console.warn('Could not embed Unicode fonts, using standard fonts:', error);
+      }
+    }
+
+    const [regular, bold, italic, boldItalic] = await Promise.all([
+      StandardFonts.Helvetica,
+      StandardFonts.HelveticaBold,
+      StandardFonts.HelveticaOblique,
+      StandardFonts.HelveticaBoldOblique,
+    ].map(font => pdfDoc.embedFont(font)));
+    return new PDFFontSet({ regular: [regular], bold: [bold], italic: [italic], boldItalic: [boldItalic] }, false);
+  }
+
+  get regular(): PDFFont {
+    return this.fonts.regular[0];
+  }
+
+  get bold(): PDFFont {
+    return this.fonts.bold[0];
+  }
+
+  /**
+   * Split text into runs of characters drawn with the same font
+   * Characters no font covers are replaced, or dropped if they are marks or format characters.
+   */
+  splitRuns(text: string, style: FontStyle = {}): TextRun[] {
+    const variant: FontVariant = style.bold
+      ? (style.italic ? 'boldItalic' : 'bold')
+      : (style.italic ? 'italic' : 'regular');
+    const fonts = this.fonts[variant];
+    const runs: TextRun[] = [];
+
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      let font = fonts.find(candidate => this.covers(candidate, codePoint));
+      let drawn = char;
+
+      if (!font) {
+        if (DROPPABLE_CHARACTER.test(char)) continue;
+        font = fonts[0];
+        drawn = REPLACEMENT_CHARACTER;
+      }
+
+      const last = runs[runs.length - 1];
+      if (last && last.font === font) {
+        last.text += drawn;
+      } else {
+        runs.push({ text: drawn, font });
+      }
+    }
+
+    return runs;
+  }
+
+  widthOfTextAtSize(text: string, size: number, style: FontStyle = {}): number {
+    return this.splitRuns(text, style)
+      .reduce((width, run) => width + run.font.widthOfTextAtSize(run.text, size), 0);
+  }
+
+  drawText(page: PDFPage, text: string, options: DrawTextOptions): void {
+    // Runs follow each other along the (possibly rotated) baseline
+    const angle = ((options.rotate ?? 0) * Math.PI) / 180;
+    let { x, y } = options;
+    for (const run of this.splitRuns(text, options)) {
+      page.drawText(run.text, {
+        x,
+        y,
+        size: options.size,
+        font: run.font,
+        color: options.color,
+        rotate: degrees(options.rotate ?? 0),
+        opacity: options.opacity,
+      });
+      const width = run.font.widthOfTextAtSize(run.text, options.size);
+      x += width * Math.cos(angle);
+      y += width * Math.sin(angle);
+    }
+  }
+
+  private covers(font: PDFFont, codePoint: number): boolean {
+    let characters = this.coverage.get(font);
+    if (!characters) {
+      characters = new Set(font.getCharacterSet());
+      this.coverage.set(font, characters);
+    }
+    return characters.has(codePoint);
+  }
+}
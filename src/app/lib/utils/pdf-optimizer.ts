@@ -0,0 +1,319 @@
+/**
+ * Size optimization for merged PDFs, driven by the merge quality setting
+ * Every level drops unreachable objects, shares byte-identical streams, fonts and images, and
+ * writes object streams. Medium and low also downsample and recompress images as JPEG where the
+ * environment can decode them (OffscreenCanvas, available in workers and modern browsers).
+ */
+
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+} from 'pdf-lib';
+import { MergeOptions, PDFOptimizationReport } from '@/app/types';
+import { ErrorHandler } from './error-handler';
+
+type PDFQuality = MergeOptions['quality'];
+
+// Longest image edge in pixels and JPEG quality per level; high leaves images alone
+const IMAGE_SETTINGS: Record<PDFQuality, { maxEdge: number; jpegQuality: number } | null> = {
+  low: { maxEdge: 1200, jpegQuality: 0.6 },
+  medium: { maxEdge: 2000, jpegQuality: 0.8 },
+  high: null,
+};
+
+// Dictionary types that can be shared once the streams they point at are shared
+const SHAREABLE_DICT_TYPES = ['FontDescriptor', 'Font', 'ExtGState'];
+
+/**
+ * Rewrite a PDF smaller. Returns the original bytes when optimizing does not help.
+ */
+export async function optimizePDF(
+  data: Uint8Array | ArrayBuffer,
+  quality: PDFQuality,
+  signal?: AbortSignal
+): Promise<{ data: Uint8Array; report: PDFOptimizationReport }> {
+  const original = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const pdfDoc = await PDFDocument.load(original, { updateMetadata: false });
+  const context = pdfDoc.context;
+
+  const unusedObjectsRemoved = removeUnreachableObjects(context);
+  ErrorHandler.throwIfAborted(signal);
+  const duplicatesRemoved = removeDuplicateObjects(context);
+  ErrorHandler.throwIfAborted(signal);
+
+  const imageSettings = IMAGE_SETTINGS[quality];
+  const imagesRecompressed = imageSettings && canRecompressImages()
+    ? await recompressImages(context, imageSettings, signal)
+    : 0;
+
+  ErrorHandler.throwIfAborted(signal);
+  const optimized = await pdfDoc.save({ useObjectStreams: true });
+  const smaller = optimized.length < original.length;
+
+  return {
+    data: smaller ? optimized : original,
+    report: {
+      originalSize: original.length,
+      optimizedSize: smaller ? optimized.length : original.length,
+      unusedObjectsRemoved,
+      duplicatesRemoved,
+      imagesRecompressed,
+    },
+  };
+}
+
+// Call `visit` for every reference inside an object, replacing it with what `visit` returns
+function mapReferences(object: PDFObject, visit: (ref: PDFRef) => PDFRef): void {
+  const container = object instanceof PDFStream ? object.dict : object;
+
+  if (container instanceof PDFDict) {
+    for (const [key, value] of container.entries()) {
+      if (value instanceof PDFRef) container.set(key, visit(value));
+      else mapReferences(value, visit);
+    }
+  } else if (container instanceof PDFArray) {
+    for (let index = 0; index < container.size(); index++) {
+      const value = container.get(index);
+      if (value instanceof PDFRef) container.set(index, visit(value));
+      else mapReferences(value, visit);
+    }
+  }
+}
+
+function trailerRefs(context: PDFContext): PDFRef[] {
+  const { Root, Info } = context.trailerInfo;
+  return [Root, Info].filter((ref): ref is PDFRef => ref instanceof PDFRef);
+}
+
+/**
+ * Delete objects nothing in the document points at, e.g. pages removed during a merge
+ */
+function removeUnreachableObjects(context: PDFContext): number {
+  const reachable = new Set<PDFRef>();
+  const queue = trailerRefs(context);
+
+  while (queue.length > 0) {
+    const ref = queue.pop()!;
+    if (reachable.has(ref)) continue;
+    reachable.add(ref);
+
+    const object = context.lookup(ref);
+    if (object) {
+      mapReferences(object, child => {
+        if (!reachable.has(child)) queue.push(child);
+        return child;
+      });
+    }
+  }
+
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref)) {
+      context.delete(ref);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+// FNV-1a, only used to bucket candidates before an exact comparison
+function hashBytes(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash = Math.imul(hash ^ bytes[i], 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Point every reference to a duplicate at its first copy and delete the rest. Streams go first,
+ * so fonts merged from several files that embed the same font file become identical and are
+ * shared in later passes.
+ */
+function removeDuplicateObjects(context: PDFContext): number {
+  let removed = 0;
+
+  const deduplicate = (keyOf: (object: PDFObject) => string | null, equal: (a: PDFObject, b: PDFObject) => boolean) => {
+    const canonical = new Map<string, { ref: PDFRef; object: PDFObject }[]>();
+    const replacements = new Map<PDFRef, PDFRef>();
+
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      const key = keyOf(object);
+      if (key === null) continue;
+
+      const candidates = canonical.get(key) ?? [];
+      const match = candidates.find(candidate => equal(candidate.object, object));
+      if (match) {
+        replacements.set(ref, match.ref);
+      } else {
+        candidates.push({ ref, object });
+        canonical.set(key, candidates);
+      }
+    }
+
+    if (replacements.size === 0) return 0;
+    for (const [, object] of context.enumerateIndirectObjects()) {
+      mapReferences(object, ref => replacements.get(ref) ?? ref);
+    }
+    for (const ref of replacements.keys()) context.delete(ref);
+    removed += replacements.size;
+    return replacements.size;
+  };
+
+  deduplicate(
+    object => (object instanceof PDFRawStream ? `${object.dict.toString()}|${hashBytes(object.contents)}` : null),
+    (a, b) => sameBytes((a as PDFRawStream).contents, (b as PDFRawStream).contents)
+  );
+
+  // Type0 fonts point at descendant fonts, so sharing can take more than one pass
+  for (let pass = 0; pass < 3; pass++) {
+    const shared = deduplicate(
+      object => {
+        if (!(object instanceof PDFDict)) return null;
+        const type = object.get(PDFName.of('Type'));
+        return type instanceof PDFName && SHAREABLE_DICT_TYPES.includes(type.decodeText()) ? object.toString() : null;
+      },
+      () => true
+    );
+    if (shared === 0) break;
+  }
+
+  return removed;
+}
+
+function canRecompressImages(): boolean {
+  return typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function';
+}
+
+function nameOf(dict: PDFDict, key: string): string | undefined {
+  let value = dict.get(PDFName.of(key));
+  if (value instanceof PDFArray && value.size() === 1) value = value.get(0);
+  return value instanceof PDFName ? value.decodeText() : undefined;
+}
+
+function numberOf(dict: PDFDict, key: string): number | undefined {
+  const value = dict.get(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+// Decode an image stream into something a canvas can draw, or null for layouts this does not handle
+async function decodeImage(
+  stream: PDFRawStream,
+  width: number,
+  height: number,
+  colorSpace: string
+): Promise<ImageBitmap | null> {
+  const filter = nameOf(stream.dict, 'Filter');
+
+  if (filter === 'DCTDecode') {
+    return createImageBitmap(new Blob([stream.contents as BlobPart], { type: 'image/jpeg' }));
+  }
+
+  if (filter === 'FlateDecode' && !stream.dict.has(PDFName.of('DecodeParms'))) {
+    const samples = decodePDFRawStream(stream).decode();
+    const channels = colorSpace === 'DeviceRGB' ? 3 : 1;
+    if (samples.length < width * height * channels) return null;
+
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    for (let pixel = 0; pixel < width * height; pixel++) {
+      const source = pixel * channels;
+      rgba[pixel * 4] = samples[source];
+      rgba[pixel * 4 + 1] = samples[source + (channels === 3 ? 1 : 0)];
+      rgba[pixel * 4 + 2] = samples[source + (channels === 3 ? 2 : 0)];
+      rgba[pixel * 4 + 3] = 255;
+    }
+    return createImageBitmap(new ImageData(rgba, width, height));
+  }
+
+  return null;
+}
+
+/**
+ * Downsample images larger than the level allows and re-encode them as JPEG, keeping each
+ * new image only if it is smaller. Lossless (Flate) images are only touched when they need
+ * downsampling, so screenshots and line art at a sensible size stay sharp.
+ */
+async function recompressImages(
+  context: PDFContext,
+  settings: { maxEdge: number; jpegQuality: number },
+  signal?: AbortSignal
+): Promise<number> {
+  let recompressed = 0;
+  const images = context.enumerateIndirectObjects()
+    .filter((entry): entry is [PDFRef, PDFRawStream] =>
+      entry[1] instanceof PDFRawStream && nameOf(entry[1].dict, 'Subtype') === 'Image');
+
+  // Soft masks must stay single-channel, so they are left alone
+  const masks = new Set(images.flatMap(([, image]) =>
+    ['SMask', 'Mask'].map(key => image.dict.get(PDFName.of(key))).filter(value => value instanceof PDFRef)));
+
+  for (const [ref, object] of images) {
+    ErrorHandler.throwIfAborted(signal);
+    if (masks.has(ref)) continue;
+
+    const dict = object.dict;
+    const width = numberOf(dict, 'Width');
+    const height = numberOf(dict, 'Height');
+    const colorSpace = nameOf(dict, 'ColorSpace');
+    if (
+      !width || !height ||
+      numberOf(dict, 'BitsPerComponent') !== 8 ||
+      (colorSpace !== 'DeviceRGB' && colorSpace !== 'DeviceGray') ||
+      dict.has(PDFName.of('Decode')) ||
+      dict.has(PDFName.of('ImageMask'))
+    ) {
+      continue;
+    }
+
+    const scale = Math.min(1, settings.maxEdge / Math.max(width, height));
+    const isJPEG = nameOf(dict, 'Filter') === 'DCTDecode';
+    if (scale === 1 && !isJPEG) continue;
+
+    try {
+      const bitmap = await decodeImage(object, width, height, colorSpace);
+      if (!bitmap) continue;
+
+      const targetWidth = Math.max(1, Math.round(width * scale));
+      const targetHeight = Math.max(1, Math.round(height * scale));
+      const canvas = new OffscreenCanvas(targetWidth, targetHeight);
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0, targetWidth, targetHeight);
+      bitmap.close();
+
+      const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: settings.jpegQuality });
+      const bytes = new Uint8Array(await blob.arrayBuffer());
+      if (bytes.length >= object.contents.length) continue;
+
+      const newDict = dict.clone(context);
+      newDict.set(PDFName.of('Width'), PDFNumber.of(targetWidth));
+      newDict.set(PDFName.of('Height'), PDFNumber.of(targetHeight));
+      newDict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+      newDict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+      newDict.set(PDFName.of('Length'), PDFNumber.of(bytes.length));
+      newDict.delete(PDFName.of('DecodeParms'));
+      context.assign(ref, PDFRawStream.of(newDict, bytes));
+      recompressed++;
+    } catch (error) {
+      // An image the browser cannot decode is kept as it is
+      console.warn('Image recompression skipped:', error);
+    }
+  }
+
+  return recompressed;
+}
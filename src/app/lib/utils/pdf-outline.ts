@@ -0,0 +1,234 @@
+/**
+ * PDF outline (bookmark) utilities built on pdf-lib's low-level object API
+ * Reads an existing document outline and writes a new one into a PDFDocument
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+
+export interface PDFOutlineNode {
+  title: string;
+  /** Zero-based page the entry points at, or null when it has no usable destination */
+  pageIndex: number | null;
+  children: PDFOutlineNode[];
+  /** Show the entry's children expanded when the document is opened */
+  open?: boolean;
+}
+
+// Guards against malformed outlines whose sibling chains loop back on themselves
+const MAX_OUTLINE_ITEMS = 10000;
+
+/**
+ * Read a document's outline tree, resolving every destination to a page index
+ */
+export function readOutline(pdfDoc: PDFDocument): PDFOutlineNode[] {
+  try {
+    const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+    if (!outlines) return [];
+
+    const pageIndices = new Map<PDFRef, number>();
+    pdfDoc.getPages().forEach((page, index) => pageIndices.set(page.ref, index));
+
+    const visited = new Set<PDFDict>();
+    return readOutlineItems(pdfDoc, outlines, pageIndices, visited);
+  } catch (error) {
+    console.warn('Could not read PDF outline:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace a document's outline with the given tree
+ */
+export function writeOutline(pdfDoc: PDFDocument, nodes: PDFOutlineNode[]): void {
+  const pages = pdfDoc.getPages();
+  const entries = nodes.filter(node => hasContent(node, pages.length));
+  if (entries.length === 0) return;
+
+  const context = pdfDoc.context;
+  const rootRef = context.nextRef();
+  const { first, last, count } = writeOutlineItems(pdfDoc, entries, rootRef, pages.map(page => page.ref));
+
+  context.assign(rootRef, context.obj({
+    Type: 'Outlines',
+    First: first,
+    Last: last,
+    Count: count,
+  }));
+
+  pdfDoc.catalog.set(PDFName.of('Outlines'), rootRef);
+  pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+/**
+ * Map every page index in a tree to its new position, e.g. after appending the document to others.
+ * Returning null from mapPage leaves the entry without a destination.
+ */
+export function remapOutlinePages(nodes: PDFOutlineNode[], mapPage: (pageIndex: number) => number | null): PDFOutlineNode[] {
+  return nodes.map(node => ({
+    ...node,
+    pageIndex: node.pageIndex === null ? null : mapPage(node.pageIndex),
+    children: remapOutlinePages(node.children, mapPage),
+  }));
+}
+
+function readOutlineItems(
+  pdfDoc: PDFDocument,
+  parent: PDFDict,
+  pageIndices: Map<PDFRef, number>,
+  visited: Set<PDFDict>
+): PDFOutlineNode[] {
+  const nodes: PDFOutlineNode[] = [];
+  let item = parent.lookupMaybe(PDFName.of('First'), PDFDict);
+
+  while (item && !visited.has(item) && visited.size < MAX_OUTLINE_ITEMS) {
+    visited.add(item);
+
+    const title = item.lookupMaybe(PDFName.of('Title'), PDFString, PDFHexString);
+    const count = item.lookupMaybe(PDFName.of('Count'), PDFNumber);
+    nodes.push({
+      title: title ? title.decodeText() : 'Untitled',
+      pageIndex: resolveItemPage(pdfDoc, item, pageIndices),
+      children: readOutlineItems(pdfDoc, item, pageIndices, visited),
+      open: count ? count.asNumber() > 0 : false,
+    });
+
+    item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+  }
+
+  return nodes;
+}
+
+function resolveItemPage(pdfDoc: PDFDocument, item: PDFDict, pageIndices: Map<PDFRef, number>): number | null {
+  let destination: PDFObject | undefined = item.get(PDFName.of('Dest'));
+
+  if (!destination) {
+    const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+    const actionType = action?.lookupMaybe(PDFName.of('S'), PDFName);
+    if (action && actionType === PDFName.of('GoTo')) {
+      destination = action.get(PDFName.of('D'));
+    }
+  }
+
+  return resolveDestinationPage(pdfDoc, destination, pageIndices);
+}
+
+function resolveDestinationPage(
+  pdfDoc: PDFDocument,
+  destination: PDFObject | undefined,
+  pageIndices: Map<PDFRef, number>
+): number | null {
+  const resolved = destination instanceof PDFRef ? pdfDoc.context.lookup(destination) : destination;
+
+  if (resolved instanceof PDFName || resolved instanceof PDFString || resolved instanceof PDFHexString) {
+    return resolveDestinationPage(pdfDoc, lookupNamedDestination(pdfDoc, resolved), pageIndices);
+  }
+
+  // Named destinations may be wrapped in a dictionary with a /D entry
+  if (resolved instanceof PDFDict) {
+    return resolveDestinationPage(pdfDoc, resolved.get(PDFName.of('D')), pageIndices);
+  }
+
+  if (resolved instanceof PDFArray && resolved.size() > 0) {
+    const target = resolved.get(0);
+    if (target instanceof PDFRef) {
+      return pageIndices.get(target) ?? null;
+    }
+    if (target instanceof PDFNumber) {
+      return target.asNumber();
+    }
+  }
+
+  return null;
+}
+
+function lookupNamedDestination(pdfDoc: PDFDocument, name: PDFName | PDFString | PDFHexString): PDFObject | undefined {
+  // PDF 1.1 style: /Dests dictionary in the catalog keyed by name
+  if (name instanceof PDFName) {
+    const dests = pdfDoc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    return dests?.get(name);
+  }
+
+  // PDF 1.2+ style: /Names /Dests name tree keyed by string
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const tree = names?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+  return tree ? searchNameTree(tree, name.decodeText(), 0) : undefined;
+}
+
+function searchNameTree(node: PDFDict, key: string, depth: number): PDFObject | undefined {
+  if (depth > 32) return undefined;
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      const entry = names.lookup(i);
+      if ((entry instanceof PDFString || entry instanceof PDFHexString) && entry.decodeText() === key) {
+        return names.get(i + 1);
+      }
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i, PDFDict);
+      const found = searchNameTree(kid, key, depth + 1);
+      if (found) return found;
+    }
+  }
+
+  return undefined;
+}
+
+function hasContent(node: PDFOutlineNode, pageCount: number): boolean {
+  const validPage = node.pageIndex !== null && node.pageIndex >= 0 && node.pageIndex < pageCount;
+  return validPage || node.children.some(child => hasContent(child, pageCount));
+}
+
+function writeOutlineItems(
+  pdfDoc: PDFDocument,
+  nodes: PDFOutlineNode[],
+  parentRef: PDFRef,
+  pageRefs: PDFRef[]
+): { first: PDFRef; last: PDFRef; count: number } {
+  const context = pdfDoc.context;
+  const refs = nodes.map(() => context.nextRef());
+  let visibleCount = nodes.length;
+
+  nodes.forEach((node, index) => {
+    const item = context.obj({}) as PDFDict;
+    item.set(PDFName.of('Title'), PDFHexString.fromText(node.title));
+    item.set(PDFName.of('Parent'), parentRef);
+    if (index > 0) item.set(PDFName.of('Prev'), refs[index - 1]);
+    if (index < nodes.length - 1) item.set(PDFName.of('Next'), refs[index + 1]);
+
+    const pageRef = node.pageIndex !== null ? pageRefs[node.pageIndex] : undefined;
+    if (pageRef) {
+      item.set(PDFName.of('Dest'), context.obj([pageRef, PDFName.of('XYZ'), PDFNull, PDFNull, PDFNull]));
+    }
+
+    const children = node.children.filter(child => hasContent(child, pageRefs.length));
+    if (children.length > 0) {
+      const nested = writeOutlineItems(pdfDoc, children, refs[index], pageRefs);
+      item.set(PDFName.of('First'), nested.first);
+      item.set(PDFName.of('Last'), nested.last);
+      // Positive counts mean open, negative counts mean collapsed
+      item.set(PDFName.of('Count'), PDFNumber.of(node.open ? nested.count : -nested.count));
+      if (node.open) visibleCount += nested.count;
+    }
+
+    context.assign(refs[index], item);
+  });
+
+  return { first: refs[0], last: refs[refs.length - 1], count: visibleCount };
+}
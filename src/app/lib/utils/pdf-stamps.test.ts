@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { degrees, PDFDocument, PDFPage } from 'pdf-lib';
+import { displayFrame, expandStampTemplate, PageStamps, PageStampValues, stampPages } from './pdf-stamps';
+
+const values: PageStampValues = { page: 3, total: 12, source: 'report.pdf', date: '1/2/2025', title: 'Binder' };
+
+describe('expandStampTemplate', () => {
+  it('fills every token', () => {
+    expect(expandStampTemplate('Page {page} of {total}', values)).toBe('Page 3 of 12');
+    expect(expandStampTemplate('{title} | {source} | {date}', values)).toBe('Binder | report.pdf | 1/2/2025');
+  });
+
+  it('fills a token as often as it appears', () => {
+    expect(expandStampTemplate('{page}/{page}', values)).toBe('3/3');
+  });
+
+  it('leaves unknown tokens and stray braces as written', () => {
+    expect(expandStampTemplate('{Page} {author} {page', values)).toBe('{Page} {author} {page');
+  });
+
+  it('does not expand tokens inside filled-in values', () => {
+    expect(expandStampTemplate('{source}', { ...values, source: '{title}.pdf' })).toBe('{title}.pdf');
+  });
+});
+
+describe('stampPages', () => {
+  const stamps: PageStamps = { footer: '{source} / {title}', fontStyle: 'regular', fontSize: 9, alignment: 'center', margin: 24, title: 'Binder' };
+  const contentStreams = (page: PDFPage) => page.node.normalizedEntries().Contents?.size() ?? 0;
+
+  it('leaves pages the merge added unstamped', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const pages = [pdfDoc.addPage(), pdfDoc.addPage(), pdfDoc.addPage()];
+    const before = pages.map(contentStreams);
+
+    await stampPages(pdfDoc, stamps, [undefined, 'a.pdf', undefined]);
+    const added = pages.map((page, index) => contentStreams(page) - before[index]);
+    expect(added[0]).toBe(0);
+    expect(added[1]).toBeGreaterThan(0);
+    expect(added[2]).toBe(0);
+  });
+});
+
+describe('displayFrame', () => {
+  it('matches the page on unrotated pages', async () => {
+    const page = (await PDFDocument.create()).addPage([600, 800]);
+    const frame = displayFrame(page);
+    expect([frame.width, frame.height, frame.rotation]).toEqual([600, 800, 0]);
+    expect(frame.toPageSpace(10, 20)).toEqual([10, 20]);
+  });
+
+  it('swaps the sides and maps display corners on rotated pages', async () => {
+    const page = (await PDFDocument.create()).addPage([600, 800]);
+    page.setRotation(degrees(90));
+    const frame = displayFrame(page);
+    expect([frame.width, frame.height, frame.rotation]).toEqual([800, 600, 90]);
+    // The display's bottom-left corner is the page's bottom-right
+    expect(frame.toPageSpace(0, 0)).toEqual([600, 0]);
+  });
+});
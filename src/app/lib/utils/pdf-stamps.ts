@@ -0,0 +1,123 @@
+/**
+ * Header and footer stamping for merged PDFs
+ * Templates are filled in per page and drawn inside the visible (crop) box, upright as the page
+ * is displayed, whatever its rotation.
+ */
+
+import { PDFDocument, PDFPage, rgb } from 'pdf-lib';
+import { PageStampOptions } from '@/app/types';
+import { PDFFontSet } from './pdf-fonts';
+
+// What to stamp: the filled-in options of the header and footer that are switched on
+export interface PageStamps extends Pick<PageStampOptions, 'fontStyle' | 'fontSize' | 'alignment' | 'margin'> {
+  header?: string;
+  footer?: string;
+  title: string; // Fills {title}
+  date?: Date; // Fills {date}; defaults to today
+}
+
+export interface PageStampValues {
+  page: number;
+  total: number;
+  source: string;
+  date: string;
+  title: string;
+}
+
+/**
+ * Replace {page}, {total}, {source}, {date} and {title}; other braces are left as written
+ */
+export function expandStampTemplate(template: string, values: PageStampValues): string {
+  return template.replace(/\{(page|total|source|date|title)\}/g, (_, token: keyof PageStampValues) => String(values[token]));
+}
+
+/**
+ * Stamp the header and footer on every page that came from a source document. `sources` names
+ * that document for each page, in page order; pages the merge added (contents, separator and
+ * blank pages) have none and are left unstamped, though {page} and {total} still count them.
+ */
+export async function stampPages(pdfDoc: PDFDocument, stamps: PageStamps, sources: (string | undefined)[]): Promise<void> {
+  const pages = pdfDoc.getPages();
+  const date = (stamps.date ?? new Date()).toLocaleDateString();
+
+  const texts = pages.map((_, index) => {
+    if (sources[index] === undefined) return { header: '', footer: '' };
+    const values = { page: index + 1, total: pages.length, source: sources[index] ?? '', date, title: stamps.title };
+    return {
+      header: stamps.header ? expandStampTemplate(stamps.header, values).trim() : '',
+      footer: stamps.footer ? expandStampTemplate(stamps.footer, values).trim() : '',
+    };
+  });
+
+  const allText = texts.flatMap(text => [text.header, text.footer]).join('\n');
+  if (!allText.trim()) return;
+
+  const fonts = await PDFFontSet.embed(pdfDoc, allText);
+  const style = { bold: stamps.fontStyle === 'bold', italic: stamps.fontStyle === 'italic' };
+
+  pages.forEach((page, index) => {
+    if (sources[index] === undefined) return;
+    const { header, footer } = texts[index];
+    if (header) drawStamp(page, header, 'top', fonts, style, stamps);
+    if (footer) drawStamp(page, footer, 'bottom', fonts, style, stamps);
+  });
+}
+
+/**
+ * A page as it is displayed: its visible size after /Rotate, and a mapping from displayed
+ * coordinates (origin bottom left) back to page space. Text drawn with `rotation` reads upright.
+ */
+export function displayFrame(page: PDFPage): {
+  width: number;
+  height: number;
+  rotation: number;
+  toPageSpace: (u: number, v: number) => [number, number];
+} {
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = rotation === 90 || rotation === 270;
+
+  // The page's /Rotate turns it clockwise for display
+  const toPageSpace = (u: number, v: number): [number, number] => rotation === 90
+    ? [box.x + box.width - v, box.y + u]
+    : rotation === 180
+      ? [box.x + box.width - u, box.y + box.height - v]
+      : rotation === 270
+        ? [box.x + v, box.y + box.height - u]
+        : [box.x + u, box.y + v];
+
+  return {
+    width: sideways ? box.height : box.width,
+    height: sideways ? box.width : box.height,
+    rotation,
+    toPageSpace,
+  };
+}
+
+function drawStamp(
+  page: PDFPage,
+  text: string,
+  edge: 'top' | 'bottom',
+  fonts: PDFFontSet,
+  style: { bold: boolean; italic: boolean },
+  stamps: Pick<PageStampOptions, 'fontSize' | 'alignment' | 'margin'>
+): void {
+  const frame = displayFrame(page);
+  const textWidth = fonts.widthOfTextAtSize(text, stamps.fontSize, style);
+  const u = stamps.alignment === 'left'
+    ? stamps.margin
+    : stamps.alignment === 'right'
+      ? frame.width - stamps.margin - textWidth
+      : (frame.width - textWidth) / 2;
+  const v = edge === 'top' ? frame.height - stamps.margin - stamps.fontSize : stamps.margin;
+  const [x, y] = frame.toPageSpace(u, v);
+
+  fonts.drawText(page, text, {
+    x,
+    y,
+    size: stamps.fontSize,
+    color: rgb(0.3, 0.3, 0.3),
+    rotate: frame.rotation,
+    ...style,
+  });
+}
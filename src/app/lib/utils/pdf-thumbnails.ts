@@ -0,0 +1,76 @@
+/**
+ * Page thumbnails for PDF previews, rendered with pdf.js
+ * Runs on the main thread (pdf.js parses in its own worker) because rendering needs a DOM canvas.
+ */
+
+import { ErrorHandler } from './error-handler';
+
+export interface ThumbnailOptions {
+  /** Thumbnail width in CSS pixels */
+  width?: number;
+  /** Pages after this many are not rendered */
+  maxPages?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_WIDTH = 160;
+const DEFAULT_MAX_PAGES = 50;
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// pdf.js touches browser globals on import, so it is only loaded when a preview needs it
+function loadPDFJS(): Promise<typeof import('pdfjs-dist')> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the page thumbnail'))), 'image/png');
+  });
+}
+
+export interface PDFThumbnails {
+  /** PNG images of the first pages, in page order */
+  images: Blob[];
+  /** Pages in the whole document */
+  pageCount: number;
+}
+
+/**
+ * Render the first pages of a PDF as PNG images
+ */
+export async function renderPDFThumbnails(data: ArrayBuffer, options: ThumbnailOptions = {}): Promise<PDFThumbnails> {
+  const { width = DEFAULT_WIDTH, maxPages = DEFAULT_MAX_PAGES, signal } = options;
+  const pdfjs = await loadPDFJS();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+  try {
+    const images: Blob[] = [];
+    const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, maxPages); pageNumber++) {
+      ErrorHandler.throwIfAborted(signal);
+      const page = await pdf.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: (width * pixelRatio) / unscaled.width });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+
+      await page.render({ canvas, viewport }).promise;
+      images.push(await canvasToBlob(canvas));
+      page.cleanup();
+    }
+
+    return { images, pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Table of contents pages for merged PDFs
+ * Each entry names a source document and the page it starts on, and links to that page.
+ */
+
+import { PDFDocument, PDFName, PDFNull, PDFPage, rgb } from 'pdf-lib';
+import { PDFFontSet } from './pdf-fonts';
+import { displayFrame } from './pdf-stamps';
+
+export interface TableOfContentsEntry {
+  title: string;
+  /** Zero-based page the entry starts on, before the contents pages are inserted */
+  pageIndex: number;
+}
+
+const MARGIN = 72;
+const TITLE_SIZE = 20;
+const ENTRY_SIZE = 11;
+const LINE_HEIGHT = 20;
+const LEADER = ' .';
+
+/**
+ * Insert contents pages at the front of a document, sized like its first page as displayed.
+ * Returns the number of pages added; printed page numbers count them.
+ */
+export async function insertTableOfContents(
+  pdfDoc: PDFDocument,
+  entries: TableOfContentsEntry[],
+  heading = 'Contents'
+): Promise<number> {
+  if (entries.length === 0) return 0;
+
+  const frame = pdfDoc.getPageCount() > 0 ? displayFrame(pdfDoc.getPage(0)) : { width: 612, height: 792 };
+  const { width, height } = frame;
+
+  // Lay entries out first: the page count decides the printed numbers
+  const layout: { page: number; y: number }[] = [];
+  let page = 0;
+  let top = height - MARGIN - TITLE_SIZE - LINE_HEIGHT;
+  let line = 0;
+  for (let index = 0; index < entries.length; index++) {
+    const capacity = Math.max(1, Math.floor((top - ENTRY_SIZE - MARGIN) / LINE_HEIGHT) + 1);
+    if (line >= capacity) {
+      page++;
+      top = height - MARGIN;
+      line = 0;
+    }
+    layout.push({ page, y: top - ENTRY_SIZE - line * LINE_HEIGHT });
+    line++;
+  }
+  const pageCount = page + 1;
+
+  const numbers = entries.map(entry => String(entry.pageIndex + pageCount + 1));
+  const fonts = await PDFFontSet.embed(pdfDoc, [heading, ...entries.map(entry => entry.title), ...numbers, LEADER, '…'].join('\n'));
+
+  // Take the targets before inserting shifts every index
+  const targets = entries.map(entry => pdfDoc.getPage(entry.pageIndex).ref);
+  const pages: PDFPage[] = [];
+  for (let index = 0; index < pageCount; index++) {
+    pages.push(pdfDoc.insertPage(index, [width, height]));
+  }
+
+  fonts.drawText(pages[0], heading, {
+    x: MARGIN,
+    y: height - MARGIN - TITLE_SIZE,
+    size: TITLE_SIZE,
+    bold: true,
+    color: rgb(0.1, 0.1, 0.1),
+  });
+
+  entries.forEach((entry, index) => {
+    const { page: pageIndex, y } = layout[index];
+    const tocPage = pages[pageIndex];
+    const number = numbers[index];
+    const numberWidth = fonts.widthOfTextAtSize(number, ENTRY_SIZE);
+    const title = fitText(fonts, entry.title, width - 2 * MARGIN - numberWidth - 24);
+    const titleWidth = fonts.widthOfTextAtSize(title, ENTRY_SIZE);
+
+    fonts.drawText(tocPage, title, { x: MARGIN, y, size: ENTRY_SIZE, color: rgb(0.1, 0.1, 0.1) });
+    fonts.drawText(tocPage, number, { x: width - MARGIN - numberWidth, y, size: ENTRY_SIZE, color: rgb(0.1, 0.1, 0.1) });
+
+    // Dot leaders, right-aligned so they end the same distance before every number
+    const leaderWidth = fonts.widthOfTextAtSize(LEADER, ENTRY_SIZE);
+    const leaderCount = Math.floor((width - 2 * MARGIN - titleWidth - numberWidth - 12) / leaderWidth);
+    if (leaderCount > 0) {
+      const leaders = LEADER.repeat(leaderCount);
+      fonts.drawText(tocPage, leaders, {
+        x: width - MARGIN - numberWidth - 6 - fonts.widthOfTextAtSize(leaders, ENTRY_SIZE),
+        y,
+        size: ENTRY_SIZE,
+        color: rgb(0.55, 0.55, 0.55),
+      });
+    }
+
+    const link = pdfDoc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [MARGIN, y - 5, width - MARGIN, y + ENTRY_SIZE + 3],
+      Border: [0, 0, 0],
+      Dest: [targets[index], PDFName.of('XYZ'), PDFNull, PDFNull, PDFNull],
+    });
+    tocPage.node.addAnnot(pdfDoc.context.register(link));
+  });
+
+  return pageCount;
+}
+
+// Shorten text with an ellipsis until it fits the width
+function fitText(fonts: PDFFontSet, text: string, maxWidth: number): string {
+  if (fonts.widthOfTextAtSize(text, ENTRY_SIZE) <= maxWidth) return text;
+
+  const characters = Array.from(text);
+  let end = characters.length;
+  while (end > 1 && fonts.widthOfTextAtSize(`${characters.slice(0, end).join('')}…`, ENTRY_SIZE) > maxWidth) end--;
+  return `${characters.slice(0, end).join('').trimEnd()}…`;
+}
@@ -0,0 +1,166 @@
+/**
+ * Separator pages placed before each merged document
+ * A sheet names the document, gives its place in the merge, optionally lists details from its
+ * metadata and ends with the user's note. PDF sheets are drawn here; DOCX sheets are paragraphs.
+ */
+
+import { PDFDocument, PDFPage, rgb } from 'pdf-lib';
+import { DocumentMetadata, SeparatorPageOptions } from '@/app/types';
+import { PDFFontSet } from './pdf-fonts';
+import { escapeXml } from './ooxml-utils';
+
+export interface SeparatorSheet {
+  name: string;
+  position: string; // e.g. "Document 2 of 5"
+  details: { label: string; value: string }[];
+  note: string;
+}
+
+const MARGIN = 72;
+const NAME_SIZE = 24;
+const TEXT_SIZE = 12;
+const LINE_HEIGHT = 18;
+
+function formatDate(value: Date | string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toLocaleDateString();
+}
+
+/**
+ * Describe the sheet for one document of a merge
+ */
+export function createSeparatorSheet(
+  name: string,
+  index: number,
+  count: number,
+  metadata: DocumentMetadata | undefined,
+  options: SeparatorPageOptions
+): SeparatorSheet {
+  const details: { label: string; value: string }[] = [];
+
+  if (options.showDetails && metadata) {
+    const created = formatDate(metadata.createdDate);
+    const modified = formatDate(metadata.modifiedDate);
+    if (metadata.author) details.push({ label: 'Author', value: metadata.author });
+    if (created) details.push({ label: 'Created', value: created });
+    if (modified) details.push({ label: 'Modified', value: modified });
+    if (metadata.pageCount) details.push({ label: 'Pages', value: String(metadata.pageCount) });
+    if (metadata.sheetCount) details.push({ label: 'Sheets', value: String(metadata.sheetCount) });
+    if (metadata.slideCount) details.push({ label: 'Slides', value: String(metadata.slideCount) });
+  }
+
+  return { name, position: `Document ${index + 1} of ${count}`, details, note: options.note.trim() };
+}
+
+/**
+ * The sheet with its "Pages" detail, if it shows one, counting the pages actually merged from
+ * the document rather than the pages of the whole file
+ */
+export function withMergedPageCount(sheet: SeparatorSheet, pageCount: number): SeparatorSheet {
+  return {
+    ...sheet,
+    details: sheet.details.map(detail => (detail.label === 'Pages' ? { ...detail, value: String(pageCount) } : detail)),
+  };
+}
+
+/**
+ * All the text a set of sheets draws, for embedding fonts once. Digits are always included,
+ * since page counts are filled in during the merge.
+ */
+export function separatorSheetText(sheets: SeparatorSheet[]): string {
+  return sheets
+    .flatMap(sheet => [sheet.name, sheet.position, ...sheet.details.map(detail => `${detail.label}: ${detail.value}`), sheet.note, '…'])
+    .concat('0123456789')
+    .join('\n');
+}
+
+// Break text into lines no wider than maxWidth, splitting at spaces where possible
+function wrapText(fonts: PDFFontSet, text: string, size: number, maxWidth: number, style = {}): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fonts.widthOfTextAtSize(candidate, size, style) <= maxWidth || !line) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Add a sheet to a PDF as a new page of the given size
+ */
+export function addPDFSeparatorPage(
+  pdfDoc: PDFDocument,
+  sheet: SeparatorSheet,
+  fonts: PDFFontSet,
+  size: [number, number]
+): PDFPage {
+  const [width, height] = size;
+  const page = pdfDoc.addPage(size);
+  const textWidth = width - 2 * MARGIN;
+  const dark = rgb(0.1, 0.1, 0.1);
+  const muted = rgb(0.45, 0.45, 0.45);
+
+  let y = height * 0.62;
+  fonts.drawText(page, sheet.position.toUpperCase(), { x: MARGIN, y, size: 10, color: muted });
+
+  // Long names wrap onto at most three lines
+  y -= NAME_SIZE + 10;
+  const nameLines = wrapText(fonts, sheet.name, NAME_SIZE, textWidth, { bold: true }).slice(0, 3);
+  for (const line of nameLines) {
+    fonts.drawText(page, line, { x: MARGIN, y, size: NAME_SIZE, bold: true, color: dark });
+    y -= NAME_SIZE * 1.25;
+  }
+
+  page.drawLine({ start: { x: MARGIN, y: y + 6 }, end: { x: width - MARGIN, y: y + 6 }, thickness: 0.75, color: muted });
+  y -= LINE_HEIGHT;
+
+  const labelWidth = Math.max(0, ...sheet.details.map(detail => fonts.widthOfTextAtSize(detail.label, TEXT_SIZE, { bold: true }))) + 16;
+  for (const detail of sheet.details) {
+    fonts.drawText(page, detail.label, { x: MARGIN, y, size: TEXT_SIZE, bold: true, color: muted });
+    fonts.drawText(page, detail.value, { x: MARGIN + labelWidth, y, size: TEXT_SIZE, color: dark });
+    y -= LINE_HEIGHT;
+  }
+
+  if (sheet.note) {
+    const noteLines = wrapText(fonts, sheet.note, TEXT_SIZE, textWidth, { italic: true });
+    const fitting = Math.max(1, Math.floor((y - MARGIN) / LINE_HEIGHT));
+    y -= LINE_HEIGHT / 2;
+    for (const line of noteLines.slice(0, fitting)) {
+      fonts.drawText(page, line, { x: MARGIN, y, size: TEXT_SIZE, italic: true, color: dark });
+      y -= LINE_HEIGHT;
+    }
+  }
+
+  return page;
+}
+
+/**
+ * A sheet as WordprocessingML paragraphs, ending in a page break
+ */
+export function buildSeparatorXml(sheet: SeparatorSheet): string {
+  const run = (text: string, properties = '') =>
+    `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+  const details = sheet.details.map(detail =>
+    `<w:p><w:pPr><w:spacing w:after="60"/></w:pPr>${run(`${detail.label}: `, '<w:b/><w:color w:val="737373"/>')}${run(detail.value)}</w:p>`);
+  const note = sheet.note
+    ? sheet.note.split('\n').map(line => `<w:p><w:pPr><w:spacing w:before="120" w:after="0"/></w:pPr>${run(line, '<w:i/>')}</w:p>`)
+    : [];
+
+  return `<w:p><w:pPr><w:spacing w:before="4000" w:after="120"/></w:pPr>${run(sheet.position.toUpperCase(), '<w:color w:val="737373"/><w:sz w:val="20"/>')}</w:p>`
+    + `<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="8" w:color="737373"/></w:pBdr><w:spacing w:after="240"/></w:pPr>${run(sheet.name, '<w:b/><w:sz w:val="48"/>')}</w:p>`
+    + details.join('')
+    + note.join('')
+    + '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+}
@@ -0,0 +1,124 @@
+/**
+ * Planning for the smart merge mode
+ * Drops byte-identical duplicates, groups documents by kind (page documents, workbooks, and CSV
+ * files per column layout), orders each group by natural file-name order and picks each
+ * group's output format.
+ */
+
+import { DocumentFormat } from '@/app/types';
+import { headerKeys, parseCSVText, decodeTextBuffer } from './csv';
+
+export interface SmartMergeDocument {
+  id: string;
+  name: string;
+  format: DocumentFormat;
+  /** SHA-256 of the file bytes, hex encoded */
+  hash: string;
+  /** Header row, for CSV files */
+  csvHeader?: string[];
+}
+
+export interface SmartMergeGroup {
+  /** Stable across replanning; also the output file-name suffix */
+  key: string;
+  label: string;
+  documentIds: string[];
+  outputFormat: DocumentFormat;
+  reason: string;
+}
+
+export interface SmartMergePlan {
+  groups: SmartMergeGroup[];
+  /** Documents left out because an earlier one has the same bytes */
+  duplicates: { documentId: string; duplicateOfId: string }[];
+}
+
+// Formats whose pages can be laid end to end in one PDF
+const PAGE_FORMATS: DocumentFormat[] = ['pdf', 'docx', 'pptx', 'txt'];
+
+// Header bytes read to group CSV files
+const CSV_HEADER_SAMPLE_SIZE = 64 * 1024;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Compare file names the way people count: "Season 2" before "Season 10", case ignored
+ */
+export function naturalCompare(a: string, b: string): number {
+  return collator.compare(a, b) || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Header row of a CSV file, read from its first bytes only
+ */
+export async function readCSVHeader(file: Blob): Promise<string[]> {
+  const sample = await file.slice(0, CSV_HEADER_SAMPLE_SIZE).arrayBuffer();
+  const { rows } = parseCSVText(decodeTextBuffer(sample).text);
+  return rows[0] ?? [];
+}
+
+function listFormats(formats: DocumentFormat[]): string {
+  return formats.map(format => format.toUpperCase()).join(', ');
+}
+
+export function planSmartMerge(documents: SmartMergeDocument[]): SmartMergePlan {
+  const duplicates: SmartMergePlan['duplicates'] = [];
+  const firstByHash = new Map<string, string>();
+  const unique = documents.filter(doc => {
+    const original = firstByHash.get(doc.hash);
+    if (original) {
+      duplicates.push({ documentId: doc.id, duplicateOfId: original });
+      return false;
+    }
+    firstByHash.set(doc.hash, doc.id);
+    return true;
+  });
+
+  // Groups keep the order in which their first document appears in the list
+  const groups = new Map<string, { label: string; documents: SmartMergeDocument[] }>();
+  const csvLayouts: string[] = [];
+  const addToGroup = (key: string, label: string, doc: SmartMergeDocument) => {
+    const group = groups.get(key) ?? { label, documents: [] };
+    group.documents.push(doc);
+    groups.set(key, group);
+  };
+
+  for (const doc of unique) {
+    if (PAGE_FORMATS.includes(doc.format)) {
+      addToGroup('documents', 'Documents', doc);
+    } else if (doc.format === 'xlsx') {
+      addToGroup('workbooks', 'Workbooks', doc);
+    } else {
+      // CSV files only stack when their columns match
+      const layout = headerKeys(doc.csvHeader ?? []).join('\u0000');
+      let layoutIndex = csvLayouts.indexOf(layout);
+      if (layoutIndex === -1) layoutIndex = csvLayouts.push(layout) - 1;
+      const columns = (doc.csvHeader ?? []).slice(0, 3).join(', ');
+      const more = (doc.csvHeader?.length ?? 0) > 3 ? ', …' : '';
+      addToGroup(`table-${layoutIndex + 1}`, `CSV (${columns}${more})`, doc);
+    }
+  }
+
+  return {
+    groups: [...groups.entries()].map(([key, group]) => {
+      const ordered = [...group.documents].sort((a, b) => naturalCompare(a.name, b.name));
+      const formats = [...new Set(ordered.map(doc => doc.format))];
+      const outputFormat = formats.length === 1 ? formats[0] : 'pdf';
+      const reason = ordered.length === 1
+        ? `Only file of its kind, kept as ${outputFormat.toUpperCase()}`
+        : key.startsWith('table-')
+          ? 'Same columns, stacked into one CSV'
+          : formats.length === 1
+            ? `All ${formats[0].toUpperCase()}, kept in their own format`
+            : `${listFormats(formats)} combined as PDF`;
+
+      return { key, label: group.label, documentIds: ordered.map(doc => doc.id), outputFormat, reason };
+    }),
+    duplicates,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Grid renderer for spreadsheet data in generated PDFs
+ * Sizes columns from their content, wraps cell text, draws borders, repeats the header
+ * row on every page and switches to landscape when a table is too wide for portrait.
+ */
+
+import { PDFDocument, PDFPage, rgb } from 'pdf-lib';
+import { PDFFontSet } from './pdf-fonts';
+import { PDFOutlineNode, writeOutline } from './pdf-outline';
+
+export interface TableSection {
+  /** Drawn above the table, and used as the bookmark when there are several sections */
+  title: string;
+  rows: string[][];
+}
+
+export interface TableRenderOptions {
+  /** Treat the first row of each section as a header (default true) */
+  headerRow?: boolean;
+}
+
+interface RowLayout {
+  lines: string[][];
+  height: number;
+}
+
+const PORTRAIT: [number, number] = [612, 792]; // US Letter
+const LANDSCAPE: [number, number] = [792, 612];
+const MARGIN = 36;
+
+const FONT_SIZE = 9;
+const LINE_HEIGHT = FONT_SIZE * 1.25;
+const TITLE_SIZE = 14;
+const CELL_PADDING = 4;
+const MIN_COLUMN_WIDTH = 36;
+// Long text wraps rather than widening its column (and forcing landscape) past this
+const MAX_COLUMN_WIDTH = 216;
+const MAX_CELL_LINES = 12;
+// Column widths are measured on a sample so very long sheets stay fast
+const MEASURE_SAMPLE_ROWS = 500;
+
+const BORDER_COLOR = rgb(0.6, 0.6, 0.6);
+const HEADER_FILL = rgb(0.92, 0.92, 0.92);
+const MUTED_COLOR = rgb(0.5, 0.5, 0.5);
+
+/**
+ * Shrink the widest columns until the table fits, leaving narrow ones at their natural width
+ */
+function fitColumnWidths(natural: number[], available: number): number[] {
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  if (total <= available) return natural;
+
+  const floor = Math.min(MIN_COLUMN_WIDTH, available / natural.length);
+  const sorted = [...natural].sort((a, b) => a - b);
+  let remaining = available;
+  let cap = floor;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const share = remaining / (sorted.length - i);
+    if (sorted[i] > share) {
+      cap = Math.max(floor, share);
+      break;
+    }
+    remaining -= sorted[i];
+  }
+
+  return natural.map(width => Math.min(width, cap));
+}
+
+class TablePDFRenderer {
+  private page: PDFPage | null = null;
+  private y = 0;
+
+  constructor(
+    private pdfDoc: PDFDocument,
+    private fonts: PDFFontSet,
+    private options: Required<TableRenderOptions>
+  ) {}
+
+  renderSection(section: TableSection): number {
+    const columnCount = section.rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const firstPageIndex = this.pdfDoc.getPageCount();
+
+    const header = this.options.headerRow && section.rows.length > 1 ? section.rows[0] : null;
+    const body = header ? section.rows.slice(1) : section.rows;
+
+    // Measure each column's widest cell, then pick the orientation that fits
+    const natural = Array.from({ length: columnCount }, (_, column) => {
+      const sample = section.rows.slice(0, MEASURE_SAMPLE_ROWS);
+      const widest = Math.max(0, ...sample.map((row, index) =>
+        this.measureCell(row[column] ?? '', header !== null && index === 0)));
+      return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, widest + 2 * CELL_PADDING));
+    });
+    const naturalWidth = natural.reduce((sum, width) => sum + width, 0);
+    const pageSize = naturalWidth > PORTRAIT[0] - 2 * MARGIN ? LANDSCAPE : PORTRAIT;
+    const widths = fitColumnWidths(natural, pageSize[0] - 2 * MARGIN);
+
+    const headerLayout = header ? this.layoutRow(header, widths, true) : null;
+
+    this.newPage(pageSize, section.title, false);
+    if (columnCount === 0) {
+      this.fonts.drawText(this.page!, 'This sheet is empty', { x: MARGIN, y: this.y - FONT_SIZE, size: FONT_SIZE, italic: true, color: MUTED_COLOR });
+      return firstPageIndex;
+    }
+
+    if (header && headerLayout) {
+      this.drawRow(headerLayout, widths, true);
+    }
+
+    let rowsOnPage = 0;
+    for (const row of body) {
+      const layout = this.layoutRow(row, widths, false);
+      // A row taller than a whole page is drawn anyway rather than starting pages forever
+      if (this.y - layout.height < MARGIN && rowsOnPage > 0) {
+        this.newPage(pageSize, section.title, true);
+        if (header && headerLayout) {
+          this.drawRow(headerLayout, widths, true);
+        }
+        rowsOnPage = 0;
+      }
+      this.drawRow(layout, widths, false);
+      rowsOnPage++;
+    }
+
+    return firstPageIndex;
+  }
+
+  drawPageNumbers(): void {
+    const pages = this.pdfDoc.getPages();
+    pages.forEach((page, index) => {
+      const { width } = page.getSize();
+      this.fonts.drawText(page, `Page ${index + 1} of ${pages.length}`, {
+        x: width - MARGIN - 60,
+        y: MARGIN / 2,
+        size: 8,
+        color: MUTED_COLOR,
+      });
+    });
+  }
+
+  private newPage(size: [number, number], title: string, continued: boolean): void {
+    this.page = this.pdfDoc.addPage(size);
+    this.y = size[1] - MARGIN;
+
+    if (continued) {
+      this.fonts.drawText(this.page, `${title} (continued)`, { x: MARGIN, y: this.y - FONT_SIZE, size: FONT_SIZE, color: MUTED_COLOR });
+      this.y -= FONT_SIZE * 2;
+    } else {
+      this.fonts.drawText(this.page, title, { x: MARGIN, y: this.y - TITLE_SIZE, size: TITLE_SIZE, bold: true });
+      this.y -= TITLE_SIZE * 2;
+    }
+  }
+
+  private measureCell(text: string, bold: boolean): number {
+    return Math.max(0, ...text.split('\n').map(line => this.fonts.widthOfTextAtSize(line, FONT_SIZE, { bold })));
+  }
+
+  private layoutRow(row: string[], widths: number[], bold: boolean): RowLayout {
+    const lines = widths.map((width, column) => this.wrapCell(row[column] ?? '', width - 2 * CELL_PADDING, bold));
+    const lineCount = Math.max(1, ...lines.map(cellLines => cellLines.length));
+    return { lines, height: lineCount * LINE_HEIGHT + 2 * CELL_PADDING };
+  }
+
+  private wrapCell(text: string, width: number, bold: boolean): string[] {
+    const lines: string[] = [];
+    const measure = (value: string) => this.fonts.widthOfTextAtSize(value, FONT_SIZE, { bold });
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let current = '';
+      for (const word of paragraph.split(' ')) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (measure(candidate) <= width) {
+          current = candidate;
+          continue;
+        }
+        if (current) lines.push(current);
+
+        // Break words wider than the column at character boundaries
+        current = '';
+        for (const char of word) {
+          if (current && measure(current + char) > width) {
+            lines.push(current);
+            current = '';
+          }
+          current += char;
+        }
+      }
+      lines.push(current);
+    }
+
+    if (lines.length > MAX_CELL_LINES) {
+      return [...lines.slice(0, MAX_CELL_LINES - 1), `${lines[MAX_CELL_LINES - 1]}…`];
+    }
+    return lines;
+  }
+
+  private drawRow(layout: RowLayout, widths: number[], header: boolean): void {
+    const page = this.page!;
+    let x = MARGIN;
+
+    widths.forEach((width, column) => {
+      page.drawRectangle({
+        x,
+        y: this.y - layout.height,
+        width,
+        height: layout.height,
+        borderColor: BORDER_COLOR,
+        borderWidth: 0.5,
+        color: header ? HEADER_FILL : undefined,
+      });
+
+      layout.lines[column].forEach((line, index) => {
+        if (!line) return;
+        this.fonts.drawText(page, line, {
+          x: x + CELL_PADDING,
+          y: this.y - CELL_PADDING - (index + 1) * LINE_HEIGHT + (LINE_HEIGHT - FONT_SIZE),
+          size: FONT_SIZE,
+          bold: header,
+        });
+      });
+
+      x += width;
+    });
+
+    this.y -= layout.height;
+  }
+}
+
+/**
+ * Render tables into a new PDF, each section starting on its own page
+ */
+export async function renderTablesToPDF(sections: TableSection[], options: TableRenderOptions = {}): Promise<ArrayBuffer> {
+  const pdfDoc = await PDFDocument.create();
+  const allText = sections.map(section => `${section.title}\n${section.rows.map(row => row.join(' ')).join('\n')}`).join('\n');
+  const fonts = await PDFFontSet.embed(pdfDoc, allText);
+
+  const renderer = new TablePDFRenderer(pdfDoc, fonts, { headerRow: options.headerRow ?? true });
+  const outline: PDFOutlineNode[] = sections.map(section => ({
+    title: section.title,
+    pageIndex: renderer.renderSection(section),
+    children: [],
+  }));
+  renderer.drawPageNumbers();
+
+  if (outline.length > 1) {
+    writeOutline(pdfDoc, outline);
+  }
+
+  const pdfBytes = await pdfDoc.save();
+  return pdfBytes.buffer as ArrayBuffer;
+}
@@ -0,0 +1,162 @@
+/**
+ * Watermarks for merged output
+ * PDF marks are drawn over the page content, upright as each page is displayed. DOCX marks are
+ * VML shapes for the document's headers, the same markup Word's Watermark command writes.
+ */
+
+import { degrees, PDFDocument, PDFImage, rgb } from 'pdf-lib';
+import { WatermarkOptions } from '@/app/types';
+import { PDFFontSet } from './pdf-fonts';
+import { displayFrame } from './pdf-stamps';
+import { escapeXml } from './ooxml-utils';
+
+export interface WatermarkImage {
+  bytes: Uint8Array;
+  format: 'png' | 'jpeg';
+  width: number;
+  height: number;
+}
+
+// Where marks sit on the displayed page, as fractions of its height
+const VERTICAL_POSITIONS = { center: 0.5, top: 0.85, bottom: 0.15 };
+
+/**
+ * Read an uploaded watermark picture and its pixel size; only PNG and JPEG can be embedded
+ */
+export async function readWatermarkImage(file: Blob): Promise<WatermarkImage> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.length > 24 && view.getUint32(0) === 0x89504e47) {
+    return { bytes, format: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (bytes.length > 4 && view.getUint16(0) === 0xffd8) {
+    // Walk the JPEG segments to the first start-of-frame marker
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+      const marker = bytes[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { bytes, format: 'jpeg', width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  throw new Error('The watermark image must be a PNG or JPEG file');
+}
+
+function parseColor(hex: string): { red: number; green: number; blue: number } {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  if (!match) return { red: 0.5, green: 0.5, blue: 0.5 };
+  return {
+    red: parseInt(match[1], 16) / 255,
+    green: parseInt(match[2], 16) / 255,
+    blue: parseInt(match[3], 16) / 255,
+  };
+}
+
+/**
+ * Draw the watermark on the given pages of a PDF
+ */
+export async function drawPDFWatermark(
+  pdfDoc: PDFDocument,
+  watermark: WatermarkOptions,
+  pageIndices: number[]
+): Promise<void> {
+  let image: PDFImage | null = null;
+  let fonts: PDFFontSet | null = null;
+  const text = watermark.text.trim();
+
+  if (watermark.kind === 'image') {
+    if (!watermark.image) throw new Error('Choose a picture for the watermark');
+    const picture = await readWatermarkImage(watermark.image);
+    image = picture.format === 'png' ? await pdfDoc.embedPng(picture.bytes) : await pdfDoc.embedJpg(picture.bytes);
+  } else {
+    if (!text) throw new Error('Enter the watermark text');
+    fonts = await PDFFontSet.embed(pdfDoc, text);
+  }
+
+  const { red, green, blue } = parseColor(watermark.color);
+  const opacity = Math.min(1, Math.max(0, watermark.opacity));
+
+  for (const pageIndex of pageIndices) {
+    const page = pdfDoc.getPage(pageIndex);
+    const frame = displayFrame(page);
+
+    // Mark size on the displayed page; text height is its cap height
+    const markWidth = frame.width * watermark.scale;
+    const fontSize = fonts ? markWidth / Math.max(fonts.widthOfTextAtSize(text, 1, { bold: true }), 0.01) : 0;
+    const markHeight = image ? markWidth * (image.height / image.width) : fontSize * 0.7;
+
+    const centers: [number, number][] = [];
+    if (watermark.position === 'tiled') {
+      const step = Math.max(markWidth, markHeight) * 1.3;
+      for (let v = step / 2; v < frame.height; v += step) {
+        for (let u = step / 2; u < frame.width; u += step) centers.push([u, v]);
+      }
+    } else {
+      centers.push([frame.width / 2, frame.height * VERTICAL_POSITIONS[watermark.position]]);
+    }
+
+    // Rotate around the mark's center: step back from it by half the rotated box
+    const angle = watermark.rotation + frame.rotation;
+    const radians = (angle * Math.PI) / 180;
+    const offsetX = (markWidth / 2) * Math.cos(radians) - (markHeight / 2) * Math.sin(radians);
+    const offsetY = (markWidth / 2) * Math.sin(radians) + (markHeight / 2) * Math.cos(radians);
+
+    for (const [u, v] of centers) {
+      const [centerX, centerY] = frame.toPageSpace(u, v);
+      const x = centerX - offsetX;
+      const y = centerY - offsetY;
+
+      if (image) {
+        page.drawImage(image, { x, y, width: markWidth, height: markHeight, rotate: degrees(angle), opacity });
+      } else if (fonts) {
+        fonts.drawText(page, text, { x, y, size: fontSize, bold: true, color: rgb(red, green, blue), rotate: angle, opacity });
+      }
+    }
+  }
+}
+
+/**
+ * A header paragraph holding the watermark as a VML shape. Pictures pass the relationship id
+ * of their image part and their pixel size.
+ */
+export function buildVMLWatermark(
+  watermark: WatermarkOptions,
+  picture?: { relationshipId: string; width: number; height: number }
+): string {
+  const pageWidth = 612; // Points; Word positions the shape relative to the margins
+  const width = pageWidth * watermark.scale;
+  const height = picture
+    ? width * (picture.height / picture.width)
+    : width / Math.max(watermark.text.trim().length * 0.55, 1);
+
+  // VML rotates clockwise
+  const rotation = ((360 - watermark.rotation) % 360 + 360) % 360;
+  const vertical = watermark.position === 'top' || watermark.position === 'bottom' ? watermark.position : 'center';
+  const style = [
+    'position:absolute', 'margin-left:0', 'margin-top:0',
+    `width:${width.toFixed(1)}pt`, `height:${height.toFixed(1)}pt`, `rotation:${rotation}`,
+    'z-index:-251657216',
+    'mso-position-horizontal:center', 'mso-position-horizontal-relative:margin',
+    `mso-position-vertical:${vertical}`, 'mso-position-vertical-relative:margin',
+  ].join(';');
+
+  const shape = picture
+    ? `<v:shapetype id="_x0000_t75" coordsize="21600,21600" o:spt="75" o:preferrelative="t" path="m@4@5l@4@11@9@11@9@5xe" filled="f" stroked="f"><v:stroke joinstyle="miter"/><v:formulas><v:f eqn="if lineDrawn pixelLineWidth 0"/><v:f eqn="sum @0 1 0"/><v:f eqn="sum 0 0 @1"/><v:f eqn="prod @2 1 2"/><v:f eqn="prod @3 21600 pixelWidth"/><v:f eqn="prod @3 21600 pixelHeight"/><v:f eqn="sum @0 0 1"/><v:f eqn="prod @6 1 2"/><v:f eqn="prod @7 21600 pixelWidth"/><v:f eqn="sum @8 21600 0"/><v:f eqn="prod @7 21600 pixelHeight"/><v:f eqn="sum @10 21600 0"/></v:formulas><v:path o:extrusionok="f" gradientshapeok="t" o:connecttype="rect"/><o:lock v:ext="edit" aspectratio="t"/></v:shapetype>`
+      + `<v:shape id="WordPictureWatermark" o:spid="_x0000_s2050" type="#_x0000_t75" style="${style}" o:allowincell="f">`
+      + `<v:imagedata r:id="${picture.relationshipId}" o:title="" gain="19661f" blacklevel="22938f"/></v:shape>`
+    : `<v:shapetype id="_x0000_t136" coordsize="21600,21600" o:spt="136" adj="10800" path="m@7,l@8,m@5,21600l@6,21600e"><v:formulas><v:f eqn="sum #0 0 10800"/><v:f eqn="prod #0 2 1"/><v:f eqn="sum 21600 0 @1"/><v:f eqn="sum 0 0 @2"/><v:f eqn="sum 21600 0 @3"/><v:f eqn="if @0 @3 0"/><v:f eqn="if @0 21600 @1"/><v:f eqn="if @0 0 @2"/><v:f eqn="if @0 @4 21600"/><v:f eqn="mid @5 @6"/><v:f eqn="mid @8 @5"/><v:f eqn="mid @7 @8"/><v:f eqn="mid @6 @7"/><v:f eqn="sum @6 0 @5"/></v:formulas><v:path textpathok="t" o:connecttype="custom" o:connectlocs="@9,0;@10,10800;@11,21600;@12,10800" o:connectangles="270,180,90,0"/><v:textpath on="t" fitshape="t"/><v:handles><v:h position="#0,bottomRight" xrange="6629,14971"/></v:handles><o:lock v:ext="edit" text="t" shapetype="t"/></v:shapetype>`
+      + `<v:shape id="PowerPlusWaterMarkObject" o:spid="_x0000_s2049" type="#_x0000_t136" style="${style}" o:allowincell="f" fillcolor="${escapeXml(watermark.color)}" stroked="f">`
+      + `<v:fill opacity="${Math.min(1, Math.max(0, watermark.opacity)).toFixed(2)}"/>`
+      + `<v:textpath style="font-family:&quot;Calibri&quot;;font-size:1pt" string="${escapeXml(watermark.text.trim())}"/></v:shape>`;
+
+  return `<w:p><w:pPr><w:spacing w:after="0"/></w:pPr><w:r><w:rPr><w:noProof/></w:rPr><w:pict>${shape}</w:pict></w:r></w:p>`;
+}
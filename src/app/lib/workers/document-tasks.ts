@@ -0,0 +1,152 @@
+/**
+ * Message protocol and task runner shared by the document worker and its main-thread fallback
+ * Files travel to the worker by structured clone (no copy of their bytes); binary
+ * results come back as transferred ArrayBuffers.
+ */
+
+import { DocumentFormat, DocumentMetadata, ProcessorResult, SplitOptions, SplitResult } from '@/app/types';
+import { DocumentProcessor } from '@/app/lib/document-processors';
+import { ErrorHandler } from '@/app/lib/utils/error-handler';
+
+export interface DocumentTaskMap {
+  validate: {
+    payload: { file: File; format: DocumentFormat; password?: string };
+    result: { valid: boolean; error?: string; passwordRequired?: boolean };
+  };
+  analyze: {
+    payload: { file: File; format: DocumentFormat; password?: string };
+    result: DocumentMetadata;
+  };
+  preview: {
+    payload: { file: File; format: DocumentFormat; password?: string };
+    result: string;
+  };
+  merge: {
+    payload: { files: File[]; format: DocumentFormat; options: Record<string, unknown> };
+    result: ProcessorResult;
+  };
+  convertAndMerge: {
+    payload: {
+      documents: {
+        file: File;
+        format: DocumentFormat;
+        name?: string;
+        pageSelection?: string;
+        password?: string;
+        metadata?: DocumentMetadata;
+      }[];
+      options: Record<string, unknown>;
+    };
+    result: ProcessorResult;
+  };
+  convertToPDF: {
+    payload: { file: File; format: DocumentFormat; name?: string; password?: string };
+    result: { data: ArrayBuffer };
+  };
+  split: {
+    payload: { file: File; format: DocumentFormat; options: SplitOptions; password?: string };
+    result: SplitResult;
+  };
+}
+
+export type DocumentTaskType = keyof DocumentTaskMap;
+export type DocumentTaskPayload<T extends DocumentTaskType> = DocumentTaskMap[T]['payload'];
+export type DocumentTaskResult<T extends DocumentTaskType> = DocumentTaskMap[T]['result'];
+
+export interface DocumentWorkerRequest<T extends DocumentTaskType = DocumentTaskType> {
+  id: number;
+  type: T;
+  payload: DocumentTaskPayload<T>;
+}
+
+export type DocumentWorkerResponse =
+  | { id: number; kind: 'progress'; progress: number }
+  | { id: number; kind: 'result'; result: unknown }
+  | { id: number; kind: 'error'; error: string };
+
+/**
+ * Run a task against DocumentProcessor, reporting progress through the callback
+ */
+export async function runDocumentTask<T extends DocumentTaskType>(
+  type: T,
+  payload: DocumentTaskPayload<T>,
+  control: { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+): Promise<DocumentTaskResult<T>> {
+  const { onProgress, signal } = control;
+  const request = { type, payload } as { [K in DocumentTaskType]: { type: K; payload: DocumentTaskPayload<K> } }[DocumentTaskType];
+  let result: DocumentTaskResult<DocumentTaskType>;
+
+  switch (request.type) {
+    case 'validate':
+      result = await DocumentProcessor.validateDocument(request.payload.file, request.payload.format, {
+        password: request.payload.password,
+        onProgress,
+        signal,
+      });
+      break;
+    case 'analyze':
+      result = await DocumentProcessor.analyzeDocument(request.payload.file, request.payload.format, {
+        password: request.payload.password,
+        onProgress,
+        signal,
+      });
+      break;
+    case 'preview':
+      result = await DocumentProcessor.generatePreview(request.payload.file, request.payload.format, {
+        password: request.payload.password,
+        signal,
+      });
+      break;
+    case 'merge':
+      result = await DocumentProcessor.mergeDocuments(request.payload.files, request.payload.format, {
+        ...request.payload.options,
+        onProgress,
+        signal,
+      });
+      break;
+    case 'convertAndMerge':
+      result = await DocumentProcessor.convertAndMergeToPDF(request.payload.documents, {
+        ...request.payload.options,
+        onProgress,
+        signal,
+      });
+      break;
+    case 'convertToPDF':
+      ErrorHandler.throwIfAborted(signal);
+      result = { data: await DocumentProcessor.convertToPDF(request.payload) };
+      break;
+    case 'split':
+      result = await DocumentProcessor.splitDocument(request.payload.file, request.payload.format, request.payload.options, {
+        password: request.payload.password,
+        signal,
+      });
+      break;
+    default:
+      throw new Error(`Unknown document task: ${(request as { type: string }).type}`);
+  }
+
+  return result as DocumentTaskResult<T>;
+}
+
+/**
+ * Collect the ArrayBuffers in a task result so postMessage can transfer instead of copy them
+ */
+export function getTransferables(result: unknown): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+
+  const addData = (data: unknown) => {
+    if (data instanceof ArrayBuffer) {
+      buffers.add(data);
+    } else if (ArrayBuffer.isView(data) && data.buffer instanceof ArrayBuffer) {
+      buffers.add(data.buffer);
+    }
+  };
+
+  if (result && typeof result === 'object') {
+    const { data, parts } = result as { data?: unknown; parts?: { data?: unknown }[] };
+    addData(data);
+    parts?.forEach(part => addData(part.data));
+  }
+
+  return [...buffers];
+}
@@ -0,0 +1,32 @@
+/**
+ * Web Worker entry point that runs document processing off the main thread
+ * Receives DocumentWorkerRequest messages and answers with progress, result or error messages
+ */
+
+import {
+  DocumentWorkerRequest,
+  DocumentWorkerResponse,
+  getTransferables,
+  runDocumentTask,
+} from './document-tasks';
+
+const post = (message: DocumentWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.addEventListener('message', async (event: MessageEvent<DocumentWorkerRequest>) => {
+  const { id, type, payload } = event.data;
+
+  try {
+    const result = await runDocumentTask(type, payload, {
+      onProgress: progress => post({ id, kind: 'progress', progress }),
+    });
+    post({ id, kind: 'result', result }, getTransferables(result));
+  } catch (error) {
+    post({
+      id,
+      kind: 'error',
+      error: error instanceof Error ? error.message : 'Unknown worker error',
+    });
+  }
+});
@@ -0,0 +1,240 @@
+/**
+ * Pool of document workers with a FIFO task queue
+ * Each worker runs one task at a time; workers are spawned on demand up to the pool size.
+ * Falls back to the main thread where Web Workers are unavailable (SSR, old browsers).
+ */
+
+import {
+  DocumentTaskPayload,
+  DocumentTaskResult,
+  DocumentTaskType,
+  DocumentWorkerResponse,
+  runDocumentTask,
+} from './document-tasks';
+
+export interface WorkerTaskOptions {
+  onProgress?: (progress: number) => void;
+  /** Buffers in the payload to hand over to the worker instead of copying */
+  transfer?: Transferable[];
+  /** Aborting drops a queued task, or terminates the worker running it */
+  signal?: AbortSignal;
+}
+
+interface QueuedTask {
+  id: number;
+  type: DocumentTaskType;
+  payload: unknown;
+  options: WorkerTaskOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  task: QueuedTask | null;
+}
+
+export class DocumentWorkerPool {
+  private workers: PooledWorker[] = [];
+  private queue: QueuedTask[] = [];
+  private nextTaskId = 1;
+
+  constructor(
+    private createWorker: () => Worker,
+    private size: number = DocumentWorkerPool.getDefaultSize()
+  ) {}
+
+  static getDefaultSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    // Leave a core for the UI thread
+    return Math.max(1, Math.min(4, cores - 1));
+  }
+
+  run<T extends DocumentTaskType>(
+    type: T,
+    payload: DocumentTaskPayload<T>,
+    options: WorkerTaskOptions = {}
+  ): Promise<DocumentTaskResult<T>> {
+    return new Promise((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(new DOMException('The operation was cancelled', 'AbortError'));
+        return;
+      }
+
+      // However the task settles, its signal stops holding on to it
+      const onAbort = () => this.cancel(task);
+      const task: QueuedTask = {
+        id: this.nextTaskId++,
+        type,
+        payload,
+        options,
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as DocumentTaskResult<T>);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+
+  setSize(size: number): void {
+    this.size = Math.max(1, Math.floor(size));
+
+    // Retire idle workers above the new size; busy ones retire when they finish
+    this.workers
+      .filter(entry => !entry.task)
+      .slice(0, Math.max(0, this.workers.length - this.size))
+      .forEach(entry => this.removeWorker(entry));
+
+    this.dispatch();
+  }
+
+  terminate(): void {
+    this.queue.forEach(task => task.reject(new Error('Worker pool terminated')));
+    this.queue = [];
+    [...this.workers].forEach(entry => {
+      entry.task?.reject(new Error('Worker pool terminated'));
+      this.removeWorker(entry);
+    });
+  }
+
+  private cancel(task: QueuedTask): void {
+    const abortError = new DOMException('The operation was cancelled', 'AbortError');
+
+    if (this.queue.includes(task)) {
+      this.queue = this.queue.filter(queued => queued !== task);
+      task.reject(abortError);
+      return;
+    }
+
+    // Terminating is the only way to stop synchronous work inside a worker,
+    // and it releases everything the task had allocated
+    const entry = this.workers.find(candidate => candidate.task === task);
+    if (entry) {
+      entry.task = null;
+      this.removeWorker(entry);
+      task.reject(abortError);
+      this.dispatch();
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let entry = this.workers.find(candidate => !candidate.task);
+      if (!entry) {
+        if (this.workers.length >= this.size) return;
+        try {
+          entry = this.spawnWorker();
+        } catch (error) {
+          this.queue.shift()!.reject(error instanceof Error ? error : new Error('Could not start document worker'));
+          continue;
+        }
+      }
+
+      const task = this.queue.shift()!;
+      entry.task = task;
+      try {
+        entry.worker.postMessage(
+          { id: task.id, type: task.type, payload: task.payload },
+          { transfer: task.options.transfer ?? [] }
+        );
+      } catch (error) {
+        entry.task = null;
+        task.reject(error instanceof Error ? error : new Error('Could not send task to worker'));
+      }
+    }
+  }
+
+  private spawnWorker(): PooledWorker {
+    const entry: PooledWorker = { worker: this.createWorker(), task: null };
+
+    entry.worker.addEventListener('message', (event: MessageEvent<DocumentWorkerResponse>) => {
+      const message = event.data;
+      const task = entry.task;
+      if (!task || message.id !== task.id) return;
+
+      if (message.kind === 'progress') {
+        task.options.onProgress?.(message.progress);
+        return;
+      }
+
+      entry.task = null;
+      if (message.kind === 'result') {
+        task.resolve(message.result);
+      } else {
+        task.reject(new Error(message.error));
+      }
+
+      if (this.workers.length > this.size) {
+        this.removeWorker(entry);
+      }
+      this.dispatch();
+    });
+
+    // A crashed worker cannot be trusted with further tasks: fail its task and replace it
+    entry.worker.addEventListener('error', (event: ErrorEvent) => {
+      event.preventDefault();
+      entry.task?.reject(new Error(event.message || 'Document worker crashed'));
+      entry.task = null;
+      this.removeWorker(entry);
+      this.dispatch();
+    });
+
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private removeWorker(entry: PooledWorker): void {
+    entry.worker.terminate();
+    this.workers = this.workers.filter(candidate => candidate !== entry);
+  }
+}
+
+let documentWorkerPool: DocumentWorkerPool | null = null;
+
+function getDocumentWorkerPool(): DocumentWorkerPool | null {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+    return null;
+  }
+
+  if (!documentWorkerPool) {
+    documentWorkerPool = new DocumentWorkerPool(
+      () => new Worker(new URL('./document.worker.ts', import.meta.url), { type: 'module' })
+    );
+  }
+  return documentWorkerPool;
+}
+
+/**
+ * Change how many document workers may run at once; null restores the default for this device
+ */
+export function configureDocumentWorkerPool(size: number | null): void {
+  getDocumentWorkerPool()?.setSize(size ?? DocumentWorkerPool.getDefaultSize());
+}
+
+/**
+ * Run a document task in the worker pool, or on the main thread when workers are unavailable
+ */
+export function runInDocumentWorker<T extends DocumentTaskType>(
+  type: T,
+  payload: DocumentTaskPayload<T>,
+  options: WorkerTaskOptions = {}
+): Promise<DocumentTaskResult<T>> {
+  const pool = getDocumentWorkerPool();
+  if (!pool) {
+    return runDocumentTask(type, payload, { onProgress: options.onProgress, signal: options.signal });
+  }
+  return pool.run(type, payload, options);
+}
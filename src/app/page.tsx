@@ -1,6 +1,6 @@
 'use client';
 
-import { Suspense, lazy } from 'react';
+import { Suspense, lazy, useEffect } from 'react';
 import { Navigation } from '@/app/components/layout/Navigation';
 import { NotificationCenter } from '@/app/components/layout/NotificationCenter';
 import { HelpModal } from '@/app/components/modals/HelpModal';
@@ -12,6 +12,7 @@ import { ProcessorPerformanceMonitor, ProcessorPreloader, BundleAnalyzer } from
 const FileUpload = lazy(() => import('@/app/components/upload/FileUpload').then(m => ({ default: m.FileUpload })));
 const DocumentList = lazy(() => import('@/app/components/upload/DocumentList').then(m => ({ default: m.DocumentList })));
 const MergeOptions = lazy(() => import('@/app/components/merge/MergeOptions').then(m => ({ default: m.MergeOptions })));
+const SplitTool = lazy(() => import('@/app/components/split/SplitTool').then(m => ({ default: m.SplitTool })));
 const DocumentPreview = lazy(() => import('@/app/components/preview/DocumentPreview').then(m => ({ default: m.DocumentPreview })));
 const PreviewList = lazy(() => import('@/app/components/preview/DocumentPreview').then(m => ({ default: m.PreviewList })));
 const ExportResults = lazy(() => import('@/app/components/export/ExportResults').then(m => ({ default: m.ExportResults })));
@@ -27,8 +28,13 @@ const ComponentLoader = ({ name }: { name: string }) => (
 );
 
 export default function Home() {
-  const { activeTab } = useUIStore();
+  const { activeTab, restorePreferences } = useUIStore();
   const documents = useDocumentStore(state => state.documents);
+
+  // Saved preferences live in localStorage, so they are applied once mounted
+  useEffect(() => {
+    restorePreferences();
+  }, [restorePreferences]);
   
   // Get unique formats for preloading
   const formats = [...new Set(documents.map(doc => doc.format))];
@@ -76,6 +82,22 @@ export default function Home() {
           </div>
         );
 
+      case 'split':
+        return (
+          <div className="space-y-6">
+            <div className="text-center lg:text-left">
+              <h1 className="text-3xl lg:text-4xl font-bold text-text-primary mb-3">Split Document</h1>
+              <p className="text-lg text-text-secondary">
+                Break a document into parts and download them as a ZIP
+              </p>
+            </div>
+            
+            <Suspense fallback={<ComponentLoader name="Split Tool" />}>
+              <SplitTool />
+            </Suspense>
+          </div>
+        );
+
       case 'preview':
         return (
           <div className="space-y-6">
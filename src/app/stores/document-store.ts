@@ -1,18 +1,32 @@
-import { create } from 'zustand';
-import { DocumentFile, MergeOptions, ProcessingJob, DocumentFormat } from '@/app/types';
+import { create, StoreApi } from 'zustand';
+import { DocumentFile, MergeOptions, MergeOutput, ProcessingJob, ProcessorResult, DocumentFormat, PlannedPage, PageSource, MergeRecipe, RecipeStepSource } from '@/app/types';
 import { 
   validateFile, 
   getDocumentFormat, 
   generateDocumentId, 
+  getFileExtension,
   MAX_FILES_BULK 
 } from '@/app/lib/utils/file-utils';
+import { parsePageSelection, validatePageSelection } from '@/app/lib/utils/page-range';
 import { DocumentProcessor } from '@/app/lib/document-processors';
+import { runInDocumentWorker } from '@/app/lib/workers/worker-pool';
 import { ErrorHandler } from '@/app/lib/utils/error-handler';
+import { renderPDFThumbnails } from '@/app/lib/utils/pdf-thumbnails';
+import { hashFile, planSmartMerge, readCSVHeader, SmartMergeGroup, SmartMergePlan } from '@/app/lib/utils/smart-merge';
+
+// Aborts the merge job that is currently running, if any
+let processingController: AbortController | null = null;
+
+// Thumbnail renders in flight, so opening a preview twice renders once
+const thumbnailRequests = new Map<string, Promise<void>>();
 
 interface DocumentStore {
   // State
   documents: DocumentFile[];
   mergeOptions: MergeOptions;
+  pagePlan: PlannedPage[] | null; // Set by the page organizer; null merges documents in list order
+  smartPlan: SmartMergePlan | null; // Last plan shown for the smart merge mode
+  mergeRecipe: MergeRecipe | null; // Steps of the custom merge mode; kept when documents are cleared so it can be reused
   currentJob: ProcessingJob | null;
   isProcessing: boolean;
   urlsToCleanup: Set<string>;
@@ -22,8 +36,20 @@ interface DocumentStore {
   removeDocument: (id: string) => void;
   clearDocuments: () => void;
   updateDocument: (id: string, updates: Partial<DocumentFile>) => void;
+  unlockDocument: (id: string, password: string) => void;
+  loadThumbnails: (id: string) => Promise<void>;
   reorderDocuments: (sourceIndex: number, destinationIndex: number) => void;
 
+  // Page Organizer
+  createPagePlan: () => Promise<PlannedPage[]>;
+  setPagePlan: (plan: PlannedPage[] | null) => void;
+
+  // Smart Merge
+  createSmartPlan: () => Promise<SmartMergePlan>;
+
+  // Custom Merge
+  setMergeRecipe: (recipe: MergeRecipe | null) => void;
+
   // Merge Options
   setMergeOptions: (options: Partial<MergeOptions>) => void;
   resetMergeOptions: () => void;
@@ -50,12 +76,231 @@ const defaultMergeOptions: MergeOptions = {
   pageBreaks: false,
   includeHeaders: false,
   includeFooters: false,
+  csvColumnMode: 'union',
+  csvSourceColumn: false,
+  xlsxCombineSheets: false,
+  xlsxSourceColumns: false,
+  tableOfContents: false,
+  pageStamps: {
+    headerTemplate: '{source}',
+    footerTemplate: 'Page {page} of {total}',
+    fontStyle: 'regular',
+    fontSize: 9,
+    alignment: 'center',
+    margin: 24,
+  },
+};
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+  'pdf': 'application/pdf',
+  'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'txt': 'text/plain',
+  'csv': 'text/csv',
+  'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
 };
 
+/**
+ * Merge documents into one file of the given format in the worker, converting to PDF when formats are mixed
+ */
+async function mergeInWorker(
+  documents: DocumentFile[],
+  outputFormat: DocumentFormat,
+  mergeOptions: MergeOptions,
+  control: { onProgress: (progress: number) => void; signal: AbortSignal }
+): Promise<ProcessorResult> {
+  const inputFormats = [...new Set(documents.map(doc => doc.format))];
+
+  if (outputFormat === 'pdf' && inputFormats.length > 1) {
+    // Convert all documents to PDF and merge
+    return runInDocumentWorker('convertAndMerge', {
+      documents: documents.map(doc => ({
+        file: doc.file,
+        format: doc.format,
+        name: doc.name,
+        pageSelection: doc.pageSelection,
+        password: doc.password,
+        metadata: doc.metadata,
+      })),
+      options: { ...mergeOptions } as unknown as Record<string, unknown>,
+    }, control);
+  }
+
+  if (inputFormats.length === 1 && inputFormats[0] === outputFormat) {
+    // Single format merge, no conversion needed
+    return runInDocumentWorker('merge', {
+      files: documents.map(doc => doc.file),
+      format: outputFormat,
+      options: {
+        ...mergeOptions,
+        documentNames: documents.map(doc => doc.name),
+        documentMetadata: documents.map(doc => doc.metadata),
+        pageSelections: documents.map(doc => doc.pageSelection),
+        passwords: documents.map(doc => doc.password),
+      } as unknown as Record<string, unknown>,
+    }, control);
+  }
+
+  throw new Error(`Format conversion to ${outputFormat} not yet supported for this combination`);
+}
+
+/**
+ * Validate, analyze and preview a document in the worker, recording the outcome on it
+ * Runs again with a password when the user unlocks an encrypted PDF.
+ */
+function loadDocument(
+  id: string,
+  file: File,
+  format: DocumentFormat,
+  password: string | undefined,
+  set: StoreApi<DocumentStore>['setState']
+): void {
+  // Validate document structure first
+  runInDocumentWorker('validate', { file, format, password }, {
+    onProgress: (progress) => {
+      set(state => ({
+        documents: state.documents.map(doc =>
+          doc.id === id
+            ? { ...doc, progress: progress * 0.2 } // Validation is 20% of total
+            : doc
+        )
+      }));
+    }
+  })
+  .then(validation => {
+    if (!validation.valid) {
+      const error = ErrorHandler.createUserFriendlyError(
+        validation.error || 'File validation failed',
+        'validation'
+      );
+      const errorDetails = ErrorHandler.getErrorDetails(error);
+
+      set(state => ({
+        documents: state.documents.map(doc =>
+          doc.id === id
+            ? { 
+                ...doc, 
+                status: 'error' as const, 
+                passwordRequired: validation.passwordRequired === true,
+                error: `${errorDetails.title}: ${errorDetails.message}${errorDetails.userAction ? ' ' + errorDetails.userAction : ''}` 
+              }
+            : doc
+        )
+      }));
+      return;
+    }
+
+    // Analyze document with progress tracking
+    runInDocumentWorker('analyze', { file, format, password }, {
+      onProgress: (progress) => {
+        set(state => ({
+          documents: state.documents.map(doc =>
+            doc.id === id
+              ? { ...doc, progress: 0.2 + (progress * 0.4) } // Analysis is 40% of total (20-60%)
+              : doc
+          )
+        }));
+      }
+    })
+    .then(metadata => {
+      set(state => ({
+        documents: state.documents.map(doc =>
+          doc.id === id
+            ? { ...doc, metadata, progress: 0.6 }
+            : doc
+        )
+      }));
+
+      // Generate preview as final step
+      runInDocumentWorker('preview', { file, format, password })
+        .then(preview => {
+          set(state => ({
+            documents: state.documents.map(doc =>
+              doc.id === id
+                ? { ...doc, preview, status: 'processed' as const, progress: 1.0 }
+                : doc
+            )
+          }));
+        })
+        .catch(originalError => {
+          const error = ErrorHandler.createUserFriendlyError(originalError, 'preview');
+          const errorDetails = ErrorHandler.getErrorDetails(error);
+
+          console.error('Preview generation failed:', {
+            file: file.name,
+            error: errorDetails,
+            originalError
+          });
+
+          // Don't fail the entire document for preview errors
+          set(state => ({
+            documents: state.documents.map(doc =>
+              doc.id === id
+                ? { 
+                    ...doc, 
+                    status: 'processed' as const, 
+                    progress: 1.0, 
+                    error: `Preview: ${errorDetails.message}` 
+                  }
+                : doc
+            )
+          }));
+        });
+    })
+    .catch(originalError => {
+      const error = ErrorHandler.createUserFriendlyError(originalError, 'analysis');
+      const errorDetails = ErrorHandler.getErrorDetails(error);
+
+      console.error('Document analysis failed:', {
+        file: file.name,
+        error: errorDetails,
+        originalError
+      });
+
+      set(state => ({
+        documents: state.documents.map(doc =>
+          doc.id === id
+            ? { 
+                ...doc, 
+                status: 'error' as const, 
+                error: `${errorDetails.title}: ${errorDetails.message}${errorDetails.userAction ? ' ' + errorDetails.userAction : ''}` 
+              }
+            : doc
+        )
+      }));
+    });
+  })
+  .catch(originalError => {
+    const error = ErrorHandler.createUserFriendlyError(originalError, 'validation');
+    const errorDetails = ErrorHandler.getErrorDetails(error);
+
+    console.error('Document validation failed:', {
+      file: file.name,
+      error: errorDetails,
+      originalError
+    });
+
+    set(state => ({
+      documents: state.documents.map(doc =>
+        doc.id === id
+          ? { 
+              ...doc, 
+              status: 'error' as const, 
+              error: `${errorDetails.title}: ${errorDetails.message}${errorDetails.userAction ? ' ' + errorDetails.userAction : ''}` 
+            }
+          : doc
+      )
+    }));
+  });
+}
+
 export const useDocumentStore = create<DocumentStore>((set, get) => ({
   // Initial State
   documents: [],
   mergeOptions: defaultMergeOptions,
+  pagePlan: null,
+  smartPlan: null,
+  mergeRecipe: null,
   currentJob: null,
   isProcessing: false,
   urlsToCleanup: new Set(),
@@ -96,147 +341,13 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
       };
 
       newDocuments.push(documentFile);
-
-      // Validate document structure first
-      DocumentProcessor.validateDocument(file, format, {
-        onProgress: (progress) => {
-          set(state => ({
-            documents: state.documents.map(doc =>
-              doc.id === documentFile.id
-                ? { ...doc, progress: progress * 0.2 } // Validation is 20% of total
-                : doc
-            )
-          }));
-        }
-      })
-      .then(validation => {
-        if (!validation.valid) {
-          const error = ErrorHandler.createUserFriendlyError(
-            validation.error || 'File validation failed',
-            'validation'
-          );
-          const errorDetails = ErrorHandler.getErrorDetails(error);
-          
-          set(state => ({
-            documents: state.documents.map(doc =>
-              doc.id === documentFile.id
-                ? { 
-                    ...doc, 
-                    status: 'error' as const, 
-                    error: `${errorDetails.title}: ${errorDetails.message}${errorDetails.userAction ? ' ' + errorDetails.userAction : ''}` 
-                  }
-                : doc
-            )
-          }));
-          return;
-        }
-
-        // Analyze document with progress tracking
-        DocumentProcessor.analyzeDocument(file, format, {
-          onProgress: (progress) => {
-            set(state => ({
-              documents: state.documents.map(doc =>
-                doc.id === documentFile.id
-                  ? { ...doc, progress: 0.2 + (progress * 0.4) } // Analysis is 40% of total (20-60%)
-                  : doc
-              )
-            }));
-          }
-        })
-        .then(metadata => {
-          set(state => ({
-            documents: state.documents.map(doc =>
-              doc.id === documentFile.id
-                ? { ...doc, metadata, progress: 0.6 }
-                : doc
-            )
-          }));
-
-          // Generate preview as final step
-          DocumentProcessor.generatePreview(file, format)
-            .then(preview => {
-              set(state => ({
-                documents: state.documents.map(doc =>
-                  doc.id === documentFile.id
-                    ? { ...doc, preview, status: 'processed' as const, progress: 1.0 }
-                    : doc
-                )
-              }));
-            })
-            .catch(originalError => {
-              const error = ErrorHandler.createUserFriendlyError(originalError, 'preview');
-              const errorDetails = ErrorHandler.getErrorDetails(error);
-              
-              console.error('Preview generation failed:', {
-                file: file.name,
-                error: errorDetails,
-                originalError
-              });
-              
-              // Don't fail the entire document for preview errors
-              set(state => ({
-                documents: state.documents.map(doc =>
-                  doc.id === documentFile.id
-                    ? { 
-                        ...doc, 
-                        status: 'processed' as const, 
-                        progress: 1.0, 
-                        error: `Preview: ${errorDetails.message}` 
-                      }
-                    : doc
-                )
-              }));
-            });
-        })
-        .catch(originalError => {
-          const error = ErrorHandler.createUserFriendlyError(originalError, 'analysis');
-          const errorDetails = ErrorHandler.getErrorDetails(error);
-          
-          console.error('Document analysis failed:', {
-            file: file.name,
-            error: errorDetails,
-            originalError
-          });
-          
-          set(state => ({
-            documents: state.documents.map(doc =>
-              doc.id === documentFile.id
-                ? { 
-                    ...doc, 
-                    status: 'error' as const, 
-                    error: `${errorDetails.title}: ${errorDetails.message}${errorDetails.userAction ? ' ' + errorDetails.userAction : ''}` 
-                  }
-                : doc
-            )
-          }));
-        });
-      })
-      .catch(originalError => {
-        const error = ErrorHandler.createUserFriendlyError(originalError, 'validation');
-        const errorDetails = ErrorHandler.getErrorDetails(error);
-        
-        console.error('Document validation failed:', {
-          file: file.name,
-          error: errorDetails,
-          originalError
-        });
-        
-        set(state => ({
-          documents: state.documents.map(doc =>
-            doc.id === documentFile.id
-              ? { 
-                  ...doc, 
-                  status: 'error' as const, 
-                  error: `${errorDetails.title}: ${errorDetails.message}${errorDetails.userAction ? ' ' + errorDetails.userAction : ''}` 
-                }
-              : doc
-          )
-        }));
-      });
+      loadDocument(documentFile.id, file, format, undefined, set);
     }
 
     set(state => ({
-      documents: [...state.documents, ...newDocuments]
+      documents: [...state.documents, ...newDocuments],
+      // The plan cannot place pages it has not seen; the organizer starts over with the new files
+      pagePlan: null,
     }));
   },
 
@@ -250,8 +361,13 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
           state.urlsToCleanup.delete(docToRemove.preview);
         }
       }
+      docToRemove?.thumbnails?.forEach(url => {
+        URL.revokeObjectURL(url);
+        state.urlsToCleanup.delete(url);
+      });
       return {
-        documents: state.documents.filter(doc => doc.id !== id)
+        documents: state.documents.filter(doc => doc.id !== id),
+        pagePlan: state.pagePlan?.filter(page => page.documentId !== id) ?? null,
       };
     });
   },
@@ -260,7 +376,7 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
     const { urlsToCleanup } = get();
     // Clean up all blob URLs
     urlsToCleanup.forEach(url => URL.revokeObjectURL(url));
-    set({ documents: [], urlsToCleanup: new Set() });
+    set({ documents: [], pagePlan: null, urlsToCleanup: new Set() });
   },
 
   updateDocument: (id: string, updates: Partial<DocumentFile>) => {
@@ -271,6 +387,52 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
     }));
   },
 
+  unlockDocument: (id: string, password: string) => {
+    const document = get().documents.find(doc => doc.id === id);
+    if (!document) return;
+
+    set(state => ({
+      documents: state.documents.map(doc =>
+        doc.id === id
+          ? { ...doc, password, passwordRequired: false, status: 'pending' as const, error: undefined, progress: 0 }
+          : doc
+      )
+    }));
+    loadDocument(id, document.file, document.format, password, set);
+  },
+
+  loadThumbnails: (id: string) => {
+    const document = get().documents.find(doc => doc.id === id);
+    if (!document || document.thumbnails) return Promise.resolve();
+
+    const pending = thumbnailRequests.get(id);
+    if (pending) return pending;
+
+    const request = (async () => {
+      const { data } = await runInDocumentWorker('convertToPDF', {
+        file: document.file,
+        format: document.format,
+        name: document.name,
+        password: document.password,
+      });
+      const { images, pageCount } = await renderPDFThumbnails(data);
+
+      // The document may have been removed while its pages were rendering
+      if (!get().documents.some(doc => doc.id === id)) return;
+
+      const thumbnails = images.map(image => URL.createObjectURL(image));
+      thumbnails.forEach(url => get().addUrlToCleanup(url));
+      set(state => ({
+        documents: state.documents.map(doc =>
+          doc.id === id ? { ...doc, thumbnails, renderedPageCount: pageCount } : doc
+        )
+      }));
+    })().finally(() => thumbnailRequests.delete(id));
+
+    thumbnailRequests.set(id, request);
+    return request;
+  },
+
   reorderDocuments: (sourceIndex: number, destinationIndex: number) => {
     set(state => {
       const documents = [...state.documents];
@@ -280,6 +442,81 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
     });
   },
 
+  // Page Organizer
+  createPagePlan: async () => {
+    const documents = get().documents.filter(doc => doc.status === 'processed');
+    const plan: PlannedPage[] = [];
+
+    // One document at a time keeps memory flat while every page is rendered
+    for (const document of documents) {
+      try {
+        await get().loadThumbnails(document.id);
+      } catch (error) {
+        console.error('Page thumbnail rendering failed:', { file: document.name, error });
+      }
+
+      const current = get().documents.find(doc => doc.id === document.id);
+      const pageCount = current?.renderedPageCount ?? (document.format === 'pdf' ? document.metadata?.pageCount : undefined);
+      if (!pageCount) {
+        throw new Error(`${document.name}: pages could not be read for the page organizer`);
+      }
+
+      // Start from the document's page selection, if it has a valid one
+      let pageIndices = Array.from({ length: pageCount }, (_, index) => index);
+      if (document.format === 'pdf' && document.pageSelection?.trim()) {
+        try {
+          pageIndices = parsePageSelection(document.pageSelection, pageCount);
+        } catch {
+          // An invalid selection is reported by the page field; use every page
+        }
+      }
+
+      pageIndices.forEach(pageIndex => {
+        plan.push({ id: generateDocumentId(), documentId: document.id, pageIndex, rotation: 0 });
+      });
+    }
+
+    return plan;
+  },
+
+  setPagePlan: (plan: PlannedPage[] | null) => {
+    set({ pagePlan: plan });
+  },
+
+  // Smart Merge
+  createSmartPlan: async () => {
+    const documents = get().documents;
+    const hashes = new Map<string, string>();
+
+    // Files are read one at a time to keep memory flat; hashes are kept for the next plan
+    const inputs = [];
+    for (const doc of documents) {
+      const hash = doc.contentHash ?? await hashFile(doc.file);
+      hashes.set(doc.id, hash);
+      inputs.push({
+        id: doc.id,
+        name: doc.name,
+        format: doc.format,
+        hash,
+        csvHeader: doc.format === 'csv' ? await readCSVHeader(doc.file) : undefined,
+      });
+    }
+
+    const plan = planSmartMerge(inputs);
+    set(state => ({
+      documents: state.documents.map(doc =>
+        hashes.has(doc.id) ? { ...doc, contentHash: hashes.get(doc.id) } : doc
+      ),
+      smartPlan: plan,
+    }));
+    return plan;
+  },
+
+  // Custom Merge
+  setMergeRecipe: (recipe: MergeRecipe | null) => {
+    set({ mergeRecipe: recipe });
+  },
+
   // Merge Options
   setMergeOptions: (options: Partial<MergeOptions>) => {
     set(state => ({
@@ -293,7 +530,7 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
 
   // Processing
   startProcessing: async () => {
-    const { documents, mergeOptions, getOutputFormat, updateProgress } = get();
+    const { documents, mergeOptions, pagePlan, mergeRecipe, getOutputFormat, updateProgress } = get();
 
     if (documents.length === 0) {
       throw new Error('No documents to process');
@@ -305,6 +542,44 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
       throw new Error(`${unprocessedDocs.length} document(s) are still being analyzed. Please wait for analysis to complete.`);
     }
 
+    if (pagePlan && pagePlan.length === 0) {
+      throw new Error('The page organizer has no pages left to merge');
+    }
+
+    // Steps name their documents; each document is sent to the worker once
+    const isCustomMerge = mergeOptions.mode === 'custom' && !pagePlan;
+    const recipeDocuments: DocumentFile[] = [];
+    const recipeSteps: RecipeStepSource[] = [];
+    if (isCustomMerge) {
+      if (!mergeRecipe || mergeRecipe.steps.length === 0) {
+        throw new Error('The merge recipe has no steps');
+      }
+
+      mergeRecipe.steps.forEach((step, index) => {
+        const doc = documents.find(candidate => candidate.name === step.documentName);
+        if (!doc) {
+          throw new Error(`Recipe step ${index + 1}: ${step.documentName} is not among the uploaded documents`);
+        }
+        if (!recipeDocuments.includes(doc)) recipeDocuments.push(doc);
+        recipeSteps.push({
+          documentIndex: recipeDocuments.indexOf(doc),
+          range: step.range,
+          separator: step.separator,
+          title: step.title,
+          rotation: step.rotation,
+        });
+      });
+    }
+
+    // Page organizer plans and recipes carry their own page ranges
+    for (const doc of pagePlan || isCustomMerge ? [] : documents) {
+      if (doc.format !== 'pdf' || !doc.pageSelection || !doc.metadata?.pageCount) continue;
+      const selection = validatePageSelection(doc.pageSelection, doc.metadata.pageCount);
+      if (!selection.valid) {
+        throw new Error(`${doc.name}: ${selection.error}`);
+      }
+    }
+
     // Determine output format automatically
     const { format: outputFormat, reason } = getOutputFormat();
 
@@ -317,6 +592,11 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
       createdAt: new Date(),
     };
 
+    processingController?.abort();
+    const controller = new AbortController();
+    processingController = controller;
+    const { signal } = controller;
+
     set({ currentJob: job, isProcessing: true });
 
     try {
@@ -326,80 +606,124 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
 
       updateProgress(5); // Initial progress
 
-      // Group documents by format for processing
-      const documentsByFormat = documents.reduce((acc, doc) => {
-        if (!acc[doc.format]) acc[doc.format] = [];
-        acc[doc.format].push(doc);
-        return acc;
-      }, {} as Record<DocumentFormat, DocumentFile[]>);
-
-      let result;
-      const inputFormats = Object.keys(documentsByFormat) as DocumentFormat[];
-
       // Enhanced progress tracking for different processing types
       const progressCallback = (progress: number) => {
         const scaledProgress = 10 + (progress * 80); // Scale to 10-90% range
         updateProgress(scaledProgress);
       };
 
-      if (outputFormat === 'pdf' && (inputFormats.length > 1 || (inputFormats.length === 1 && inputFormats[0] === 'docx' && documents.length > 1))) {
-        // Convert all documents to PDF and merge
-        result = await DocumentProcessor.convertAndMergeToPDF(
-          documents.map(doc => ({ file: doc.file, format: doc.format })), 
-          { ...mergeOptions, onProgress: progressCallback } as unknown as Record<string, unknown>
-        );
-      } else if (inputFormats.length === 1 && inputFormats[0] === outputFormat) {
-        // Single format merge, no conversion needed
-        const format = inputFormats[0];
-        const files = documentsByFormat[format].map(doc => doc.file);
-        result = await DocumentProcessor.mergeDocuments(files, format, {
-          ...mergeOptions,
-          onProgress: progressCallback
-        } as unknown as Record<string, unknown>);
+      // Each merged file, with the documents it came from
+      const merged: { result: ProcessorResult; format: DocumentFormat; documents: DocumentFile[]; group?: SmartMergeGroup }[] = [];
+      const notes: string[] = [];
+      let formatReason = reason;
+
+      if (pagePlan) {
+        // Only the documents the plan uses are converted; pages refer to them by position
+        const planDocuments = documents.filter(doc => pagePlan.some(page => page.documentId === doc.id));
+        const pages: PageSource[] = pagePlan.map(page => ({
+          documentIndex: page.documentId ? planDocuments.findIndex(doc => doc.id === page.documentId) : undefined,
+          pageIndex: page.pageIndex,
+          rotation: page.rotation,
+        }));
+        const result = await runInDocumentWorker('convertAndMerge', {
+          documents: planDocuments.map(doc => ({ file: doc.file, format: doc.format, name: doc.name, password: doc.password, metadata: doc.metadata })),
+          options: { ...mergeOptions, pagePlan: pages } as unknown as Record<string, unknown>,
+        }, { onProgress: progressCallback, signal });
+        merged.push({ result, format: 'pdf', documents: planDocuments });
+      } else if (isCustomMerge) {
+        const result = await runInDocumentWorker('convertAndMerge', {
+          documents: recipeDocuments.map(doc => ({ file: doc.file, format: doc.format, name: doc.name, password: doc.password, metadata: doc.metadata })),
+          options: { ...mergeOptions, recipe: recipeSteps } as unknown as Record<string, unknown>,
+        }, { onProgress: progressCallback, signal });
+        merged.push({ result, format: 'pdf', documents: recipeDocuments });
+      } else if (mergeOptions.mode === 'smart') {
+        // Replanned here so the merge always matches the current documents
+        const plan = await get().createSmartPlan();
+        ErrorHandler.throwIfAborted(signal);
+
+        // Bates numbers run on from one PDF to the next, as one production
+        let batesOffset = 0;
+        for (const [index, group] of plan.groups.entries()) {
+          const groupDocuments = group.documentIds.map(id => documents.find(doc => doc.id === id)!);
+          const groupOptions = mergeOptions.bates ? { ...mergeOptions, bates: { ...mergeOptions.bates, start: mergeOptions.bates.start + batesOffset } } : mergeOptions;
+          const result = await mergeInWorker(groupDocuments, group.outputFormat, groupOptions, {
+            onProgress: progress => progressCallback((index + progress) / plan.groups.length),
+            signal,
+          });
+          merged.push({ result, format: group.outputFormat, documents: groupDocuments, group });
+          batesOffset += (result.batesRanges ?? []).reduce((pages, range) => pages + range.pageCount, 0);
+        }
+
+        plan.duplicates.forEach(({ documentId, duplicateOfId }) => {
+          const name = (id: string) => documents.find(doc => doc.id === id)?.name;
+          notes.push(`${name(documentId)} skipped: same content as ${name(duplicateOfId)}`);
+        });
+        formatReason = `Smart merge: ${plan.groups.map(group => `${group.label} as ${group.outputFormat.toUpperCase()}`).join('; ')}`;
       } else {
-        throw new Error(`Format conversion to ${outputFormat} not yet supported for this combination`);
+        const result = await mergeInWorker(documents, outputFormat, mergeOptions, { onProgress: progressCallback, signal });
+        merged.push({ result, format: outputFormat, documents });
       }
 
-      if (result.success && result.data) {
-        // Create download URL with proper MIME type
-        const mimeTypes = {
-          'pdf': 'application/pdf',
-          'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-          'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'txt': 'text/plain',
-          'csv': 'text/csv',
-          'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
-        };
+      ErrorHandler.throwIfAborted(signal);
 
-        const blob = new Blob([result.data as BlobPart], {
-          type: mimeTypes[outputFormat] || 'application/octet-stream'
-        });
-        const resultUrl = URL.createObjectURL(blob);
-        
-        // Add URL to cleanup set
-        const { addUrlToCleanup } = get();
-        addUrlToCleanup(resultUrl);
-
-        updateProgress(95);
-        
-        set(state => ({
-          currentJob: state.currentJob ? {
-            ...state.currentJob,
-            status: 'completed',
-            progress: 100,
-            completedAt: new Date(),
-            resultUrl,
-            outputFormat,
-            formatReason: reason,
-          } : null,
-          isProcessing: false,
-        }));
-        
-        updateProgress(100);
-      } else {
-        throw new Error(result.error || 'Processing failed');
+      const failed = merged.find(entry => !entry.result.success || !entry.result.data);
+      if (failed) {
+        const error = failed.result.error || 'Processing failed';
+        throw new Error(failed.group && merged.length > 1 ? `${failed.group.label}: ${error}` : error);
       }
+
+      // Create download URLs with proper MIME types
+      const { addUrlToCleanup } = get();
+      const outputs: MergeOutput[] = merged.map(entry => {
+        const blob = new Blob([entry.result.data as BlobPart], {
+          type: MIME_TYPES[entry.format] || 'application/octet-stream'
+        });
+        const url = URL.createObjectURL(blob);
+        addUrlToCleanup(url);
+
+        const baseName = entry.group && merged.length > 1
+          ? `${mergeOptions.outputName}-${entry.group.key}`
+          : mergeOptions.outputName;
+        return {
+          name: `${baseName}${getFileExtension(entry.format)}`,
+          format: entry.format,
+          url,
+          documentIds: entry.documents.map(doc => doc.id),
+          optimization: entry.result.optimization,
+          batesRanges: entry.result.batesRanges,
+        };
+      });
+
+      const warnings = [
+        ...notes,
+        ...merged.flatMap(entry => (entry.result.warnings ?? []).map(warning =>
+          entry.group && merged.length > 1 ? `${entry.group.label}: ${warning}` : warning)),
+      ];
+
+      updateProgress(95);
+
+      set(state => ({
+        currentJob: state.currentJob ? {
+          ...state.currentJob,
+          status: 'completed',
+          progress: 100,
+          completedAt: new Date(),
+          resultUrl: outputs[0].url,
+          outputs,
+          outputFormat: outputs[0].format,
+          formatReason,
+          warnings: warnings.length > 0 ? warnings : undefined,
+        } : null,
+        isProcessing: false,
+      }));
+
+      updateProgress(100);
     } catch (originalError) {
+      if (ErrorHandler.isAbortError(originalError)) {
+        // cancelProcessing has already marked the job; only a job replaced by a newer one lands here
+        return;
+      }
+
       const error = ErrorHandler.createUserFriendlyError(originalError, 'processing');
       const errorDetails = ErrorHandler.getErrorDetails(error);
       
@@ -417,22 +741,42 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
         } : null,
         isProcessing: false,
       }));
+    } finally {
+      if (processingController === controller) {
+        processingController = null;
+      }
     }
   },
 
   cancelProcessing: () => {
     const { currentJob } = get();
+
+    // Stops the worker running the job, which releases the buffers it holds
+    processingController?.abort();
+    processingController = null;
+
     if (currentJob?.resultUrl && currentJob.resultUrl.startsWith('blob:')) {
       URL.revokeObjectURL(currentJob.resultUrl);
       const { urlsToCleanup } = get();
       urlsToCleanup.delete(currentJob.resultUrl);
     }
-    set({ currentJob: null, isProcessing: false });
+
+    if (currentJob && (currentJob.status === 'queued' || currentJob.status === 'processing')) {
+      set({
+        currentJob: { ...currentJob, status: 'cancelled', completedAt: new Date() },
+        isProcessing: false,
+      });
+    } else {
+      set({ currentJob: null, isProcessing: false });
+    }
   },
 
   updateProgress: (progress: number) => {
     set(state => ({
-      currentJob: state.currentJob ? { ...state.currentJob, progress } : null
+      // Late progress from a cancelled or finished job must not move the bar
+      currentJob: state.currentJob && (state.currentJob.status === 'queued' || state.currentJob.status === 'processing')
+        ? { ...state.currentJob, progress }
+        : state.currentJob
     }));
   },
 
@@ -472,26 +816,26 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
   },
 
   getOutputFormat: () => {
-    const { documents } = get();
+    const { documents, mergeOptions, pagePlan } = get();
     
     if (documents.length === 0) {
       return { format: 'pdf' as DocumentFormat, reason: 'No documents selected' };
     }
 
+    if (pagePlan) {
+      return { format: 'pdf' as DocumentFormat, reason: 'Pages arranged in the page organizer are merged as PDF' };
+    }
+
+    if (mergeOptions.mode === 'custom') {
+      return { format: 'pdf' as DocumentFormat, reason: 'Merge recipe steps are combined as PDF' };
+    }
+
     const formats = [...new Set(documents.map(doc => doc.format))];
     
     // If all documents are the same format
     if (formats.length === 1) {
       const format = formats[0];
       
-      // Special case: Multiple DOCX files should be converted to PDF for better merging
-      if (format === 'docx' && documents.length > 1) {
-        return { 
-          format: 'pdf' as DocumentFormat, 
-          reason: 'Multiple Word documents will be merged as PDF to preserve formatting' 
-        };
-      }
-      
       return { 
         format, 
         reason: `Single format detected: ${format.toUpperCase()}` 
@@ -0,0 +1,99 @@
+import { create } from 'zustand';
+import { SplitOptions, SplitPart } from '@/app/types';
+import { DocumentProcessor } from '@/app/lib/document-processors';
+import { runInDocumentWorker } from '@/app/lib/workers/worker-pool';
+import { useDocumentStore } from '@/app/stores/document-store';
+
+interface SplitStore {
+  // State
+  documentId: string | null;
+  splitOptions: SplitOptions;
+  parts: SplitPart[];
+  isSplitting: boolean;
+  error: string | null;
+
+  // Actions
+  selectDocument: (id: string | null) => void;
+  setSplitOptions: (options: Partial<SplitOptions>) => void;
+  startSplit: () => Promise<void>;
+  resetSplit: () => void;
+}
+
+const defaultSplitOptions: SplitOptions = {
+  mode: 'range',
+  ranges: '',
+  pagesPerPart: 1,
+  linesPerPart: 1000,
+};
+
+export const useSplitStore = create<SplitStore>((set, get) => ({
+  // Initial State
+  documentId: null,
+  splitOptions: defaultSplitOptions,
+  parts: [],
+  isSplitting: false,
+  error: null,
+
+  // Actions
+  selectDocument: (id) => {
+    const document = useDocumentStore.getState().documents.find(doc => doc.id === id);
+    const [mode] = document ? DocumentProcessor.getSupportedSplitModes(document.format) : [];
+
+    set(state => ({
+      documentId: id,
+      splitOptions: { ...state.splitOptions, mode: mode ?? defaultSplitOptions.mode },
+      parts: [],
+      error: null,
+    }));
+  },
+
+  setSplitOptions: (options) => {
+    set(state => ({
+      splitOptions: { ...state.splitOptions, ...options },
+      parts: [],
+      error: null,
+    }));
+  },
+
+  startSplit: async () => {
+    const { documentId, splitOptions } = get();
+    const document = useDocumentStore.getState().documents.find(doc => doc.id === documentId);
+
+    if (!document) {
+      set({ error: 'Choose a document to split' });
+      return;
+    }
+
+    set({ isSplitting: true, parts: [], error: null });
+
+    try {
+      const result = await runInDocumentWorker('split', {
+        file: document.file,
+        format: document.format,
+        options: splitOptions,
+        password: document.password,
+      });
+      if (!result.success || !result.parts) {
+        throw new Error(result.error || 'Split failed');
+      }
+
+      set({ parts: result.parts, isSplitting: false });
+    } catch (error) {
+      console.error('Split error:', error);
+      set({
+        isSplitting: false,
+        error: error instanceof Error ? error.message : 'Split failed',
+      });
+    }
+  },
+
+  resetSplit: () => {
+    set({
+      documentId: null,
+      splitOptions: defaultSplitOptions,
+      parts: [],
+      isSplitting: false,
+      error: null,
+    });
+  },
+}));
@@ -1,9 +1,12 @@
 import { create } from 'zustand';
 import { DocumentFile, Notification } from '@/app/types';
+import { configureDocumentWorkerPool } from '@/app/lib/workers/worker-pool';
+
+const WORKER_POOL_SIZE_KEY = 'workerPoolSize';
 
 interface UIStore {
   // UI State
-  activeTab: 'upload' | 'merge' | 'preview' | 'export';
+  activeTab: 'upload' | 'merge' | 'split' | 'preview' | 'export';
   sidebarOpen: boolean;
   theme: 'dark' | 'light';
 
@@ -16,8 +19,11 @@ interface UIStore {
   // Notifications
   notifications: Notification[];
 
+  // Preferences
+  workerPoolSize: number | null; // Documents processed in parallel; null = chosen from the CPU cores
+
   // Actions
-  setActiveTab: (tab: 'upload' | 'merge' | 'preview' | 'export') => void;
+  setActiveTab: (tab: 'upload' | 'merge' | 'split' | 'preview' | 'export') => void;
   toggleSidebar: () => void;
   setTheme: (theme: 'dark' | 'light') => void;
 
@@ -33,6 +39,10 @@ interface UIStore {
   addNotification: (notification: Omit<Notification, 'id' | 'timestamp'>) => void;
   removeNotification: (id: string) => void;
   clearNotifications: () => void;
+
+  // Preferences
+  setWorkerPoolSize: (size: number | null) => void;
+  restorePreferences: () => void;
 }
 
 function generateNotificationId(): string {
@@ -54,6 +64,9 @@ export const useUIStore = create<UIStore>((set, get) => ({
   // Notifications
   notifications: [],
 
+  // Preferences
+  workerPoolSize: null,
+
   // Actions
   setActiveTab: (tab) => {
     set({ activeTab: tab });
@@ -125,4 +138,23 @@ export const useUIStore = create<UIStore>((set, get) => ({
   clearNotifications: () => {
     set({ notifications: [] });
   },
+
+  // Preferences
+  setWorkerPoolSize: (size) => {
+    set({ workerPoolSize: size });
+    configureDocumentWorkerPool(size);
+    if (size === null) {
+      localStorage.removeItem(WORKER_POOL_SIZE_KEY);
+    } else {
+      localStorage.setItem(WORKER_POOL_SIZE_KEY, String(size));
+    }
+  },
+
+  restorePreferences: () => {
+    const saved = Number(localStorage.getItem(WORKER_POOL_SIZE_KEY));
+    if (Number.isInteger(saved) && saved > 0) {
+      set({ workerPoolSize: saved });
+      configureDocumentWorkerPool(saved);
+    }
+  },
 }));
\ No newline at end of file
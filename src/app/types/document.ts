@@ -9,8 +9,14 @@ export interface DocumentFile {
   status: 'pending' | 'processing' | 'processed' | 'error';
   progress?: number; // Progress percentage (0-1)
   preview?: string;
+  thumbnails?: string[]; // Blob URLs of rendered page images, in page order
+  renderedPageCount?: number; // Pages in the PDF rendition behind the thumbnails (may exceed thumbnails.length)
   metadata?: DocumentMetadata;
   error?: string;
+  pageSelection?: string; // PDF pages to merge, e.g. "1-3, 7, 10-end" (empty = all pages)
+  password?: string; // Opens an encrypted PDF
+  passwordRequired?: boolean; // Encrypted PDF waiting for its password
+  contentHash?: string; // SHA-256 of the file, computed when smart merge looks for duplicates
 }
 
 export interface DocumentMetadata {
@@ -26,6 +32,9 @@ export interface DocumentMetadata {
 
 export type MergeMode = 'sequential' | 'smart' | 'custom';
 
+// How CSV merges line up columns: by position, or by header name keeping all or only shared columns
+export type CSVColumnMode = 'position' | 'union' | 'intersection';
+
 export interface MergeOptions {
   mode: MergeMode;
   outputName: string;
@@ -36,20 +45,142 @@ export interface MergeOptions {
   pageBreaks?: boolean;
   includeHeaders?: boolean;
   includeFooters?: boolean;
+  csvColumnMode?: CSVColumnMode;
+  csvSourceColumn?: boolean; // Add a column naming each row's source file
+  xlsxCombineSheets?: boolean; // Stack rows of matching sheets into one sheet
+  xlsxSourceColumns?: boolean; // With xlsxCombineSheets, add source file and sheet columns
+  encryption?: PDFEncryptionOptions; // Password-protect PDF output
+  pageStamps?: PageStampOptions; // Header and footer text for PDF output, drawn when includeHeaders / includeFooters is on
+  watermark?: WatermarkOptions; // Mark PDF and DOCX output, e.g. as DRAFT
+  tableOfContents?: boolean; // Open PDF and DOCX output with a list of the merged documents
+  separatorPages?: SeparatorPageOptions; // A title sheet before each document in PDF and DOCX output
+  bates?: BatesOptions; // Number every page of PDF output for legal production
+}
+
+// Bates numbers stamped on every page of a merged PDF, e.g. ABC000001
+export interface BatesOptions {
+  prefix: string;
+  suffix: string;
+  start: number; // Number of the first page
+  digits: number; // Zero-padded width of the counter
+  position: 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+  fontSize: number; // Points
+  margin: number; // Distance from the page edge, in points
+}
+
+// A run of consecutive Bates numbers from one source document
+export interface BatesRange {
+  begin: string; // First Bates number, e.g. ABC000001
+  end: string;
+  pageCount: number;
+  source?: string; // Omitted for pages the merge added, such as contents and separator pages
+}
+
+// What the title sheet before each merged document shows besides its file name
+export interface SeparatorPageOptions {
+  showDetails: boolean; // Author, created and modified dates, and page count from the document's metadata
+  note: string; // Printed at the bottom of every sheet (empty = none)
+}
+
+// A text or picture mark laid over merged PDF pages, or behind DOCX pages through their headers
+export interface WatermarkOptions {
+  kind: 'text' | 'image';
+  text: string; // e.g. "DRAFT" or "CONFIDENTIAL"
+  image?: File; // PNG or JPEG, for kind 'image'
+  color: string; // Text color as #rrggbb
+  opacity: number; // 0-1; pictures in DOCX use Word's washout instead
+  rotation: number; // Counter-clockwise degrees
+  position: 'center' | 'top' | 'bottom' | 'tiled'; // DOCX places tiled marks in the center
+  scale: number; // Width of the mark as a fraction of the page width
+  pages?: string; // PDF pages to mark, e.g. "1-3, 8" (empty = all)
+}
+
+// Text drawn at the top and bottom of every page of a merged PDF
+export interface PageStampOptions {
+  headerTemplate: string; // Tokens: {page}, {total}, {source}, {date}, {title}
+  footerTemplate: string;
+  fontStyle: 'regular' | 'bold' | 'italic';
+  fontSize: number; // Points
+  alignment: 'left' | 'center' | 'right';
+  margin: number; // Distance from the page edge, in points
+}
+
+// One page of the page organizer's plan: a page of an uploaded document, or an inserted blank page
+export interface PlannedPage {
+  id: string;
+  documentId?: string; // Omitted for a blank page
+  pageIndex?: number; // Zero-based page of the document's PDF rendition
+  rotation: number; // Clockwise degrees added to the page, a multiple of 90
+}
+
+// A planned page as the PDF processor takes it, pointing at a document by its position in the merge
+export interface PageSource {
+  documentIndex?: number; // Omitted for a blank page
+  pageIndex?: number;
+  rotation?: number;
+  label?: string; // Text centered on a blank page, e.g. a separator title
+}
+
+// One step of a custom merge recipe: a range of one document, optionally after a separator page
+export interface MergeRecipeStep {
+  id: string;
+  documentName: string; // Steps find their document by file name, so a saved recipe works on new uploads
+  range?: string; // Pages, or sheets of an XLSX and slides of a PPTX, e.g. "1-3, 7" (empty = all)
+  separator?: boolean; // Insert a separator page before the step
+  title?: string; // Separator page text and bookmark title (default: the document name)
+  rotation?: number; // Clockwise degrees added to the step's pages, a multiple of 90
+}
+
+// A custom merge plan, as saved to and loaded from JSON
+export interface MergeRecipe {
+  version: 1;
+  steps: MergeRecipeStep[];
+}
+
+// A recipe step as the document processor takes it, pointing at a document by its position in the merge
+export interface RecipeStepSource extends Omit<MergeRecipeStep, 'id' | 'documentName'> {
+  documentIndex: number;
+}
+
+// What a PDF opened with the user password allows; everything is allowed when omitted
+export interface PDFPermissions {
+  printing?: boolean;
+  modifying?: boolean;
+  copying?: boolean;
+  annotating?: boolean;
+  fillingForms?: boolean;
+  documentAssembly?: boolean;
+}
+
+export interface PDFEncryptionOptions {
+  userPassword: string; // Needed to open the file (empty = opens without one)
+  ownerPassword?: string; // Lifts the permissions (empty = random, so they stay locked)
+  permissions?: PDFPermissions;
 }
 
 export interface ProcessingJob {
   id: string;
   documents: DocumentFile[];
   options: MergeOptions;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   createdAt: Date;
   completedAt?: Date;
   resultUrl?: string;
+  outputs?: MergeOutput[]; // Every file the job produced; smart merges make one per group
   outputFormat?: DocumentFormat;
   formatReason?: string;
   error?: string;
+  warnings?: string[];
+}
+
+export interface MergeOutput {
+  name: string; // File name with extension
+  format: DocumentFormat;
+  url: string;
+  documentIds: string[];
+  optimization?: PDFOptimizationReport;
+  batesRanges?: BatesRange[];
 }
 
 export interface ProcessorResult {
@@ -57,6 +188,41 @@ export interface ProcessorResult {
   data?: Uint8Array | ArrayBuffer;
   metadata?: DocumentMetadata;
   error?: string;
+  warnings?: string[]; // Non-fatal issues worth showing, e.g. mismatched CSV columns
+  optimization?: PDFOptimizationReport; // Set on PDF output rewritten for the quality setting
+  batesRanges?: BatesRange[]; // Set on PDF output with Bates numbers, in page order
+}
+
+// What optimizing a merged PDF for the quality setting changed
+export interface PDFOptimizationReport {
+  originalSize: number; // Bytes before optimizing
+  optimizedSize: number;
+  unusedObjectsRemoved: number;
+  duplicatesRemoved: number; // Identical fonts, images and other streams now shared
+  imagesRecompressed: number;
+}
+
+export type SplitMode = 'range' | 'every' | 'sheet' | 'lines';
+
+export interface SplitOptions {
+  mode: SplitMode;
+  ranges?: string; // 'range' mode: one part per range, e.g. "1-3, 4-8, 9-end"
+  pagesPerPart?: number; // 'every' mode
+  linesPerPart?: number; // 'lines' mode
+}
+
+export interface SplitPart {
+  name: string;
+  format: DocumentFormat;
+  data: Uint8Array | ArrayBuffer;
+  description: string; // e.g. "Pages 1-3" or "Sheet: Totals"
+  preview?: string;
+}
+
+export interface SplitResult {
+  success: boolean;
+  parts?: SplitPart[];
+  error?: string;
 }
 
 export interface UploadProgress {
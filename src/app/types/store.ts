@@ -30,7 +30,7 @@ export interface DocumentStore {
 
 export interface UIStore {
   // UI State
-  activeTab: 'upload' | 'merge' | 'preview' | 'export';
+  activeTab: 'upload' | 'merge' | 'split' | 'preview' | 'export';
   sidebarOpen: boolean;
   theme: 'dark' | 'light';
   
@@ -42,9 +42,12 @@ export interface UIStore {
   
   // Notifications
   notifications: Notification[];
+
+  // Preferences
+  workerPoolSize: number | null;
   
   // Actions
-  setActiveTab: (tab: 'upload' | 'merge' | 'preview' | 'export') => void;
+  setActiveTab: (tab: 'upload' | 'merge' | 'split' | 'preview' | 'export') => void;
   toggleSidebar: () => void;
   setTheme: (theme: 'dark' | 'light') => void;
   
@@ -60,6 +63,10 @@ export interface UIStore {
   addNotification: (notification: Omit<Notification, 'id' | 'timestamp'>) => void;
   removeNotification: (id: string) => void;
   clearNotifications: () => void;
+
+  // Preferences
+  setWorkerPoolSize: (size: number | null) => void;
+  restorePreferences: () => void;
 }
 
 export interface Notification {